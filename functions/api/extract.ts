@@ -0,0 +1,113 @@
+import { isValidUrl } from '../_lib/utils';
+import { checkRateLimit } from '../_lib/rateLimiter';
+import { createUserAgent } from '../../src/utils/serverUtils';
+import {
+  createExtractionError,
+  createFetchResourceFetcher,
+  extractAssetsOnServer,
+  normalizeExtractionUrl,
+  type ServerExtractionResponse
+} from '../../src/utils/serverExtraction';
+
+interface Env {
+  RATE_LIMIT_KV: KVNamespace;
+}
+
+export async function onRequestGet(context: { request: Request; env: Env }) {
+  const { request, env } = context;
+  const url = new URL(request.url);
+  const rawUrl = url.searchParams.get('url');
+
+  // CORS headers
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  };
+
+  const respond = ({ status, result }: ServerExtractionResponse, extraHeaders: Record<string, string> = {}) =>
+    new Response(JSON.stringify(result), {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        ...extraHeaders,
+        ...corsHeaders
+      }
+    });
+
+  if (!rawUrl) {
+    return respond(createExtractionError('', 400, 'URL parameter is required and must be a string'));
+  }
+
+  const targetUrl = normalizeExtractionUrl(rawUrl);
+
+  try {
+    if (!isValidUrl(targetUrl)) {
+      return respond(createExtractionError(targetUrl, 403, 'Invalid or unsafe URL'));
+    }
+
+    // Get client IP for rate limiting
+    const clientIp = request.headers.get('CF-Connecting-IP') ||
+                     request.headers.get('X-Forwarded-For') ||
+                     request.headers.get('X-Real-IP') ||
+                     'unknown';
+
+    // Check rate limit if KV is available
+    let rateLimitResult = {
+      limited: false,
+      remaining: 100,
+      resetTime: Date.now() + 3600000 // 1 hour from now
+    };
+
+    if (env.RATE_LIMIT_KV) {
+      try {
+        rateLimitResult = await checkRateLimit(clientIp, env.RATE_LIMIT_KV);
+      } catch (error) {
+        console.error('Rate limit check failed:', error);
+        // Continue without rate limiting if KV fails
+      }
+    } else {
+      console.warn('RATE_LIMIT_KV not available, skipping rate limiting');
+    }
+
+    const rateLimitHeaders = {
+      'X-RateLimit-Limit': '100',
+      'X-RateLimit-Remaining': rateLimitResult.limited ? '0' : rateLimitResult.remaining.toString(),
+      'X-RateLimit-Reset': Math.floor(rateLimitResult.resetTime / 1000).toString()
+    };
+
+    if (rateLimitResult.limited) {
+      return respond(createExtractionError(targetUrl, 429, 'Too many requests. Please try again later.'), rateLimitHeaders);
+    }
+
+    console.log(`Extracting assets from: ${targetUrl}`);
+
+    const fetcher = createFetchResourceFetcher(isValidUrl, createUserAgent());
+    const extraction = await extractAssetsOnServer(targetUrl, fetcher);
+
+    return respond(extraction, {
+      ...rateLimitHeaders,
+      'Cache-Control': extraction.status === 200 ? 'public, max-age=300' : 'no-store'
+    });
+  } catch (error) {
+    console.error('Extraction error details:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      targetUrl,
+      timestamp: new Date().toISOString()
+    });
+
+    return respond(createExtractionError(targetUrl, 500, 'Internal server error'));
+  }
+}
+
+export async function onRequestOptions() {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    }
+  });
+}
@@ -1,4 +1,5 @@
 import { isValidUrl, sanitizeContent, minimalSanitizeForExtraction } from '../_lib/utils';
+import { isBinaryContentType } from '../../src/utils/serverUtils';
 import { checkRateLimit } from '../_lib/rateLimiter';
 
 interface Env {
@@ -220,6 +221,23 @@ export async function onRequestGet(context: { request: Request; env: Env }) {
       responseHeaders['Content-Type'] = contentType;
     }
 
+    // Stream images, fonts and other binary files through untouched
+    if (isBinaryContentType(contentType)) {
+      if (contentType.includes('image/svg+xml')) {
+        // SVGs can carry scripts, so never let them run on our origin
+        responseHeaders['Content-Security-Policy'] = "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+      }
+      // The body is streamed, so pass the upstream size on for clients that only read the first bytes
+      const contentLength = response.headers.get('content-length');
+      if (contentLength && !response.headers.get('content-encoding')) {
+        responseHeaders['X-Content-Length'] = contentLength;
+      }
+      return new Response(response.body, {
+        status: 200,
+        headers: responseHeaders
+      });
+    }
+
     const content = await response.text();
     
     if (contentType.includes('text/html')) {
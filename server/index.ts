@@ -2,10 +2,19 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import axios from 'axios';
 import path from 'path';
+import { pipeline, type Readable } from 'stream';
 import { checkRateLimit } from './rateLimiter';
 import { isValidUrl, sanitizeContent } from './utils';
+import { createUserAgent, isBinaryContentType } from '../src/utils/serverUtils';
 import { setupSecurityMiddleware } from './security';
 import { ErrorResponse, HealthResponse } from './types';
+import {
+  createExtractionError,
+  extractAssetsOnServer,
+  normalizeExtractionUrl,
+  MAX_RESOURCE_BYTES,
+  type ResourceFetcher
+} from '../src/utils/serverExtraction';
 
 const __dirname = path.resolve();
 const app = express();
@@ -73,14 +82,16 @@ app.get('/api/proxy', async (req: Request, res: Response) => {
     console.log(`[${new Date().toISOString()}] Proxying request to: ${url}`);
     const response = await axios.get(url, {
       headers: {
-        'User-Agent': 'Brrrand Asset Extractor/1.0 (https://brrrand.it.com)',
+        'User-Agent': createUserAgent(),
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
         'Accept-Language': 'en-US,en;q=0.5',
       },
       timeout: 10000,
       maxRedirects: 5,
-      responseType: 'text'
+      // Receive the raw byte stream so images and fonts are neither decoded as text nor buffered
+      responseType: 'stream'
     });
+    const upstream = response.data as Readable;
     
     res.set('X-RateLimit-Limit', MAX_REQUESTS_PER_HOUR.toString());
     res.set('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
@@ -103,10 +114,28 @@ app.get('/api/proxy', async (req: Request, res: Response) => {
       res.set('Content-Type', contentType);
     }
     
+    // Stream images, fonts and other binary files through untouched
+    if (isBinaryContentType(contentType)) {
+      if (contentType.includes('image/svg+xml')) {
+        // SVGs can carry scripts, so never let them run on our origin
+        res.set('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+      }
+      res.status(200);
+      pipeline(upstream, res, (error) => {
+        if (error) {
+          console.error('Proxy stream error:', error.message);
+        }
+      });
+      return;
+    }
+    
+    // Text is sanitized as a whole, so it is read up to the same limit as extraction
+    const body = await readStreamText(upstream, MAX_RESOURCE_BYTES);
+    
     if (contentType.includes('text/html')) {
-      return res.status(200).send(sanitizeContent(response.data));
+      return res.status(200).send(sanitizeContent(body));
     } else {
-      return res.status(200).send(response.data);
+      return res.status(200).send(body);
     }
     
   } catch (error) {
@@ -125,9 +154,18 @@ app.get('/api/proxy', async (req: Request, res: Response) => {
         } as ErrorResponse);
       }
       
+      if (error.message.startsWith('Response too large')) {
+        res.removeHeader('Cache-Control');
+        return res.status(502).json({ 
+          error: 'Website response is too large' 
+        } as ErrorResponse);
+      }
+      
       if ('response' in error && error.response) {
         const axiosResponse = error.response as any;
         const status = axiosResponse.status || 500;
+        // Error bodies arrive as streams too; drop them instead of leaving the socket open
+        axiosResponse.data?.destroy?.();
         return res.status(status).json({ 
           error: `Website returned ${status}` 
         } as ErrorResponse);
@@ -140,6 +178,103 @@ app.get('/api/proxy', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Read a response stream as UTF-8 text, giving up as soon as it grows past `maxBytes`
+ */
+async function readStreamText(stream: Readable, maxBytes: number): Promise<string> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+
+  for await (const chunk of stream) {
+    length += chunk.length;
+    if (length > maxBytes) {
+      stream.destroy();
+      throw new Error(`Response too large: over ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Fetch pages and stylesheets for server-side extraction using axios
+ */
+const fetchResourceWithAxios: ResourceFetcher = async (url: string) => {
+  if (!isValidUrl(url)) {
+    throw new Error(`Refusing to fetch unsafe URL: ${url}`);
+  }
+
+  const response = await axios.get(url, {
+    headers: {
+      'User-Agent': createUserAgent(),
+      'Accept': 'text/html,application/xhtml+xml,text/css,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.5',
+    },
+    timeout: 10000,
+    maxRedirects: 5,
+    // A public URL must not redirect to an internal one
+    beforeRedirect: (options) => {
+      if (!isValidUrl(options.href)) {
+        throw new Error(`Refusing to follow redirect to unsafe URL: ${options.href}`);
+      }
+    },
+    responseType: 'text',
+    // Refuse oversized bodies instead of buffering them in full
+    maxContentLength: MAX_RESOURCE_BYTES,
+    // Let the extractor decide how to report upstream errors
+    validateStatus: () => true
+  });
+
+  return {
+    ok: response.status >= 200 && response.status < 300,
+    status: response.status,
+    url: response.request?.res?.responseUrl || url,
+    contentType: String(response.headers['content-type'] || ''),
+    text: typeof response.data === 'string' ? response.data : ''
+  };
+};
+
+app.get('/api/extract', async (req: Request, res: Response) => {
+  const { url } = req.query;
+  
+  if (!url || typeof url !== 'string') {
+    const { status, result } = createExtractionError('', 400, 'URL parameter is required and must be a string');
+    return res.status(status).json(result);
+  }
+  
+  const targetUrl = normalizeExtractionUrl(url);
+  
+  if (!isValidUrl(targetUrl)) {
+    const { status, result } = createExtractionError(targetUrl, 403, 'Invalid or unsafe URL');
+    return res.status(status).json(result);
+  }
+  
+  const clientIp = (req as RequestWithClientIp).clientIp || '';
+  const rateLimitResult = checkRateLimit(clientIp);
+  
+  res.set('X-RateLimit-Limit', MAX_REQUESTS_PER_HOUR.toString());
+  res.set('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
+  res.set('X-RateLimit-Reset', Math.floor(rateLimitResult.resetTime / 1000).toString());
+  
+  if (rateLimitResult.limited) {
+    const { status, result } = createExtractionError(targetUrl, 429, 'Too many requests. Please try again later.');
+    return res.status(status).json(result);
+  }
+  
+  try {
+    console.log(`[${new Date().toISOString()}] Extracting assets from: ${targetUrl}`);
+    const { status, result } = await extractAssetsOnServer(targetUrl, fetchResourceWithAxios);
+    
+    res.set('Cache-Control', status === 200 ? 'public, max-age=300' : 'no-store');
+    return res.status(status).json(result);
+  } catch (error) {
+    console.error('Extraction error:', error instanceof Error ? error.message : 'Unknown error');
+    const { status, result } = createExtractionError(targetUrl, 500, 'Internal server error');
+    return res.status(status).json(result);
+  }
+});
+
 app.get('/api/health', (_req: Request, res: Response) => {
   res.status(200).json({ 
     status: 'ok',
@@ -1,20 +1,73 @@
-import React from 'react'
-import { Palette, Copy } from 'lucide-react'
+import React, { useState } from 'react'
+import { Palette, Copy, FileDown, Sun, Moon } from 'lucide-react'
+import type { ColorRole } from '../utils/assetExtraction'
+import { COLOR_FORMAT_LABELS, getColorFormats, type ColorFormat } from '../utils/colorModel'
+import { COLOR_ROLE_ORDER } from '../utils/colorRoles'
+import { PALETTE_FORMATS, type PaletteFormat } from '../utils/paletteExport'
+
+const MAX_VISIBLE_COLORS = 12
+
+const ROLE_LABELS: Record<ColorRole, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  accent: 'Accent',
+  text: 'Text',
+  background: 'Background'
+}
 
 interface Color {
   value?: string
+  role?: ColorRole
+  usageCount?: number
+  neutral?: boolean
+  variants?: string[]
+  tokens?: string[]
 }
 
+export type ColorScheme = 'light' | 'dark'
+
 interface ColorsSectionProps {
   colors: Color[]
+  darkColors?: Color[]
+  /** Which palette is shown when the site has a dark one */
+  scheme: ColorScheme
+  onSchemeChange: (scheme: ColorScheme) => void
   onCopyToClipboard: (text: string) => void
+  onExportPalette?: (format: PaletteFormat) => void
 }
 
 export const ColorsSection: React.FC<ColorsSectionProps> = ({
-  colors,
-  onCopyToClipboard
+  colors: lightColors,
+  darkColors,
+  scheme,
+  onSchemeChange,
+  onCopyToClipboard,
+  onExportPalette
 }) => {
-  if (colors.length === 0) return null
+  const [format, setFormat] = useState<ColorFormat>('hex')
+
+  if (lightColors.length === 0 && !darkColors?.length) return null
+
+  const hasDarkPalette = !!darkColors?.length
+  const colors = scheme === 'dark' && hasDarkPalette ? darkColors : lightColors
+
+  // Values that are not parseable colors are shown as extracted
+  const formatColor = (value: string) => getColorFormats(value)?.[format] ?? value
+
+  const visibleColors = colors.slice(0, MAX_VISIBLE_COLORS)
+
+  // Group swatches by role; colors without a role are shown last
+  const groups: { label: string | null; colors: Color[] }[] = COLOR_ROLE_ORDER
+    .map(role => ({
+      label: ROLE_LABELS[role],
+      colors: visibleColors.filter(color => color.role === role)
+    }))
+    .filter(group => group.colors.length > 0)
+
+  const unassigned = visibleColors.filter(color => !color.role)
+  if (unassigned.length > 0) {
+    groups.push({ label: groups.length > 0 ? 'Other' : null, colors: unassigned })
+  }
 
   return (
     <div className="bg-white border rounded-lg p-6">
@@ -27,7 +80,10 @@ export const ColorsSection: React.FC<ColorsSectionProps> = ({
         </div>
         <button
           onClick={() => {
-            const colorValues = colors.map(c => c.value).join('\n')
+            const colorValues = colors
+              .filter(c => c.value)
+              .map(c => formatColor(c.value!))
+              .join('\n')
             onCopyToClipboard(colorValues)
           }}
           className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1 rounded flex items-center gap-1"
@@ -36,32 +92,126 @@ export const ColorsSection: React.FC<ColorsSectionProps> = ({
           Copy All
         </button>
       </div>
-      <div className="grid grid-cols-3 gap-3">
-        {colors.slice(0, 12).map((color, index) => (
-          <div key={index} className="group cursor-pointer" onClick={() => {
-            if (color.value) {
-              onCopyToClipboard(color.value)
-            }
-          }}>
-            <div 
-              className="w-full h-12 rounded-lg border-2 border-gray-200 group-hover:border-gray-300 transition-colors"
-              style={{ backgroundColor: color.value }}
-              title={`Click to copy ${color.value}`}
-            />
-            <p className="text-xs text-gray-600 mt-1 text-center font-mono">
-              {color.value}
-            </p>
-            <div className="text-center mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
-              <Copy className="w-3 h-3 text-gray-500 mx-auto" />
+      {hasDarkPalette && (
+        <div className="inline-flex rounded border border-gray-300 overflow-hidden mb-3" role="group" aria-label="Color scheme">
+          {(['light', 'dark'] as const).map(candidate => (
+            <button
+              key={candidate}
+              aria-pressed={candidate === scheme}
+              onClick={() => onSchemeChange(candidate)}
+              className={`text-xs px-3 py-1 flex items-center gap-1 ${
+                candidate === scheme ? 'bg-gray-900 text-white' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {candidate === 'light' ? <Sun className="w-3 h-3" /> : <Moon className="w-3 h-3" />}
+              {candidate === 'light' ? 'Light' : 'Dark'}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-1 mb-4" role="group" aria-label="Color format">
+        {(Object.keys(COLOR_FORMAT_LABELS) as ColorFormat[]).map(candidate => (
+          <button
+            key={candidate}
+            aria-pressed={candidate === format}
+            onClick={() => setFormat(candidate)}
+            className={`text-[10px] font-medium px-2 py-0.5 rounded border ${
+              candidate === format
+                ? 'bg-primary-500 border-primary-500 text-white'
+                : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {COLOR_FORMAT_LABELS[candidate]}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-4">
+        {groups.map(group => (
+          <div key={group.label ?? 'all'}>
+            {group.label && (
+              <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                {group.label}
+              </p>
+            )}
+            <div className="grid grid-cols-3 gap-3">
+              {group.colors.map((color, index) => {
+                const formats = color.value ? getColorFormats(color.value) : null
+                const displayValue = formats?.[format] ?? color.value
+                return (
+                  <div key={index} className="group cursor-pointer" onClick={() => {
+                    if (displayValue) {
+                      onCopyToClipboard(displayValue)
+                    }
+                  }}>
+                    <div 
+                      className="w-full h-12 rounded-lg border-2 border-gray-200 group-hover:border-gray-300 transition-colors"
+                      style={{ backgroundColor: color.value }}
+                      title={`Click to copy ${displayValue}`}
+                    />
+                    <p className="text-xs text-gray-600 mt-1 text-center font-mono break-all">
+                      {displayValue}
+                    </p>
+                    {formats && (
+                      <p className="text-[10px] text-gray-500 text-center">
+                        {formats.isExactName ? formats.name : `≈ ${formats.name}`}
+                      </p>
+                    )}
+                    {color.tokens && color.tokens.length > 0 && (
+                      <p
+                        className="text-[10px] font-mono text-primary-600 text-center truncate"
+                        title={color.tokens.join(', ')}
+                      >
+                        {color.tokens[0]}
+                        {color.tokens.length > 1 && ` +${color.tokens.length - 1}`}
+                      </p>
+                    )}
+                    {color.usageCount !== undefined && (
+                      <p className="text-[10px] text-gray-400 text-center">
+                        Used {color.usageCount}×
+                      </p>
+                    )}
+                    {(color.neutral || color.variants) && (
+                      <p
+                        className="text-[10px] text-gray-400 text-center"
+                        title={color.variants ? `Merged similar colors: ${color.variants.join(', ')}` : undefined}
+                      >
+                        {[
+                          color.neutral && 'Neutral',
+                          color.variants && `+${color.variants.length} similar`
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                    <div className="text-center mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Copy className="w-3 h-3 text-gray-500 mx-auto" />
+                    </div>
+                  </div>
+                )
+              })}
             </div>
           </div>
         ))}
       </div>
-      {colors.length > 12 && (
+      {colors.length > MAX_VISIBLE_COLORS && (
         <p className="text-sm text-gray-500 mt-4 text-center">
-          +{colors.length - 12} more colors
+          +{colors.length - MAX_VISIBLE_COLORS} more colors
         </p>
       )}
+      {onExportPalette && (
+        <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t">
+          <span className="text-xs text-gray-500">Palette file:</span>
+          {PALETTE_FORMATS.map(paletteFormat => (
+            <button
+              key={paletteFormat.id}
+              onClick={() => onExportPalette(paletteFormat.id)}
+              className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 px-2 py-1 rounded flex items-center gap-1"
+              title={paletteFormat.description}
+            >
+              <FileDown className="w-3 h-3" />
+              {paletteFormat.label}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
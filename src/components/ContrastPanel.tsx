@@ -0,0 +1,149 @@
+import React, { useMemo } from 'react'
+import { Contrast, Check, X } from 'lucide-react'
+import type { BrandAsset } from '../utils/assetExtraction'
+import { analyzePaletteContrast, type ContrastResult } from '../utils/contrast'
+
+interface ContrastPanelProps {
+  colors: BrandAsset[]
+  onCopyToClipboard: (text: string) => void
+}
+
+const PassBadge: React.FC<{ label: string; pass: boolean }> = ({ label, pass }) => (
+  <span
+    className={`inline-flex items-center gap-0.5 text-[10px] font-medium px-1.5 py-0.5 rounded ${
+      pass ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-700'
+    }`}
+  >
+    {pass ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+    {label}
+  </span>
+)
+
+const describeResult = (result: ContrastResult) =>
+  [
+    `${result.foreground} on ${result.background}`,
+    `WCAG ${result.ratio}:1 (AA ${result.aa ? 'pass' : 'fail'}, AA large ${result.aaLarge ? 'pass' : 'fail'}, AAA ${result.aaa ? 'pass' : 'fail'})`,
+    `APCA Lc ${result.apca} (body ${result.apcaBody ? 'pass' : 'fail'}, large ${result.apcaLarge ? 'pass' : 'fail'})`
+  ].join('\n')
+
+export const ContrastPanel: React.FC<ContrastPanelProps> = ({
+  colors,
+  onCopyToClipboard
+}) => {
+  const report = useMemo(() => analyzePaletteContrast(colors), [colors])
+
+  if (report.colors.length < 2 && report.brandPairings.length === 0) return null
+
+  const failingCount = report.brandPairings.filter(pairing => !pairing.result.aa).length
+
+  return (
+    <div className="bg-white border rounded-lg p-6 mt-8 text-left">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Contrast className="w-5 h-5 text-primary-500" />
+          <h4 className="text-lg font-semibold text-gray-900">Contrast & Accessibility</h4>
+        </div>
+        {report.brandPairings.length > 0 && (
+          <span className={`text-xs font-medium ${failingCount > 0 ? 'text-red-600' : 'text-green-700'}`}>
+            {failingCount > 0 ? `${failingCount} failing brand pairing${failingCount === 1 ? '' : 's'}` : 'All brand pairings pass AA'}
+          </span>
+        )}
+      </div>
+
+      {report.brandPairings.length > 0 && (
+        <div className="space-y-2 mb-6">
+          {report.brandPairings.map((pairing, index) => {
+            const { result, suggestion } = pairing
+            return (
+              <div key={index} className="flex flex-wrap items-center gap-3 border rounded-lg p-3">
+                <div
+                  className="w-24 h-10 rounded border flex items-center justify-center text-sm font-semibold"
+                  style={{ color: result.foreground, backgroundColor: result.background }}
+                  title={describeResult(result)}
+                >
+                  Aa
+                </div>
+                <div className="flex-1 min-w-[8rem]">
+                  <p className="text-xs text-gray-700">
+                    <span className="font-semibold capitalize">{pairing.foregroundRole}</span>{' '}
+                    <span className="font-mono">{result.foreground}</span> on{' '}
+                    <span className="font-mono">{result.background}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {result.ratio}:1 · APCA Lc {Math.abs(result.apca)}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <PassBadge label="AA" pass={result.aa} />
+                  <PassBadge label="AA Large" pass={result.aaLarge} />
+                  <PassBadge label="AAA" pass={result.aaa} />
+                  <PassBadge label="APCA Body" pass={result.apcaBody} />
+                  <PassBadge label="APCA Large" pass={result.apcaLarge} />
+                </div>
+                {suggestion && (
+                  <button
+                    onClick={() => onCopyToClipboard(suggestion.value)}
+                    className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 px-2 py-1 rounded flex items-center gap-2"
+                    title={`Nearest ${suggestion.kind} reaching ${suggestion.ratio}:1 - click to copy`}
+                  >
+                    <span className="w-4 h-4 rounded border" style={{ backgroundColor: suggestion.value }} />
+                    Try <span className="font-mono">{suggestion.value}</span>
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {report.colors.length >= 2 && (
+        <details>
+          <summary className="text-sm font-medium text-gray-700 cursor-pointer mb-3">
+            Contrast matrix ({report.colors.length} × {report.colors.length})
+          </summary>
+          <div className="overflow-auto">
+            <table className="text-[11px] border-collapse">
+              <thead>
+                <tr>
+                  <th className="p-1 text-gray-500 font-normal text-left">Text ↓ / Background →</th>
+                  {report.colors.map(color => (
+                    <th key={color} className="p-1">
+                      <span className="block w-8 h-4 rounded border mx-auto" style={{ backgroundColor: color }} title={color} />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.matrix.map((row, rowIndex) => (
+                  <tr key={report.colors[rowIndex]}>
+                    <th className="p-1 text-left font-mono font-normal text-gray-600 whitespace-nowrap">
+                      <span className="inline-block w-3 h-3 rounded border mr-1 align-middle" style={{ backgroundColor: report.colors[rowIndex] }} />
+                      {report.colors[rowIndex]}
+                    </th>
+                    {row.map((result, columnIndex) => (
+                      <td
+                        key={columnIndex}
+                        className={`p-1 text-center font-mono ${
+                          rowIndex === columnIndex
+                            ? 'text-gray-300'
+                            : result.aa
+                              ? 'bg-green-50 text-green-800'
+                              : result.aaLarge
+                                ? 'bg-yellow-50 text-yellow-800'
+                                : 'text-gray-400'
+                        }`}
+                        title={describeResult(result)}
+                      >
+                        {rowIndex === columnIndex ? '–' : result.ratio.toFixed(1)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react'
+import { Code, Copy, FileDown } from 'lucide-react'
+import type { AssetExtractionResult } from '../utils/assetExtraction'
+import {
+  DESIGN_TOKEN_FORMATS,
+  generateDesignTokens,
+  getDesignTokenFilename,
+  type DesignTokenFormat
+} from '../utils/designTokens'
+
+interface DesignTokensExportProps {
+  result: AssetExtractionResult
+  onCopyToClipboard: (text: string) => void
+  onSaveFile: (blob: Blob, filename: string) => void
+}
+
+export const DesignTokensExport: React.FC<DesignTokensExportProps> = ({
+  result,
+  onCopyToClipboard,
+  onSaveFile
+}) => {
+  const [format, setFormat] = useState<DesignTokenFormat>('dtcg')
+  const output = useMemo(() => generateDesignTokens(result, format), [result, format])
+
+  const colorCount = result.assets?.colors.length ?? 0
+  const fontCount = result.assets?.fonts.length ?? 0
+  if (colorCount === 0 && fontCount === 0) return null
+
+  const formatInfo = DESIGN_TOKEN_FORMATS.find(candidate => candidate.id === format)!
+
+  return (
+    <div className="bg-white border rounded-lg p-6 mt-8 text-left">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Code className="w-5 h-5 text-primary-500" />
+          <h4 className="text-lg font-semibold text-gray-900">Design Tokens</h4>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onCopyToClipboard(output)}
+            className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1 rounded flex items-center gap-1"
+          >
+            <Copy className="w-3 h-3" />
+            Copy Tokens
+          </button>
+          <button
+            onClick={() => onSaveFile(
+              new Blob([output], { type: formatInfo.mimeType }),
+              getDesignTokenFilename(result, format)
+            )}
+            className="text-xs bg-primary-100 hover:bg-primary-200 text-primary-700 px-3 py-1 rounded flex items-center gap-1"
+          >
+            <FileDown className="w-3 h-3" />
+            Save File
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2 mb-3" role="tablist" aria-label="Token format">
+        {DESIGN_TOKEN_FORMATS.map(candidate => (
+          <button
+            key={candidate.id}
+            role="tab"
+            aria-selected={candidate.id === format}
+            onClick={() => setFormat(candidate.id)}
+            className={`text-xs px-3 py-1 rounded border ${
+              candidate.id === format
+                ? 'bg-primary-500 border-primary-500 text-white'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {candidate.label}
+          </button>
+        ))}
+      </div>
+      <pre
+        data-testid="design-tokens-preview"
+        className="bg-gray-900 text-gray-100 text-xs rounded-lg p-4 overflow-auto max-h-80"
+      >
+        <code>{output}</code>
+      </pre>
+    </div>
+  )
+}
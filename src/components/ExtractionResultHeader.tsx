@@ -5,11 +5,13 @@ import type { AssetExtractionResult } from '../utils/assetExtraction'
 interface ExtractionResultHeaderProps {
   result: AssetExtractionResult
   onDownloadAll: () => void
+  isDownloadingAll?: boolean
 }
 
 export const ExtractionResultHeader: React.FC<ExtractionResultHeaderProps> = ({
   result,
-  onDownloadAll
+  onDownloadAll,
+  isDownloadingAll = false
 }) => {
   if (!result.success) {
     return (
@@ -49,10 +51,11 @@ export const ExtractionResultHeader: React.FC<ExtractionResultHeaderProps> = ({
         </div>
         <button
           onClick={onDownloadAll}
-          className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+          disabled={isDownloadingAll}
+          className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
         >
           <Archive className="w-4 h-4" />
-          Download All
+          {isDownloadingAll ? 'Preparing ZIP...' : 'Download All'}
         </button>
       </div>
     </div>
@@ -1,23 +1,76 @@
 import React from 'react'
-import { Type, Copy, ExternalLink } from 'lucide-react'
+import { Type, Copy, ExternalLink, FileDown } from 'lucide-react'
+import type { FontFaceDefinition, FontLicense, FontProvider, TypeStyle, TypographyRole } from '../utils/assetExtraction'
+import { FONT_PROVIDER_LABELS } from '../utils/fontProviders'
+import {
+  generateTypographyCss,
+  getPrimaryFontFamily,
+  getTypeScaleName,
+  getTypeScaleRatio,
+  toPixels
+} from '../utils/typography'
 
 interface Font {
   name?: string
   url?: string
+  faces?: FontFaceDefinition[]
+  provider?: FontProvider
+  kitId?: string
+  license?: FontLicense
+  alternatives?: string[]
 }
 
 interface FontsSectionProps {
   fonts: Font[]
+  typography?: TypeStyle[]
   onCopyToClipboard: (text: string) => void
   onGenerateFontCSS: (fonts: Font[]) => string
+  onDownloadFontFile?: (url: string, filename: string) => void
+}
+
+const describeFace = (face: FontFaceDefinition) =>
+  face.style === 'normal' ? face.weight : `${face.weight} ${face.style}`
+
+const LICENSE_BADGES: Record<FontLicense, { label: string; className: string }> = {
+  open: { label: 'Open license', className: 'bg-green-100 text-green-800' },
+  commercial: { label: 'Commercial', className: 'bg-amber-100 text-amber-800' },
+  unknown: { label: 'License unknown', className: 'bg-gray-100 text-gray-600' }
+}
+
+const SPECIMEN_TEXT: Record<TypographyRole, string> = {
+  heading: 'The quick brown fox',
+  body: 'The quick brown fox jumps over the lazy dog',
+  ui: 'Get started',
+  code: 'const brand = extract(url)'
+}
+
+// Keeps display headings from overflowing the card
+const MAX_PREVIEW_SIZE_PX = 40
+
+const describeTypeStyle = (style: TypeStyle) => [
+  style.fontFamily && getPrimaryFontFamily(style.fontFamily),
+  style.fontSize && (style.lineHeight ? `${style.fontSize} / ${style.lineHeight}` : style.fontSize),
+  style.fontWeight,
+  style.letterSpacing && `${style.letterSpacing} tracking`
+].filter(Boolean).join(' · ')
+
+const getPreviewSize = (fontSize?: string) => {
+  if (!fontSize) return undefined
+  const pixels = toPixels(fontSize)
+  return pixels !== null && pixels > MAX_PREVIEW_SIZE_PX ? `${MAX_PREVIEW_SIZE_PX}px` : fontSize
 }
 
 export const FontsSection: React.FC<FontsSectionProps> = ({
   fonts,
+  typography = [],
   onCopyToClipboard,
-  onGenerateFontCSS
+  onGenerateFontCSS,
+  onDownloadFontFile
 }) => {
-  if (fonts.length === 0) return null
+  if (fonts.length === 0 && typography.length === 0) return null
+
+  const scaleRatio = getTypeScaleRatio(typography)
+  const scaleName = scaleRatio ? getTypeScaleName(scaleRatio) : undefined
 
   const hasGoogleFonts = fonts.some(font => 
     font.url && font.url.includes('fonts.googleapis.com')
@@ -60,6 +113,51 @@ export const FontsSection: React.FC<FontsSectionProps> = ({
           )}
         </div>
       </div>
+      {typography.length > 0 && (
+        <div className="border rounded-lg p-3 mb-3">
+          <div className="flex items-center justify-between mb-2">
+            <div>
+              <p className="text-sm font-semibold text-gray-900">Type scale</p>
+              {scaleRatio && (
+                <p className="text-xs text-gray-500">
+                  Ratio {scaleRatio}{scaleName ? ` · ${scaleName}` : ''}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={() => onCopyToClipboard(generateTypographyCss(typography))}
+              className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 px-2 py-1 rounded flex items-center gap-1"
+            >
+              <Copy className="w-3 h-3" />
+              Copy Type CSS
+            </button>
+          </div>
+          <div className="space-y-2">
+            {typography.map(style => (
+              <div key={style.element} className="flex items-baseline gap-3">
+                <span className="w-12 shrink-0 text-[10px] font-mono uppercase text-gray-400">
+                  {style.element}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p
+                    className="truncate text-gray-900"
+                    style={{
+                      fontFamily: style.fontFamily,
+                      fontSize: getPreviewSize(style.fontSize),
+                      fontWeight: style.fontWeight,
+                      lineHeight: style.lineHeight,
+                      letterSpacing: style.letterSpacing
+                    }}
+                  >
+                    {SPECIMEN_TEXT[style.role]}
+                  </p>
+                  <p className="text-[10px] text-gray-500 font-mono truncate">{describeTypeStyle(style)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
       <div className="space-y-3">
         {fonts.slice(0, 8).map((font, index) => (
           <div key={index} className="border rounded-lg p-3 hover:bg-gray-50">
@@ -89,11 +187,72 @@ export const FontsSection: React.FC<FontsSectionProps> = ({
                 )}
               </div>
             </div>
+            {(font.provider || font.license) && (
+              <div className="flex flex-wrap items-center gap-1 mt-1">
+                {font.provider && (
+                  <span className="text-[10px] bg-primary-50 text-primary-700 px-1.5 py-0.5 rounded">
+                    {FONT_PROVIDER_LABELS[font.provider]}
+                    {font.kitId && ` · Kit ${font.kitId}`}
+                  </span>
+                )}
+                {font.license && (
+                  <span className={`text-[10px] px-1.5 py-0.5 rounded ${LICENSE_BADGES[font.license].className}`}>
+                    {LICENSE_BADGES[font.license].label}
+                  </span>
+                )}
+              </div>
+            )}
+            {font.alternatives && font.alternatives.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                Free alternatives:{' '}
+                {font.alternatives.map((alternative, alternativeIndex) => (
+                  <React.Fragment key={alternative}>
+                    {alternativeIndex > 0 && ', '}
+                    <a
+                      href={`https://fonts.google.com/specimen/${alternative.replace(/ /g, '+')}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary-500 hover:text-primary-700 underline"
+                    >
+                      {alternative}
+                    </a>
+                  </React.Fragment>
+                ))}
+              </p>
+            )}
             {font.url && (
               <p className="text-xs text-gray-500 mt-1 font-mono truncate" title={font.url}>
                 {font.url}
               </p>
             )}
+            {font.faces && font.faces.length > 0 && (
+              <div className="mt-2">
+                <p className="text-xs text-gray-500 mb-1">
+                  Weights: {[...new Set(font.faces.map(face => face.weight))].join(', ')}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {font.faces.map((face, faceIndex) => {
+                    const file = face.sources[0]
+                    const label = `${describeFace(face)}${file.format ? ` · ${file.format.toUpperCase()}` : ''}`
+                    return (
+                      <button
+                        key={faceIndex}
+                        onClick={() => onDownloadFontFile?.(
+                          file.url,
+                          `${font.name || 'font'}-${face.weight.replace(/\s+/g, '-')}-${face.style}${file.format ? `.${file.format}` : ''}`
+                        )}
+                        disabled={!onDownloadFontFile}
+                        className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 px-2 py-1 rounded flex items-center gap-1 disabled:opacity-50"
+                        title={face.unicodeRange ? `${file.url}\nunicode-range: ${face.unicodeRange}` : file.url}
+                      >
+                        <FileDown className="w-3 h-3" />
+                        {label}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
           </div>
         ))}
       </div>
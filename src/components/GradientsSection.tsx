@@ -0,0 +1,92 @@
+import React from 'react'
+import { Blend, Copy } from 'lucide-react'
+import type { GradientDefinition } from '../utils/assetExtraction'
+
+const MAX_VISIBLE_GRADIENTS = 6
+
+interface Gradient {
+  value?: string
+  gradient?: GradientDefinition
+  usageCount?: number
+}
+
+interface GradientsSectionProps {
+  gradients: Gradient[]
+  onCopyToClipboard: (text: string) => void
+}
+
+const describeGradient = (gradient: GradientDefinition) => {
+  const kind = `${gradient.repeating ? 'Repeating ' : ''}${gradient.kind.charAt(0).toUpperCase()}${gradient.kind.slice(1)}`
+  const details = [
+    gradient.angle !== undefined && `${gradient.angle}°`,
+    gradient.shape,
+    `${gradient.stops.length} stops`
+  ].filter(Boolean)
+  return `${kind} · ${details.join(' · ')}`
+}
+
+export const GradientsSection: React.FC<GradientsSectionProps> = ({
+  gradients,
+  onCopyToClipboard
+}) => {
+  if (gradients.length === 0) return null
+
+  return (
+    <div className="bg-white border rounded-lg p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Blend className="w-5 h-5 text-primary-500" />
+        <h4 className="text-lg font-semibold text-gray-900">
+          Gradients ({gradients.length})
+        </h4>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {gradients.slice(0, MAX_VISIBLE_GRADIENTS).map((gradient, index) => (
+          <div key={index} className="border rounded-lg p-3 hover:bg-gray-50">
+            <div
+              className="w-full h-16 rounded border mb-2"
+              style={{ backgroundImage: gradient.value }}
+              title={gradient.value}
+            />
+            {gradient.gradient && (
+              <p className="text-xs text-gray-700 mb-1">{describeGradient(gradient.gradient)}</p>
+            )}
+            {gradient.gradient && (
+              <div className="flex flex-wrap gap-1 mb-2">
+                {gradient.gradient.stops.map((stop, stopIndex) => (
+                  <span
+                    key={stopIndex}
+                    className="inline-flex items-center gap-1 text-[10px] font-mono text-gray-600"
+                    title={stop.position ? `${stop.color} at ${stop.position}` : stop.color}
+                  >
+                    <span className="w-3 h-3 rounded-sm border" style={{ backgroundColor: stop.color }} />
+                    {stop.position ?? ''}
+                  </span>
+                ))}
+              </div>
+            )}
+            {gradient.usageCount !== undefined && (
+              <p className="text-[10px] text-gray-400 mb-2">Used {gradient.usageCount}×</p>
+            )}
+            <button
+              onClick={() => {
+                if (gradient.value) {
+                  onCopyToClipboard(`background-image: ${gradient.value};`)
+                }
+              }}
+              disabled={!gradient.value}
+              className="w-full text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 px-2 py-1 rounded flex items-center justify-center gap-1"
+            >
+              <Copy className="w-3 h-3" />
+              Copy CSS
+            </button>
+          </div>
+        ))}
+      </div>
+      {gradients.length > MAX_VISIBLE_GRADIENTS && (
+        <p className="text-sm text-gray-500 mt-4 text-center">
+          +{gradients.length - MAX_VISIBLE_GRADIENTS} more gradients
+        </p>
+      )}
+    </div>
+  )
+}
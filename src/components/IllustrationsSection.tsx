@@ -1,19 +1,90 @@
 import React from 'react'
 import { Sparkles, Download, ExternalLink } from 'lucide-react'
+import type { ImageMetadata } from '../utils/assetExtraction'
+import { getAssetFilename } from '../utils/assetBundle'
+import { getImageMetadataLabels } from '../utils/imageProbe'
+import { useImageMetadata, type ImageProbe } from './useImageMetadata'
 
 interface Illustration {
   url?: string
   alt?: string
+  image?: ImageMetadata
 }
 
 interface IllustrationsSectionProps {
   illustrations: Illustration[]
   onDownloadAsset: (url: string, filename: string) => void
+  /** Reads an illustration's format and size once its card is shown */
+  onProbeImage?: ImageProbe
+}
+
+interface IllustrationCardProps extends Omit<IllustrationsSectionProps, 'illustrations'> {
+  illustration: Illustration
+  index: number
+}
+
+const IllustrationCard: React.FC<IllustrationCardProps> = ({
+  illustration,
+  index,
+  onDownloadAsset,
+  onProbeImage
+}) => {
+  const { ref, image } = useImageMetadata<HTMLDivElement>(illustration, onProbeImage)
+
+  return (
+    <div ref={ref} className="border rounded-lg p-4 hover:bg-gray-50">
+      <img 
+        src={illustration.url} 
+        alt={illustration.alt || 'Illustration'} 
+        className="w-full h-20 object-cover rounded mb-2"
+        onError={(e) => {
+          const target = e.target as HTMLImageElement;
+          target.style.display = 'none';
+        }}
+      />
+      <p className="text-xs text-gray-600 truncate mb-2" title={illustration.url}>
+        {illustration.alt || 'Illustration'}
+      </p>
+      {image && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {getImageMetadataLabels(image).map(metadataLabel => (
+            <span key={metadataLabel} className="text-[10px] bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">
+              {metadataLabel}
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-1">
+        <button
+          onClick={() => {
+            if (illustration.url) {
+              onDownloadAsset(illustration.url, getAssetFilename(illustration.url, `${illustration.alt || 'illustration'}-${index + 1}`, undefined, image))
+            }
+          }}
+          disabled={!illustration.url}
+          className="flex-1 text-xs bg-primary-500 hover:bg-primary-600 disabled:bg-gray-400 text-white px-2 py-1 rounded flex items-center justify-center gap-1"
+        >
+          <Download className="w-3 h-3" />
+          Download
+        </button>
+        <a 
+          href={illustration.url} 
+          target="_blank" 
+          rel="noopener noreferrer"
+          className="flex-1 text-xs text-primary-500 hover:text-primary-700 border border-primary-500 hover:border-primary-700 px-2 py-1 rounded flex items-center justify-center gap-1"
+        >
+          <ExternalLink className="w-3 h-3" />
+          Open
+        </a>
+      </div>
+    </div>
+  )
 }
 
 export const IllustrationsSection: React.FC<IllustrationsSectionProps> = ({
   illustrations,
-  onDownloadAsset
+  onDownloadAsset,
+  onProbeImage
 }) => {
   if (illustrations.length === 0) return null
 
@@ -27,44 +98,13 @@ export const IllustrationsSection: React.FC<IllustrationsSectionProps> = ({
       </div>
       <div className="grid grid-cols-2 gap-4">
         {illustrations.slice(0, 6).map((illustration, index) => (
-          <div key={index} className="border rounded-lg p-4 hover:bg-gray-50">
-            <img 
-              src={illustration.url} 
-              alt={illustration.alt || 'Illustration'} 
-              className="w-full h-20 object-cover rounded mb-2"
-              onError={(e) => {
-                const target = e.target as HTMLImageElement;
-                target.style.display = 'none';
-              }}
-            />
-            <p className="text-xs text-gray-600 truncate mb-2" title={illustration.url}>
-              {illustration.alt || 'Illustration'}
-            </p>
-            <div className="flex gap-1">
-              <button
-                onClick={() => {
-                  if (illustration.url) {
-                    const extension = illustration.url.split('.').pop() || 'png'
-                    onDownloadAsset(illustration.url, `${illustration.alt || 'illustration'}-${index + 1}.${extension}`)
-                  }
-                }}
-                disabled={!illustration.url}
-                className="flex-1 text-xs bg-primary-500 hover:bg-primary-600 disabled:bg-gray-400 text-white px-2 py-1 rounded flex items-center justify-center gap-1"
-              >
-                <Download className="w-3 h-3" />
-                Download
-              </button>
-              <a 
-                href={illustration.url} 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="flex-1 text-xs text-primary-500 hover:text-primary-700 border border-primary-500 hover:border-primary-700 px-2 py-1 rounded flex items-center justify-center gap-1"
-              >
-                <ExternalLink className="w-3 h-3" />
-                Open
-              </a>
-            </div>
-          </div>
+          <IllustrationCard
+            key={index}
+            illustration={illustration}
+            index={index}
+            onDownloadAsset={onDownloadAsset}
+            onProbeImage={onProbeImage}
+          />
         ))}
       </div>
       {illustrations.length > 6 && (
@@ -2,7 +2,9 @@ import React, { useState } from 'react'
 import { validateUrl } from '../utils/urlValidation'
 import { extractAssets, type AssetExtractionResult } from '../utils/assetExtraction'
 import { mockExtractAssets, suggestedTestSites } from '../utils/mockAssetExtraction'
-import { downloadAsset, downloadAllAssets, copyToClipboard, generateFontCSSImports } from '../utils/downloadUtils'
+import { downloadAsset, downloadAllAssets, downloadRasterAsset, copyToClipboard, generateFontCSSImports, saveBlob } from '../utils/downloadUtils'
+import { createPaletteFile, getPaletteFilename, type PaletteFormat } from '../utils/paletteExport'
+import { probeImage } from '../utils/imageProbe'
 import { useAnalytics } from './analytics'
 
 import { HeroSection } from './HeroSection'
@@ -10,9 +12,12 @@ import { ExtractionForm } from './ExtractionForm'
 import { DemoSiteSuggestions } from './DemoSiteSuggestions'
 import { ExtractionResultHeader } from './ExtractionResultHeader'
 import { LogosSection } from './LogosSection'
-import { ColorsSection } from './ColorsSection'
+import { ColorsSection, type ColorScheme } from './ColorsSection'
+import { GradientsSection } from './GradientsSection'
 import { FontsSection } from './FontsSection'
 import { IllustrationsSection } from './IllustrationsSection'
+import { ContrastPanel } from './ContrastPanel'
+import { DesignTokensExport } from './DesignTokensExport'
 import { FeaturesGrid } from './FeaturesGrid'
 import { HowItWorksSection } from './HowItWorksSection'
 import { LegalDisclaimer } from './LegalDisclaimer'
@@ -23,6 +28,8 @@ export const LandingPage: React.FC = () => {
   const [isValidating, setIsValidating] = useState(false)
   const [isExtracting, setIsExtracting] = useState(false)
   const [extractionResult, setExtractionResult] = useState<AssetExtractionResult | null>(null)
+  const [isDownloadingAll, setIsDownloadingAll] = useState(false)
+  const [colorScheme, setColorScheme] = useState<ColorScheme>('light')
   
   const defaultDemoMode = import.meta.env.VITE_DEMO_MODE === 'true' || import.meta.env.VITE_DEMO_MODE === undefined
   const [isDemoMode, setIsDemoMode] = useState(defaultDemoMode)
@@ -37,6 +44,7 @@ export const LandingPage: React.FC = () => {
     setIsValidating(true)
     setValidationError(null)
     setExtractionResult(null)
+    setColorScheme('light')
     
     if (!url.trim()) {
       setValidationError('Please enter a URL')
@@ -122,9 +130,18 @@ export const LandingPage: React.FC = () => {
     trackAction('demo_mode_toggled', newMode ? 'enabled' : 'disabled');
   }
 
-  const handleDownloadAllAssets = () => {
+  const handleDownloadAllAssets = async () => {
     if (extractionResult) {
-      downloadAllAssets(extractionResult);
+      setIsDownloadingAll(true)
+      try {
+        await downloadAllAssets(extractionResult);
+      } catch (error) {
+        console.error('Bundle download failed:', error)
+        trackError('Failed to build asset bundle', 'DOWNLOAD_ERROR');
+        return
+      } finally {
+        setIsDownloadingAll(false)
+      }
       
       // Track the download of all assets
       const totalAssets = 
@@ -137,6 +154,20 @@ export const LandingPage: React.FC = () => {
     }
   }
 
+  const handleExportPalette = async (format: PaletteFormat) => {
+    if (!extractionResult?.assets) return
+
+    const paletteName = extractionResult.domain || 'brand'
+    try {
+      const blob = await createPaletteFile(extractionResult.assets.colors, format, paletteName)
+      saveBlob(blob, getPaletteFilename(paletteName, format))
+      trackAssetDownload(`palette-${format}`, extractionResult.assets.colors.length)
+    } catch (error) {
+      console.error('Palette export failed:', error)
+      trackError('Failed to export palette', 'DOWNLOAD_ERROR')
+    }
+  }
+
   return (
     <div data-testid="landing-page" className="min-h-screen bg-white px-4 py-8">
       <div className="max-w-4xl mx-auto text-center">
@@ -170,6 +201,7 @@ export const LandingPage: React.FC = () => {
             <ExtractionResultHeader
               result={extractionResult}
               onDownloadAll={handleDownloadAllAssets}
+              isDownloadingAll={isDownloadingAll}
             />
 
             {extractionResult.success && (
@@ -178,24 +210,54 @@ export const LandingPage: React.FC = () => {
                   <LogosSection
                     logos={extractionResult.assets!.logos}
                     onDownloadAsset={downloadAsset}
+                    onConvertAsset={downloadRasterAsset}
+                    onProbeImage={isDemoMode ? undefined : probeImage}
                   />
 
-                  <ColorsSection
-                    colors={extractionResult.assets!.colors}
+                  {(extractionResult.assets!.colors.length > 0 || !!extractionResult.assets!.darkColors?.length) && (
+                    <div>
+                      <ColorsSection
+                        colors={extractionResult.assets!.colors}
+                        darkColors={extractionResult.assets!.darkColors}
+                        scheme={colorScheme}
+                        onSchemeChange={setColorScheme}
+                        onCopyToClipboard={copyToClipboard}
+                        onExportPalette={handleExportPalette}
+                      />
+                      <ContrastPanel
+                        colors={colorScheme === 'dark' && extractionResult.assets!.darkColors?.length
+                          ? extractionResult.assets!.darkColors
+                          : extractionResult.assets!.colors}
+                        onCopyToClipboard={copyToClipboard}
+                      />
+                    </div>
+                  )}
+
+                  <GradientsSection
+                    gradients={extractionResult.assets!.gradients ?? []}
                     onCopyToClipboard={copyToClipboard}
                   />
 
                   <FontsSection
                     fonts={extractionResult.assets!.fonts}
+                    typography={extractionResult.assets!.typography}
                     onCopyToClipboard={copyToClipboard}
                     onGenerateFontCSS={generateFontCSSImports}
+                    onDownloadFontFile={downloadAsset}
                   />
 
                   <IllustrationsSection
                     illustrations={extractionResult.assets!.illustrations}
                     onDownloadAsset={downloadAsset}
+                    onProbeImage={isDemoMode ? undefined : probeImage}
                   />
                 </div>
+
+                <DesignTokensExport
+                  result={extractionResult}
+                  onCopyToClipboard={copyToClipboard}
+                  onSaveFile={saveBlob}
+                />
               </div>
             )}
           </div>
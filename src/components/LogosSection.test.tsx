@@ -0,0 +1,21 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { LogosSection } from './LogosSection'
+
+describe('LogosSection', () => {
+  it('should tell the user when a logo could not be converted', async () => {
+    const onConvertAsset = vi.fn().mockRejectedValue(new Error('The image could not be decoded'))
+
+    render(
+      <LogosSection
+        logos={[{ url: 'https://example.com/favicon.ico', alt: 'Favicon' }]}
+        onDownloadAsset={vi.fn()}
+        onConvertAsset={onConvertAsset}
+      />
+    )
+    fireEvent.click(screen.getByRole('button', { name: /export png/i }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Export failed: The image could not be decoded')
+    expect(onConvertAsset).toHaveBeenCalledWith('https://example.com/favicon.ico', 'Favicon-1', { size: 512, format: 'png' })
+  })
+})
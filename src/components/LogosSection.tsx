@@ -1,22 +1,225 @@
-import React from 'react'
-import { Image, Download, ExternalLink } from 'lucide-react'
+import React, { useState } from 'react'
+import { Image, Download, ExternalLink, Star, ImageDown } from 'lucide-react'
+import type { ImageMetadata, LogoSignal } from '../utils/assetExtraction'
+import { getAssetFilename } from '../utils/assetBundle'
+import { getImageMetadataLabels } from '../utils/imageProbe'
+import { RASTER_SIZES, type RasterFormat, type RasterOptions } from '../utils/rasterize'
+import { useImageMetadata, type ImageProbe } from './useImageMetadata'
 
 interface Logo {
   url?: string
   alt?: string
+  confidence?: number
+  signals?: LogoSignal[]
+  image?: ImageMetadata
+}
+
+const SIGNAL_LABELS: Record<LogoSignal, string> = {
+  'structured-data': 'Declared in structured data',
+  'manifest': 'Web app manifest icon',
+  'home-link': 'Links to the home page',
+  'header': 'In the site header',
+  'nav': 'In the navigation',
+  'logo-keyword': 'Named like a logo',
+  'alt-matches-site': 'Alt text matches the site name',
+  'svg': 'Vector (SVG)',
+  'size-hint': 'Declared size',
+  'large': 'High resolution',
+  'favicon': 'Favicon',
+  'icon-keyword': 'Named like an icon',
+  'tiny': 'Very small'
 }
 
 interface LogosSectionProps {
   logos: Logo[]
   onDownloadAsset: (url: string, filename: string) => void
+  onConvertAsset?: (url: string, fallbackName: string, options: RasterOptions) => Promise<void>
+  /** Reads a logo's format and size once its card is shown */
+  onProbeImage?: ImageProbe
+}
+
+interface LogoCardProps extends Omit<LogosSectionProps, 'logos'> {
+  logo: Logo
+  index: number
+  isPrimary: boolean
+}
+
+interface RasterExportProps {
+  logo: Logo
+  fallbackName: string
+  onConvertAsset: (url: string, fallbackName: string, options: RasterOptions) => Promise<void>
+}
+
+const RASTER_FORMATS: { id: RasterFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'webp', label: 'WebP' }
+]
+
+// Size picker for exporting a logo as PNG or WebP with a transparent background
+const RasterExport: React.FC<RasterExportProps> = ({ logo, fallbackName, onConvertAsset }) => {
+  const [size, setSize] = useState(512)
+  const [format, setFormat] = useState<RasterFormat>('png')
+  const [isConverting, setIsConverting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Raster logos get blurry when scaled past their own size; vectors scale freely
+  const isRaster = logo.image && logo.image.mimeType !== 'image/svg+xml'
+  const nativeSize = isRaster ? Math.max(logo.image!.width ?? 0, logo.image!.height ?? 0) : 0
+  const formatLabel = RASTER_FORMATS.find(candidate => candidate.id === format)!.label
+
+  const handleExport = async () => {
+    if (!logo.url) return
+
+    setIsConverting(true)
+    setError(null)
+    try {
+      await onConvertAsset(logo.url, fallbackName, { size, format })
+    } catch (conversionError) {
+      setError(conversionError instanceof Error ? conversionError.message : 'Unknown error')
+    } finally {
+      setIsConverting(false)
+    }
+  }
+
+  return (
+    <div className="mt-1">
+      <div className="flex gap-1">
+        <select
+          value={size}
+          onChange={(e) => setSize(Number(e.target.value))}
+          aria-label="Export size"
+          className="text-xs border rounded px-1 py-1 bg-white text-gray-700"
+        >
+          {RASTER_SIZES.map(candidate => (
+            <option key={candidate} value={candidate}>
+              {candidate}px{nativeSize && candidate > nativeSize ? ' (upscaled)' : ''}
+            </option>
+          ))}
+        </select>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as RasterFormat)}
+          aria-label="Export format"
+          className="text-xs border rounded px-1 py-1 bg-white text-gray-700"
+        >
+          {RASTER_FORMATS.map(candidate => (
+            <option key={candidate.id} value={candidate.id}>{candidate.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={!logo.url || isConverting}
+          className="flex-1 text-xs bg-gray-100 hover:bg-gray-200 disabled:text-gray-400 text-gray-700 px-2 py-1 rounded flex items-center justify-center gap-1"
+        >
+          <ImageDown className="w-3 h-3" />
+          Export {formatLabel}
+        </button>
+      </div>
+      {error && (
+        <p className="mt-1 text-xs text-red-600" role="alert">
+          Export failed: {error}. Use Download to save the original file.
+        </p>
+      )}
+    </div>
+  )
+}
+
+const LogoCard: React.FC<LogoCardProps> = ({
+  logo,
+  index,
+  isPrimary,
+  onDownloadAsset,
+  onConvertAsset,
+  onProbeImage
+}) => {
+  const { ref, image } = useImageMetadata<HTMLDivElement>(logo, onProbeImage)
+
+  return (
+    <div
+      ref={ref}
+      className={`border rounded-lg p-4 hover:bg-gray-50 ${isPrimary ? 'border-primary-500' : ''}`}
+    >
+      {isPrimary && (
+        <span className="inline-flex items-center gap-1 text-xs font-medium bg-primary-100 text-primary-700 px-2 py-0.5 rounded mb-2">
+          <Star className="w-3 h-3" />
+          Primary logo
+        </span>
+      )}
+      <img 
+        src={logo.url} 
+        alt={logo.alt || 'Logo'} 
+        className="w-full h-16 object-contain mb-2"
+        onError={(e) => {
+          const target = e.target as HTMLImageElement;
+          target.style.display = 'none';
+        }}
+      />
+      <p className="text-xs text-gray-600 truncate mb-2" title={logo.url}>
+        {logo.alt || 'Logo'}
+      </p>
+      {image && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {getImageMetadataLabels(image).map(metadataLabel => (
+            <span key={metadataLabel} className="text-[10px] bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">
+              {metadataLabel}
+            </span>
+          ))}
+        </div>
+      )}
+      {logo.confidence !== undefined && (
+        <p
+          className="text-xs text-gray-500 mb-2"
+          title={logo.signals?.map(signal => SIGNAL_LABELS[signal]).join('\n')}
+        >
+          {Math.round(logo.confidence * 100)}% confidence
+        </p>
+      )}
+      <div className="flex gap-1">
+        <button
+          onClick={() => {
+            if (logo.url) {
+              onDownloadAsset(logo.url, getAssetFilename(logo.url, `${logo.alt || 'logo'}-${index + 1}`, undefined, image))
+            }
+          }}
+          disabled={!logo.url}
+          className="flex-1 text-xs bg-primary-500 hover:bg-primary-600 disabled:bg-gray-400 text-white px-2 py-1 rounded flex items-center justify-center gap-1"
+        >
+          <Download className="w-3 h-3" />
+          Download
+        </button>
+        <a 
+          href={logo.url} 
+          target="_blank" 
+          rel="noopener noreferrer"
+          className="flex-1 text-xs text-primary-500 hover:text-primary-700 border border-primary-500 hover:border-primary-700 px-2 py-1 rounded flex items-center justify-center gap-1"
+        >
+          <ExternalLink className="w-3 h-3" />
+          Open
+        </a>
+      </div>
+      {onConvertAsset && (
+        <RasterExport
+          logo={{ ...logo, image }}
+          fallbackName={`${logo.alt || 'logo'}-${index + 1}`}
+          onConvertAsset={onConvertAsset}
+        />
+      )}
+    </div>
+  )
 }
 
 export const LogosSection: React.FC<LogosSectionProps> = ({
   logos,
-  onDownloadAsset
+  onDownloadAsset,
+  onConvertAsset,
+  onProbeImage
 }) => {
   if (logos.length === 0) return null
 
+  // Highest confidence first; logos without a score keep their page order
+  const rankedLogos = [...logos].sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))
+  const primaryLogo = rankedLogos[0].confidence ? rankedLogos[0] : undefined
+
   return (
     <div className="bg-white border rounded-lg p-6">
       <div className="flex items-center gap-3 mb-4">
@@ -26,45 +229,16 @@ export const LogosSection: React.FC<LogosSectionProps> = ({
         </h4>
       </div>
       <div className="grid grid-cols-2 gap-4">
-        {logos.map((logo, index) => (
-          <div key={index} className="border rounded-lg p-4 hover:bg-gray-50">
-            <img 
-              src={logo.url} 
-              alt={logo.alt || 'Logo'} 
-              className="w-full h-16 object-contain mb-2"
-              onError={(e) => {
-                const target = e.target as HTMLImageElement;
-                target.style.display = 'none';
-              }}
-            />
-            <p className="text-xs text-gray-600 truncate mb-2" title={logo.url}>
-              {logo.alt || 'Logo'}
-            </p>
-            <div className="flex gap-1">
-              <button
-                onClick={() => {
-                  if (logo.url) {
-                    const extension = logo.url.split('.').pop() || 'png'
-                    onDownloadAsset(logo.url, `${logo.alt || 'logo'}-${index + 1}.${extension}`)
-                  }
-                }}
-                disabled={!logo.url}
-                className="flex-1 text-xs bg-primary-500 hover:bg-primary-600 disabled:bg-gray-400 text-white px-2 py-1 rounded flex items-center justify-center gap-1"
-              >
-                <Download className="w-3 h-3" />
-                Download
-              </button>
-              <a 
-                href={logo.url} 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="flex-1 text-xs text-primary-500 hover:text-primary-700 border border-primary-500 hover:border-primary-700 px-2 py-1 rounded flex items-center justify-center gap-1"
-              >
-                <ExternalLink className="w-3 h-3" />
-                Open
-              </a>
-            </div>
-          </div>
+        {rankedLogos.map((logo, index) => (
+          <LogoCard
+            key={index}
+            logo={logo}
+            index={index}
+            isPrimary={logo === primaryLogo}
+            onDownloadAsset={onDownloadAsset}
+            onConvertAsset={onConvertAsset}
+            onProbeImage={onProbeImage}
+          />
         ))}
       </div>
     </div>
@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ImageMetadata } from '../utils/assetExtraction'
+
+export type ImageProbe = (url: string) => Promise<ImageMetadata | null>
+
+/**
+ * Metadata of an asset's image, probed once its card scrolls into view
+ * Assets that already carry metadata are not probed again.
+ *
+ * @param probe Reads the image; without it, only the asset's own metadata is returned
+ */
+export function useImageMetadata<T extends HTMLElement>(asset: { url?: string; image?: ImageMetadata }, probe?: ImageProbe) {
+  const ref = useRef<T>(null)
+  const [probed, setProbed] = useState<{ url: string; image: ImageMetadata } | null>(null)
+  const { url, image } = asset
+
+  useEffect(() => {
+    if (image || !url || !probe) return
+
+    let cancelled = false
+    const start = () => {
+      probe(url).then(result => {
+        if (!cancelled && result) setProbed({ url, image: result })
+      })
+    }
+
+    const element = ref.current
+    if (!element || typeof IntersectionObserver === 'undefined') {
+      start()
+      return () => { cancelled = true }
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        observer.disconnect()
+        start()
+      }
+    }, { rootMargin: '200px' })
+    observer.observe(element)
+
+    return () => {
+      cancelled = true
+      observer.disconnect()
+    }
+  }, [url, image, probe])
+
+  return { ref, image: image ?? (probed?.url === url ? probed?.image : undefined) }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createAssetArchive, getAssetFilename, sanitizeDownloadedFile } from './assetBundle'
+import type { AssetExtractionResult } from './assetExtraction'
+
+// Mock fetch for testing
+const mockFetch = vi.fn()
+globalThis.fetch = mockFetch
+
+const createResponse = (body: string, contentType: string, ok = true, status = 200) => ({
+  ok,
+  status,
+  headers: new Headers({ 'content-type': contentType }),
+  arrayBuffer: () => Promise.resolve(new TextEncoder().encode(body).buffer)
+})
+
+const extractionResult: AssetExtractionResult = {
+  success: true,
+  url: 'https://example.com',
+  domain: 'example.com',
+  extractedAt: '2024-01-01T00:00:00Z',
+  error: null,
+  assets: {
+    logos: [
+      { type: 'logo', url: 'https://example.com/logo.svg', alt: 'Logo' },
+      { type: 'logo', url: 'https://cdn.example.com/assets/logo.svg?v=2', alt: 'Logo copy' }
+    ],
+    colors: [
+      { type: 'color', value: '#635bff', source: 'css' }
+    ],
+    fonts: [
+      { type: 'font', name: 'Inter', url: 'https://example.com/fonts/inter.woff2', source: 'css' },
+      { type: 'font', name: 'Custom Sans', source: 'css' }
+    ],
+    illustrations: [
+      { type: 'illustration', url: 'https://example.com/missing.png', alt: 'Missing' }
+    ]
+  }
+}
+
+describe('Asset Bundle', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  describe('getAssetFilename', () => {
+    it('should prefer the extension implied by the content type', () => {
+      expect(getAssetFilename('https://cdn.example.com/image?id=42', 'logo-1', 'image/png')).toBe('image.png')
+      expect(getAssetFilename('https://example.com/logo.svg?v=3', 'logo-1', 'image/svg+xml; charset=utf-8')).toBe('logo.svg')
+    })
+
+    it('should fall back to the URL extension and provided name', () => {
+      expect(getAssetFilename('https://example.com/', 'Hero Image', undefined)).toBe('hero-image.bin')
+      expect(getAssetFilename('https://example.com/fonts/Inter.woff2', 'Inter')).toBe('inter.woff2')
+      expect(getAssetFilename('data:image/svg+xml;base64,PHN2Zy8+', 'logo-3')).toBe('logo-3.svg')
+    })
+
+    it('should use the probed format and pixel size of an image', () => {
+      const image = { mimeType: 'image/webp', extension: 'webp', width: 512, height: 256 }
+      expect(getAssetFilename('https://cdn.example.com/assets/brand.png?w=512', 'logo-1', 'image/png', image)).toBe('brand-512x256.webp')
+      expect(getAssetFilename('https://cdn.example.com/i/8f3a', 'logo-1', undefined, { mimeType: 'image/svg+xml', extension: 'svg' })).toBe('8f3a.svg')
+    })
+  })
+
+  describe('sanitizeDownloadedFile', () => {
+    it('should recognize SVGs from their bytes and refuse those with nothing safe to draw', () => {
+      const encode = (text: string) => new TextEncoder().encode(text)
+      const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+      expect(sanitizeDownloadedFile(encode('<svg><script>alert(1)</script></svg>'), 'application/octet-stream')).toBeNull()
+      expect(sanitizeDownloadedFile(encode('<svg onload="alert(1)"><path d="M0 0h1"/></svg>'), 'text/plain'))
+        .toBe('<svg xmlns="http://www.w3.org/2000/svg"><path d="M0 0h1"/></svg>')
+      expect(sanitizeDownloadedFile(png, 'image/png')).toBe(png)
+    })
+  })
+
+  describe('createAssetArchive', () => {
+    it('should package assets into a structured archive', async () => {
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url.includes('missing.png')) {
+          return createResponse('Not found', 'application/json', false, 404)
+        }
+        if (url.includes('woff2')) {
+          return createResponse('wOF2', 'font/woff2')
+        }
+        return createResponse('<svg><path d="M0 0h1v1z"/></svg>', 'image/svg+xml')
+      })
+
+      const { zip, failures } = await createAssetArchive(extractionResult)
+
+      expect(zip.file('logos/logo.svg')).not.toBeNull()
+      expect(zip.file('logos/logo-2.svg')).not.toBeNull()
+      expect(zip.file('fonts/inter.woff2')).not.toBeNull()
+      expect(zip.file('illustrations/missing.png')).toBeNull()
+
+      const palette = JSON.parse(await zip.file('colors/palette.json')!.async('string'))
+      expect(palette.colors).toHaveLength(1)
+      expect(palette.colors[0].value).toBe('#635bff')
+
+      expect(failures).toHaveLength(1)
+      expect(failures[0].url).toBe('https://example.com/missing.png')
+
+      const readme = await zip.file('README.txt')!.async('string')
+      expect(readme).toContain('FAILED DOWNLOADS (1)')
+      expect(readme).toContain('Request failed with status 404')
+      expect(readme).toContain('logos/               2 logo(s)')
+      expect(readme).toContain('illustrations/       0 illustration(s)')
+      expect(readme).toContain('fonts/               1 font file(s)')
+      expect(readme).toContain('Custom Sans')
+    })
+
+    it('should record network errors without aborting the bundle', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'))
+
+      const { zip, failures } = await createAssetArchive(extractionResult)
+
+      expect(failures).toHaveLength(4)
+      expect(zip.file('README.txt')).not.toBeNull()
+      expect(zip.file('colors/palette.json')).not.toBeNull()
+    })
+
+    it('should include the preferred file of every @font-face rule', async () => {
+      mockFetch.mockImplementation(async () => createResponse('wOF2', 'font/woff2'))
+
+      const { zip, failures } = await createAssetArchive({
+        ...extractionResult,
+        assets: {
+          logos: [],
+          colors: [],
+          illustrations: [],
+          fonts: [{
+            type: 'font',
+            name: 'Brand Sans',
+            source: 'css',
+            faces: [
+              {
+                weight: '400',
+                style: 'normal',
+                sources: [
+                  { url: 'https://example.com/fonts/brand-regular.woff2', format: 'woff2' },
+                  { url: 'https://example.com/fonts/brand-regular.woff', format: 'woff' }
+                ]
+              },
+              { weight: '700', style: 'italic', sources: [{ url: 'https://example.com/fonts/brand-bold-italic.woff2' }] }
+            ]
+          }]
+        }
+      })
+
+      expect(failures).toHaveLength(0)
+      expect(zip.file('fonts/brand-regular.woff2')).not.toBeNull()
+      expect(zip.file('fonts/brand-bold-italic.woff2')).not.toBeNull()
+      expect(zip.file('fonts/brand-regular.woff')).toBeNull()
+
+      const readme = await zip.file('README.txt')!.async('string')
+      expect(readme).not.toContain('FONTS REFERENCED WITHOUT A FILE')
+    })
+
+    it('should leave out SVGs with nothing safe to draw, whatever their content type', async () => {
+      mockFetch.mockImplementation(async () => createResponse('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>', 'text/plain'))
+
+      const { zip, failures } = await createAssetArchive({
+        ...extractionResult,
+        assets: { ...extractionResult.assets!, fonts: [], illustrations: [] }
+      })
+
+      expect(zip.file(/^logos\//)).toHaveLength(0)
+      expect(failures.map(failure => failure.error)).toEqual(['SVG has nothing safe to draw', 'SVG has nothing safe to draw'])
+    })
+  })
+})
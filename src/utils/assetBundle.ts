@@ -0,0 +1,323 @@
+/**
+ * ZIP bundle builder for the "Download All" action
+ * Fetches every logo, illustration and font file through the proxy and packages
+ * them into a structured archive alongside the palette and a README
+ */
+import JSZip from 'jszip';
+import type { AssetExtractionResult, BrandAsset, ImageMetadata } from './assetExtraction';
+import { getProxyUrl } from './proxyUtils';
+import { runWithConcurrency } from './concurrency';
+import { sanitizeSvg } from './svgSanitizer';
+import { sniffImage } from './imageProbe';
+
+/**
+ * Maximum number of asset downloads running at the same time
+ */
+const MAX_CONCURRENT_DOWNLOADS = 4;
+
+/**
+ * File extensions for the content types we expect to receive from the proxy
+ */
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/svg+xml': 'svg',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+  'image/bmp': 'bmp',
+  'font/woff2': 'woff2',
+  'font/woff': 'woff',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'application/font-woff2': 'woff2',
+  'application/font-woff': 'woff',
+  'application/x-font-woff': 'woff',
+  'application/x-font-ttf': 'ttf',
+  'application/vnd.ms-fontobject': 'eot',
+  'text/css': 'css'
+};
+
+/**
+ * A single asset that could not be added to the archive
+ */
+export interface BundleFailure {
+  path: string
+  url: string
+  error: string
+}
+
+/**
+ * Archive contents plus a report of what went wrong while building it
+ */
+export interface AssetArchive {
+  zip: JSZip
+  failures: BundleFailure[]
+}
+
+type BundleFolder = 'logos' | 'illustrations' | 'fonts'
+
+interface BundleEntry {
+  folder: BundleFolder
+  url: string
+  fallbackName: string
+  image?: ImageMetadata
+}
+
+/**
+ * Build the ZIP archive for an extraction result
+ * Individual download failures are recorded in the README instead of aborting the bundle
+ *
+ * @param extractionResult The extraction result to bundle
+ * @returns The archive together with the list of files that could not be fetched
+ */
+export async function createAssetArchive(extractionResult: AssetExtractionResult): Promise<AssetArchive> {
+  const zip = new JSZip();
+  const failures: BundleFailure[] = [];
+  const writtenCounts: Record<BundleFolder, number> = { logos: 0, illustrations: 0, fonts: 0 };
+
+  const { logos, colors, darkColors, gradients, fonts, illustrations } = extractionResult.assets ?? {
+    logos: [],
+    colors: [],
+    fonts: [],
+    illustrations: []
+  };
+
+  const entries: BundleEntry[] = [
+    ...logos
+      .filter(asset => asset.url)
+      .map((asset, index) => ({ folder: 'logos' as const, url: asset.url!, fallbackName: `logo-${index + 1}`, image: asset.image })),
+    ...illustrations
+      .filter(asset => asset.url)
+      .map((asset, index) => ({ folder: 'illustrations' as const, url: asset.url!, fallbackName: `illustration-${index + 1}`, image: asset.image })),
+    ...fonts.flatMap(getFontEntries)
+  ];
+
+  const usedPaths = new Set<string>();
+
+  await runWithConcurrency(entries, MAX_CONCURRENT_DOWNLOADS, async entry => {
+    const { url } = entry;
+
+    try {
+      const { data, contentType } = await fetchAssetData(url);
+      // Images are probed lazily in the UI, so most arrive here without metadata
+      const image = entry.image ?? sniffImage(typeof data === 'string' ? new TextEncoder().encode(data) : data) ?? undefined;
+      const path = reservePath(usedPaths, entry.folder, getAssetFilename(url, entry.fallbackName, contentType, image));
+      zip.file(path, data);
+      writtenCounts[entry.folder]++;
+    } catch (error) {
+      failures.push({
+        path: `${entry.folder}/${getAssetFilename(url, entry.fallbackName, undefined, entry.image)}`,
+        url,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  zip.file('colors/palette.json', JSON.stringify({
+    domain: extractionResult.domain,
+    extractedAt: extractionResult.extractedAt,
+    colors,
+    ...(darkColors?.length ? { darkColors } : {}),
+    ...(gradients?.length ? { gradients } : {})
+  }, null, 2));
+
+  zip.file('README.txt', generateBundleReadme(extractionResult, fonts, writtenCounts, failures));
+
+  return { zip, failures };
+}
+
+/**
+ * Bundle entries for a font: the stylesheet or file it links to, plus the preferred
+ * file of every @font-face rule
+ */
+function getFontEntries(font: BrandAsset, index: number): BundleEntry[] {
+  const family = font.name || `font-${index + 1}`;
+  const entries: BundleEntry[] = [];
+
+  if (font.url) {
+    entries.push({ folder: 'fonts', url: font.url, fallbackName: family });
+  }
+
+  font.faces?.forEach(face => {
+    const file = face.sources[0];
+    if (file && file.url !== font.url) {
+      entries.push({
+        folder: 'fonts',
+        url: file.url,
+        fallbackName: `${family}-${face.weight.replace(/\s+/g, '-')}-${face.style}`
+      });
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Fetch the raw bytes of an asset, going through the proxy for remote URLs
+ * SVG files, recognized from their bytes, are sanitized before they go into the archive;
+ * those with nothing safe to draw are reported as failures instead of being added as received.
+ */
+async function fetchAssetData(url: string): Promise<{ data: Uint8Array | string; contentType: string }> {
+  // Inline assets (e.g. inline SVG logos) are already embedded in a data URL
+  const requestUrl = url.startsWith('data:') ? url : getProxyUrl(url);
+
+  const response = await fetch(requestUrl, {
+    headers: url.startsWith('data:') ? undefined : { 'X-Purpose': 'asset-download' }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  const data = sanitizeDownloadedFile(new Uint8Array(await response.arrayBuffer()), contentType);
+  if (data === null) {
+    throw new Error('SVG has nothing safe to draw');
+  }
+
+  return { data, contentType };
+}
+
+/**
+ * Make a downloaded file safe to save: SVGs, recognized from their bytes or their content type,
+ * are sanitized and every other file is returned unchanged
+ *
+ * @returns The sanitized SVG markup, the original bytes for other files, or null for an SVG
+ * with nothing left to draw, which must not be saved as it was received
+ */
+export function sanitizeDownloadedFile(bytes: Uint8Array, contentType = ''): string | Uint8Array | null {
+  const isSvg = sniffImage(bytes)?.mimeType === 'image/svg+xml' || contentType.toLowerCase().includes('image/svg+xml');
+  return isSvg ? sanitizeSvg(new TextDecoder().decode(bytes)) : bytes;
+}
+
+/**
+ * Derive a safe filename for an asset from its URL and content type
+ *
+ * @param url The asset URL
+ * @param fallbackName Name to use when the URL has no usable file name
+ * @param contentType Optional content type reported by the server
+ * @param image Probed metadata of an image; its sniffed format wins over the content type,
+ * and its pixel size is appended to the name (e.g. `logo-512x512.png`)
+ * @returns A filename with an extension
+ */
+export function getAssetFilename(url: string, fallbackName: string, contentType?: string, image?: ImageMetadata): string {
+  let baseName = '';
+  let urlExtension = '';
+
+  if (url.startsWith('data:')) {
+    const mimeMatch = url.match(/^data:([^;,]+)/i);
+    contentType = contentType || mimeMatch?.[1];
+  } else {
+    try {
+      const lastSegment = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+      const dotIndex = lastSegment.lastIndexOf('.');
+      if (dotIndex > 0) {
+        baseName = lastSegment.slice(0, dotIndex);
+        urlExtension = lastSegment.slice(dotIndex + 1).toLowerCase();
+      } else {
+        baseName = lastSegment;
+      }
+    } catch {
+      // Fall back to the provided name for malformed URLs
+    }
+  }
+
+  const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+  const extension = image?.extension
+    || CONTENT_TYPE_EXTENSIONS[mimeType]
+    || (/^[a-z0-9]{2,5}$/.test(urlExtension) ? urlExtension : 'bin');
+
+  const safeBaseName = sanitizeFileSegment(baseName) || sanitizeFileSegment(fallbackName) || 'asset';
+  const size = image?.width && image.height ? `-${image.width}x${image.height}` : '';
+
+  return `${safeBaseName}${size}.${extension}`;
+}
+
+function sanitizeFileSegment(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+/**
+ * Claim a unique path inside a folder, suffixing duplicates with a counter
+ */
+function reservePath(usedPaths: Set<string>, folder: string, filename: string): string {
+  const dotIndex = filename.lastIndexOf('.');
+  const name = filename.slice(0, dotIndex);
+  const extension = filename.slice(dotIndex);
+
+  let path = `${folder}/${filename}`;
+  let counter = 2;
+  while (usedPaths.has(path)) {
+    path = `${folder}/${name}-${counter}${extension}`;
+    counter++;
+  }
+
+  usedPaths.add(path);
+  return path;
+}
+
+/**
+ * Generate the README that describes the archive contents
+ *
+ * @param writtenCounts Files actually added to each folder, not counting failed downloads
+ */
+function generateBundleReadme(
+  extractionResult: AssetExtractionResult,
+  fonts: BrandAsset[],
+  writtenCounts: Record<BundleFolder, number>,
+  failures: BundleFailure[]
+): string {
+  const domain = extractionResult.domain || 'unknown site';
+  const assets = extractionResult.assets;
+
+  let readme = `Brand Assets from ${domain}\n`;
+  readme += `Source: ${extractionResult.url}\n`;
+  readme += `Extracted on ${extractionResult.extractedAt}\n\n`;
+
+  const brand = assets?.brand;
+  if (brand && (brand.name || brand.legalName || brand.socialProfiles?.length)) {
+    readme += `BRAND:\n`;
+    if (brand.name) readme += `  Name:        ${brand.name}\n`;
+    if (brand.legalName) readme += `  Legal name:  ${brand.legalName}\n`;
+    brand.socialProfiles?.forEach(profile => {
+      readme += `  Profile:     ${profile}\n`;
+    });
+    readme += '\n';
+  }
+
+  readme += `CONTENTS:\n`;
+  readme += `  logos/               ${writtenCounts.logos} logo(s)\n`;
+  readme += `  illustrations/       ${writtenCounts.illustrations} illustration(s)\n`;
+  readme += `  fonts/               ${writtenCounts.fonts} font file(s) and stylesheet(s)\n`;
+  readme += `  colors/palette.json  ${assets?.colors.length ?? 0} color(s)`;
+  readme += assets?.darkColors?.length ? `, ${assets.darkColors.length} dark mode color(s)\n\n` : '\n\n';
+
+  const fontsWithoutFiles = fonts.filter(font => !font.url && !font.faces?.length && font.name);
+  if (fontsWithoutFiles.length > 0) {
+    readme += `FONTS REFERENCED WITHOUT A FILE (${fontsWithoutFiles.length}):\n`;
+    fontsWithoutFiles.forEach(font => {
+      readme += `  - ${font.name}\n`;
+    });
+    readme += '\n';
+  }
+
+  if (failures.length > 0) {
+    readme += `FAILED DOWNLOADS (${failures.length}):\n`;
+    failures.forEach(failure => {
+      readme += `  - ${failure.path}\n    URL: ${failure.url}\n    Error: ${failure.error}\n`;
+    });
+    readme += '\n';
+  }
+
+  readme += `Please make sure you have the rights to use these assets before reusing them.\n`;
+
+  return readme;
+}
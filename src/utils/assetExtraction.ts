@@ -8,31 +8,28 @@ import { parseHtmlSecurely } from './secureHtmlParser'
 // Import proxy utilities
 import { fetchForAssetExtraction, shouldUseProxy, isProxyAvailable } from './proxyUtils'
 
-export interface BrandAsset {
-  type: 'logo' | 'color' | 'font' | 'illustration'
-  url?: string
-  value?: string
-  name?: string
-  alt?: string
-  format?: string
-  source?: 'css' | 'html' | 'inline' | 'link'
-}
-
-export interface ExtractedAssets {
-  logos: BrandAsset[]
-  colors: BrandAsset[]
-  fonts: BrandAsset[]
-  illustrations: BrandAsset[]
-}
+import type { AssetExtractionResult } from './assetTypes'
 
-export interface AssetExtractionResult {
-  success: boolean
-  url: string
-  domain: string | null
-  assets: ExtractedAssets | null
-  error: string | null
-  extractedAt: string
-}
+export type {
+  BrandAsset,
+  BrandMetadata,
+  ColorRole,
+  CssContext,
+  FontFaceDefinition,
+  FontFileSource,
+  FontLicense,
+  FontProvider,
+  GradientDefinition,
+  GradientStop,
+  ImageMetadata,
+  ImageRendition,
+  LogoSignal,
+  TypeStyle,
+  TypographyElement,
+  TypographyRole,
+  ExtractedAssets,
+  AssetExtractionResult
+} from './assetTypes'
 
 /**
  * Extracts brand assets from a website URL
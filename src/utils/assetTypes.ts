@@ -0,0 +1,167 @@
+/**
+ * Shared asset type definitions for Brrrand
+ * Kept free of runtime dependencies so the browser, Worker, Pages Functions
+ * and Express server can all import them
+ */
+
+export type ColorRole = 'primary' | 'secondary' | 'accent' | 'background' | 'text'
+
+export type LogoSignal =
+  | 'structured-data'
+  | 'manifest'
+  | 'home-link'
+  | 'header'
+  | 'nav'
+  | 'logo-keyword'
+  | 'alt-matches-site'
+  | 'svg'
+  | 'size-hint'
+  | 'large'
+  | 'favicon'
+  | 'icon-keyword'
+  | 'tiny'
+
+export interface FontFileSource {
+  url: string
+  format?: string
+}
+
+export interface FontFaceDefinition {
+  weight: string
+  style: string
+  unicodeRange?: string
+  sources: FontFileSource[]
+}
+
+export interface ImageRendition {
+  url: string
+  width?: number
+  density?: number
+}
+
+/**
+ * What an image really is, sniffed from the first bytes of the file rather than its URL
+ */
+export interface ImageMetadata {
+  mimeType: string
+  /** File extension for the sniffed format, e.g. "png" */
+  extension: string
+  width?: number
+  height?: number
+  /** Size of the whole file, when the server reported it or the file was small enough to read completely */
+  byteSize?: number
+  hasAlpha?: boolean
+}
+
+export interface GradientStop {
+  color: string
+  position?: string
+}
+
+export interface GradientDefinition {
+  kind: 'linear' | 'radial' | 'conic'
+  repeating: boolean
+  /** Direction of a linear gradient, or start angle of a conic one, in degrees */
+  angle?: number
+  /** Remaining configuration, e.g. "circle at top left", "to top right" or "at 50% 50%" */
+  shape?: string
+  stops: GradientStop[]
+}
+
+export type FontProvider = 'google' | 'adobe' | 'fontshare' | 'bunny' | 'fonts.com' | 'myfonts' | 'self-hosted' | 'system'
+
+/**
+ * Whether a font may be reused freely: open (OFL and similar), commercial, or unknown
+ */
+export type FontLicense = 'open' | 'commercial' | 'unknown'
+
+export type TypographyElement = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6' | 'body' | 'p' | 'button' | 'code'
+
+export type TypographyRole = 'heading' | 'body' | 'ui' | 'code'
+
+/**
+ * How the site styles one kind of text, with CSS values as declared (var() references resolved)
+ */
+export interface TypeStyle {
+  element: TypographyElement
+  role: TypographyRole
+  /** Full font stack, e.g. "Inter, sans-serif" */
+  fontFamily?: string
+  fontSize?: string
+  fontWeight?: string
+  lineHeight?: string
+  letterSpacing?: string
+}
+
+/**
+ * Where in the page's CSS an asset was found
+ */
+export interface CssContext {
+  selector: string
+  property: string
+  /** Enclosing @media conditions */
+  media?: string
+}
+
+export interface BrandAsset {
+  type: 'logo' | 'color' | 'font' | 'illustration' | 'gradient'
+  url?: string
+  value?: string
+  name?: string
+  alt?: string
+  format?: string
+  source?: 'css' | 'html' | 'inline' | 'link' | 'manifest' | 'structured-data'
+  role?: ColorRole
+  usageCount?: number
+  faces?: FontFaceDefinition[]
+  sizes?: string
+  purpose?: string
+  confidence?: number
+  signals?: LogoSignal[]
+  renditions?: ImageRendition[]
+  neutral?: boolean
+  variants?: string[]
+  gradient?: GradientDefinition
+  /** Where a font is served from */
+  provider?: FontProvider
+  /** Adobe Fonts kit or Fonts.com project ID */
+  kitId?: string
+  license?: FontLicense
+  /** Free families to use instead of a commercial font */
+  alternatives?: string[]
+  /** Custom properties (design tokens) a color is defined in or used through, e.g. ["--brand-500", "--primary"] */
+  tokens?: string[]
+  /** Declaration the asset was first found in (CSS-sourced assets only) */
+  cssContext?: CssContext
+  /** Probed format, dimensions, file size and transparency of a logo or illustration */
+  image?: ImageMetadata
+}
+
+export interface BrandMetadata {
+  name?: string
+  shortName?: string
+  legalName?: string
+  socialProfiles?: string[]
+}
+
+export interface ExtractedAssets {
+  logos: BrandAsset[]
+  colors: BrandAsset[]
+  /** Palette of the site's dark theme, when it ships one */
+  darkColors?: BrandAsset[]
+  fonts: BrandAsset[]
+  illustrations: BrandAsset[]
+  gradients?: BrandAsset[]
+  /** Type scale from h1 down to body text, buttons and code */
+  typography?: TypeStyle[]
+  brand?: BrandMetadata
+}
+
+export interface AssetExtractionResult {
+  success: boolean
+  url: string
+  domain: string | null
+  assets: ExtractedAssets | null
+  error: string | null
+  extractedAt: string
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { clusterColors } from './colorClustering'
+import { recordColorUsage, type ColorUsage } from './colorRoles'
+import type { BrandAsset } from './assetExtraction'
+
+const color = (value: string): BrandAsset => ({ type: 'color', value, source: 'css' })
+
+const usageOf = (counts: Record<string, number>) => {
+  const usage = new Map<string, ColorUsage>()
+  Object.entries(counts).forEach(([value, count]) => {
+    for (let index = 0; index < count; index++) {
+      recordColorUsage(usage, value, { property: 'color', customProperties: index === 0 ? [`--${value.slice(1)}`] : undefined })
+    }
+  })
+  return usage
+}
+
+describe('Color clustering', () => {
+  it('should merge near-duplicates into the most used color', () => {
+    const colors = ['#635bfe', '#635bff', 'rgba(99, 91, 255, 0.98)', '#00d924'].map(color)
+    const usage = usageOf({ '#635bfe': 1, '#635bff': 5, '#00d924': 2 })
+
+    const result = clusterColors(colors, usage)
+
+    expect(result.colors.map(asset => asset.value)).toEqual(['#635bff', '#00d924'])
+    expect(result.colors[0].variants).toEqual(expect.arrayContaining(['#635bfe', 'rgba(99, 91, 255, 0.98)']))
+    expect(result.usage.get('#635bff')?.count).toBe(6)
+    expect(result.usage.get('#635bff')?.customProperties).toEqual(new Set(['--635bfe', '--635bff']))
+  })
+
+  it('should tag neutrals and keep them to a handful of grays', () => {
+    const grays = ['#ffffff', '#f8f9fa', '#e9ecef', '#dee2e6', '#ced4da', '#adb5bd', '#6c757d', '#495057', '#343a40', '#212529', '#000000']
+    const result = clusterColors([color('#635bff'), ...grays.map(color)], new Map(), { maxNeutrals: 3 })
+
+    const neutrals = result.colors.filter(asset => asset.neutral)
+    expect(neutrals).toHaveLength(3)
+    expect(result.colors.find(asset => asset.value === '#635bff')?.neutral).toBeUndefined()
+  })
+
+  it('should respect the threshold and the brand color limit', () => {
+    const hues = ['#ff0000', '#ff8800', '#ffee00', '#33cc33', '#00aaff', '#0000ff', '#8800ff', '#ff00aa', '#884400', '#008888']
+    const limited = clusterColors(hues.map(color), usageOf({ '#884400': 3, '#008888': 2 })).colors
+    // Distinct hues over the limit are left out by usage rather than folded into each other
+    expect(limited).toHaveLength(8)
+    expect(limited.map(asset => asset.value)).toEqual(['#ff0000', '#ff8800', '#ffee00', '#33cc33', '#00aaff', '#0000ff', '#884400', '#008888'])
+    expect(limited.every(asset => !asset.variants)).toBe(true)
+
+    const nearby = ['#635bff', '#6b5bff'].map(color)
+    expect(clusterColors(nearby, new Map()).colors).toHaveLength(1)
+    expect(clusterColors(nearby, new Map(), { threshold: 1 }).colors).toHaveLength(2)
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * Perceptual color clustering for Brrrand
+ * Collapses near-duplicate colors (e.g. #635bff, #635bfe and rgba(99, 91, 255, 0.98))
+ * into a single swatch and keeps the palette to a handful of brand colors and neutrals
+ */
+import type { BrandAsset } from './assetTypes';
+import { compositeColor, deltaE2000Lab, parseColorWithAlpha, rgbToLab, toHex, type Rgb } from './colorModel';
+import { isNeutralColor, type ColorUsage } from './colorRoles';
+
+/**
+ * Options for a clustering pass
+ */
+export interface ColorClusteringOptions {
+  /** Colors closer than this CIEDE2000 difference are merged */
+  threshold: number;
+  /** Most brand (non-neutral) colors kept after merging; the least used are left out */
+  maxColors: number;
+  /** Most neutrals (grays, near-black, near-white) kept after merging; the least used are left out */
+  maxNeutrals: number;
+}
+
+export const DEFAULT_COLOR_CLUSTERING: ColorClusteringOptions = {
+  threshold: 5,
+  maxColors: 8,
+  maxNeutrals: 4
+};
+
+/**
+ * Largest CIEDE2000 lightness weighting (S_L at L = 0 or 100): two colors whose lightness differs
+ * by more than this times the threshold are further apart than the threshold
+ */
+const MAX_LIGHTNESS_WEIGHT = 1 + (0.015 * 2500) / Math.sqrt(20 + 2500);
+
+interface Cluster {
+  representative: BrandAsset;
+  members: BrandAsset[];
+  count: number;
+  rgb: Rgb;
+  neutral: boolean;
+}
+
+/**
+ * Merge perceptually similar colors, keeping the most used member of each group, then keep
+ * the most used groups up to the brand color and neutral limits
+ *
+ * @param colors Deduplicated color assets; values the color model cannot parse are kept as-is
+ * @param usage Usage information keyed by color value
+ * @returns Clustered colors tagged with `neutral` and their merged `variants`, plus usage
+ * re-keyed so that each representative carries the usage of its whole cluster
+ */
+export function clusterColors(
+  colors: BrandAsset[],
+  usage: Map<string, ColorUsage>,
+  options: Partial<ColorClusteringOptions> = {}
+): { colors: BrandAsset[]; usage: Map<string, ColorUsage> } {
+  const settings = { ...DEFAULT_COLOR_CLUSTERING, ...options };
+  const brand: Cluster[] = [];
+  const neutrals: Cluster[] = [];
+  const unparsed: BrandAsset[] = [];
+
+  colors.forEach(color => {
+    const parsed = color.value ? parseColorWithAlpha(color.value) : null;
+    if (!parsed) {
+      unparsed.push(color);
+      return;
+    }
+    // Translucent colors are compared as they render on a white page
+    const rgb = compositeColor(parsed);
+    const neutral = isNeutralColor(toHex(rgb));
+    const cluster = { representative: color, members: [color], count: usage.get(color.value!)?.count ?? 0, rgb, neutral };
+    (neutral ? neutrals : brand).push(cluster);
+  });
+
+  const merged = [
+    ...keepMostUsed(mergeClusters(brand, settings.threshold), settings.maxColors),
+    ...keepMostUsed(mergeClusters(neutrals, settings.threshold), settings.maxNeutrals)
+  ];
+
+  // Keep the original order of the representatives
+  const order = new Map(colors.map((color, index) => [color, index]));
+  merged.sort((a, b) => order.get(a.representative)! - order.get(b.representative)!);
+
+  const clusteredUsage = new Map(usage);
+  const clustered = merged.map(cluster => {
+    const variants = cluster.members
+      .filter(member => member !== cluster.representative)
+      .map(member => member.value!);
+    const memberUsage = cluster.members
+      .map(member => usage.get(member.value!))
+      .filter((entry): entry is ColorUsage => !!entry);
+    if (memberUsage.length > 1) {
+      clusteredUsage.set(cluster.representative.value!, mergeUsage(memberUsage));
+    }
+
+    return {
+      ...cluster.representative,
+      ...(cluster.neutral ? { neutral: true } : {}),
+      ...(variants.length > 0 ? { variants } : {})
+    };
+  });
+
+  return { colors: [...clustered, ...unparsed], usage: clusteredUsage };
+}
+
+/**
+ * Agglomerative clustering: repeatedly merge the two closest clusters while they are within the threshold
+ * A cluster is compared by its representative's color, so the distances between the original colors
+ * are computed once (skipping pairs too far apart in lightness to ever merge), and each cluster
+ * remembers its nearest neighbor to avoid rescanning every pair.
+ */
+function mergeClusters(clusters: Cluster[], threshold: number): Cluster[] {
+  const count = clusters.length;
+  const labs = clusters.map(cluster => rgbToLab(cluster.rgb));
+  const distances = new Float64Array(count * count).fill(Infinity);
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      if (Math.abs(labs[i][0] - labs[j][0]) > threshold * MAX_LIGHTNESS_WEIGHT) continue;
+      distances[i * count + j] = distances[j * count + i] = deltaE2000Lab(labs[i], labs[j]);
+    }
+  }
+
+  // Clusters are addressed by the index of the color they are compared by
+  const active: (Cluster | null)[] = [...clusters];
+  const nearest = new Int32Array(count).fill(-1);
+  const nearestDistance = new Float64Array(count).fill(Infinity);
+  const findNearest = (i: number) => {
+    nearest[i] = -1;
+    nearestDistance[i] = Infinity;
+    for (let j = 0; j < count; j++) {
+      if (j !== i && active[j] && distances[i * count + j] < nearestDistance[i]) {
+        nearest[i] = j;
+        nearestDistance[i] = distances[i * count + j];
+      }
+    }
+  };
+  for (let i = 0; i < count; i++) findNearest(i);
+
+  for (;;) {
+    let closest = -1;
+    for (let i = 0; i < count; i++) {
+      if (active[i] && nearest[i] !== -1 && (closest === -1 || nearestDistance[i] < nearestDistance[closest])) closest = i;
+    }
+    if (closest === -1 || nearestDistance[closest] > threshold) break;
+
+    const [i, j] = closest < nearest[closest] ? [closest, nearest[closest]] : [nearest[closest], closest];
+    const [first, second] = [active[i]!, active[j]!];
+    // Ties go to the color that appeared first
+    const keepFirst = first.count >= second.count;
+    const [kept, removed] = keepFirst ? [i, j] : [j, i];
+    active[kept] = {
+      representative: keepFirst ? first.representative : second.representative,
+      members: keepFirst ? [...first.members, ...second.members] : [...second.members, ...first.members],
+      count: first.count + second.count,
+      rgb: keepFirst ? first.rgb : second.rgb,
+      neutral: first.neutral
+    };
+    active[removed] = null;
+
+    // Only clusters whose nearest neighbor was merged away need to look again
+    for (let k = 0; k < count; k++) {
+      if (active[k] && (k === kept || nearest[k] === removed)) findNearest(k);
+    }
+  }
+
+  return active.filter((cluster): cluster is Cluster => cluster !== null);
+}
+
+/**
+ * The `maxCount` most used clusters; ties go to the color that appeared first
+ */
+function keepMostUsed(clusters: Cluster[], maxCount: number): Cluster[] {
+  return clusters
+    .map((cluster, index) => ({ cluster, index }))
+    .sort((a, b) => b.cluster.count - a.cluster.count || a.index - b.index)
+    .slice(0, maxCount)
+    .map(({ cluster }) => cluster);
+}
+
+function mergeUsage(entries: ColorUsage[]): ColorUsage {
+  return {
+    count: entries.reduce((total, entry) => total + entry.count, 0),
+    properties: new Set(entries.flatMap(entry => [...entry.properties])),
+    selectors: new Set(entries.flatMap(entry => [...entry.selectors])),
+    customProperties: new Set(entries.flatMap(entry => [...entry.customProperties])),
+    isThemeColor: entries.some(entry => entry.isThemeColor)
+  };
+}
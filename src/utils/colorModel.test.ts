@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { findCssColors, getColorFormats, getNearestColorName, parseColorWithAlpha } from './colorModel'
+
+describe('Color model', () => {
+  it('should parse legacy and modern CSS color syntaxes', () => {
+    expect(parseColorWithAlpha('#0af')).toEqual({ rgb: [0, 170, 255], alpha: 1 })
+    expect(parseColorWithAlpha('#00aaff80')).toEqual({ rgb: [0, 170, 255], alpha: 0.502 })
+    expect(parseColorWithAlpha('rgb(0 123 255 / 50%)')).toEqual({ rgb: [0, 123, 255], alpha: 0.5 })
+    expect(parseColorWithAlpha('rgba(0, 0, 0, .25)')).toEqual({ rgb: [0, 0, 0], alpha: 0.25 })
+    expect(parseColorWithAlpha('rgb(100%, 50%, 0%)')?.rgb).toEqual([255, 128, 0])
+    expect(parseColorWithAlpha('hsl(210.5, 50.25%, 40.5%)')?.rgb).toEqual([51, 102, 155])
+    expect(parseColorWithAlpha('hsl(0.5turn 100% 50%)')?.rgb).toEqual([0, 255, 255])
+    expect(parseColorWithAlpha('hwb(120 0% 0%)')?.rgb).toEqual([0, 255, 0])
+    expect(parseColorWithAlpha('RebeccaPurple')?.rgb).toEqual([102, 51, 153])
+    expect(parseColorWithAlpha('transparent')).toEqual({ rgb: [0, 0, 0], alpha: 0 })
+  })
+
+  it('should convert lab, lch, oklab, oklch and color() to sRGB', () => {
+    expect(parseColorWithAlpha('oklch(62.8% 0.2577 29.23)')?.rgb).toEqual([255, 0, 0])
+    expect(parseColorWithAlpha('oklab(0.628 0.2249 0.1258)')?.rgb).toEqual([255, 0, 0])
+    expect(parseColorWithAlpha('lab(54.29 80.8 69.89)')?.rgb).toEqual([255, 0, 0])
+    expect(parseColorWithAlpha('lch(54.29 106.84 40.85)')?.rgb).toEqual([255, 0, 0])
+    expect(parseColorWithAlpha('color(srgb 1 0 0 / 0.5)')).toEqual({ rgb: [255, 0, 0], alpha: 0.5 })
+    // Out-of-gamut display-p3 colors are clipped to sRGB
+    expect(parseColorWithAlpha('color(display-p3 1 0 0)')?.rgb).toEqual([255, 0, 0])
+  })
+
+  it('should reject values that are not colors', () => {
+    expect(parseColorWithAlpha('var(--brand)')).toBeNull()
+    expect(parseColorWithAlpha('#12345')).toBeNull()
+    expect(parseColorWithAlpha('rgb(1, 2)')).toBeNull()
+    expect(parseColorWithAlpha('color(rec2020 1 0 0)')).toBeNull()
+  })
+
+  it('should expose every format with a readable name', () => {
+    expect(getColorFormats('#007bff')).toEqual({
+      hex: '#007bff',
+      rgb: 'rgb(0, 123, 255)',
+      hsl: 'hsl(211.1, 100%, 50%)',
+      oklch: 'oklch(60.48% 0.2166 257.21)',
+      cmyk: 'cmyk(100%, 52%, 0%, 0%)',
+      name: 'Dodger Blue',
+      isExactName: false
+    })
+
+    const translucent = getColorFormats('rgba(255, 0, 0, 0.5)')!
+    expect(translucent.hex).toBe('#ff000080')
+    expect(translucent.oklch).toBe('oklch(62.8% 0.2577 29.23 / 50%)')
+    expect(translucent.isExactName).toBe(true)
+  })
+
+  it('should split compound color names into words', () => {
+    expect(getNearestColorName([123, 104, 238]).name).toBe('Medium Slate Blue')
+    expect(getNearestColorName([250, 250, 210]).name).toBe('Light Goldenrod Yellow')
+    expect(getNearestColorName([255, 69, 0]).name).toBe('Orange Red')
+  })
+
+  it('should find colors in CSS text without matching fragment URLs', () => {
+    const css = 'a{color:#fff;background:linear-gradient(rgb(1 2 3), oklch(50% .1 20 / .5)) #abcdef url(#abc-def)}'
+    expect(findCssColors(css)).toEqual(['#fff', 'rgb(1 2 3)', 'oklch(50% .1 20 / .5)', '#abcdef'])
+  })
+})
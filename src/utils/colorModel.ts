@@ -0,0 +1,536 @@
+/**
+ * Color model for Brrrand
+ * Parses every CSS color syntax and converts colors to the formats designers and
+ * print teams ask for (HEX, RGB, HSL, OKLCH, CMYK) plus a readable color name
+ */
+
+export type Rgb = [number, number, number]
+
+/**
+ * CIE Lab (D65) lightness, green-red and blue-yellow components
+ */
+export type Lab = [number, number, number]
+
+export interface ParsedColor {
+  /** sRGB channels, 0-255 (out-of-gamut colors are clipped) */
+  rgb: Rgb
+  /** Opacity, 0-1 */
+  alpha: number
+}
+
+export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'oklch' | 'cmyk'
+
+export type ColorFormats = Record<ColorFormat, string> & {
+  /** Nearest CSS named color, e.g. "Medium Slate Blue" */
+  name: string
+  /** Whether the color is exactly the named color */
+  isExactName: boolean
+}
+
+export const COLOR_FORMAT_LABELS: Record<ColorFormat, string> = {
+  hex: 'HEX',
+  rgb: 'RGB',
+  hsl: 'HSL',
+  oklch: 'OKLCH',
+  cmyk: 'CMYK'
+}
+
+/**
+ * The CSS named colors (CSS Color Module Level 4)
+ */
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#f0f8ff', antiquewhite: '#faebd7', aqua: '#00ffff', aquamarine: '#7fffd4', azure: '#f0ffff',
+  beige: '#f5f5dc', bisque: '#ffe4c4', black: '#000000', blanchedalmond: '#ffebcd', blue: '#0000ff',
+  blueviolet: '#8a2be2', brown: '#a52a2a', burlywood: '#deb887', cadetblue: '#5f9ea0', chartreuse: '#7fff00',
+  chocolate: '#d2691e', coral: '#ff7f50', cornflowerblue: '#6495ed', cornsilk: '#fff8dc', crimson: '#dc143c',
+  cyan: '#00ffff', darkblue: '#00008b', darkcyan: '#008b8b', darkgoldenrod: '#b8860b', darkgray: '#a9a9a9',
+  darkgreen: '#006400', darkgrey: '#a9a9a9', darkkhaki: '#bdb76b', darkmagenta: '#8b008b', darkolivegreen: '#556b2f',
+  darkorange: '#ff8c00', darkorchid: '#9932cc', darkred: '#8b0000', darksalmon: '#e9967a', darkseagreen: '#8fbc8f',
+  darkslateblue: '#483d8b', darkslategray: '#2f4f4f', darkslategrey: '#2f4f4f', darkturquoise: '#00ced1',
+  darkviolet: '#9400d3', deeppink: '#ff1493', deepskyblue: '#00bfff', dimgray: '#696969', dimgrey: '#696969',
+  dodgerblue: '#1e90ff', firebrick: '#b22222', floralwhite: '#fffaf0', forestgreen: '#228b22', fuchsia: '#ff00ff',
+  gainsboro: '#dcdcdc', ghostwhite: '#f8f8ff', gold: '#ffd700', goldenrod: '#daa520', gray: '#808080',
+  green: '#008000', greenyellow: '#adff2f', grey: '#808080', honeydew: '#f0fff0', hotpink: '#ff69b4',
+  indianred: '#cd5c5c', indigo: '#4b0082', ivory: '#fffff0', khaki: '#f0e68c', lavender: '#e6e6fa',
+  lavenderblush: '#fff0f5', lawngreen: '#7cfc00', lemonchiffon: '#fffacd', lightblue: '#add8e6', lightcoral: '#f08080',
+  lightcyan: '#e0ffff', lightgoldenrodyellow: '#fafad2', lightgray: '#d3d3d3', lightgreen: '#90ee90', lightgrey: '#d3d3d3',
+  lightpink: '#ffb6c1', lightsalmon: '#ffa07a', lightseagreen: '#20b2aa', lightskyblue: '#87cefa',
+  lightslategray: '#778899', lightslategrey: '#778899', lightsteelblue: '#b0c4de', lightyellow: '#ffffe0',
+  lime: '#00ff00', limegreen: '#32cd32', linen: '#faf0e6', magenta: '#ff00ff', maroon: '#800000',
+  mediumaquamarine: '#66cdaa', mediumblue: '#0000cd', mediumorchid: '#ba55d3', mediumpurple: '#9370db',
+  mediumseagreen: '#3cb371', mediumslateblue: '#7b68ee', mediumspringgreen: '#00fa9a', mediumturquoise: '#48d1cc',
+  mediumvioletred: '#c71585', midnightblue: '#191970', mintcream: '#f5fffa', mistyrose: '#ffe4e1', moccasin: '#ffe4b5',
+  navajowhite: '#ffdead', navy: '#000080', oldlace: '#fdf5e6', olive: '#808000', olivedrab: '#6b8e23',
+  orange: '#ffa500', orangered: '#ff4500', orchid: '#da70d6', palegoldenrod: '#eee8aa', palegreen: '#98fb98',
+  paleturquoise: '#afeeee', palevioletred: '#db7093', papayawhip: '#ffefd5', peachpuff: '#ffdab9', peru: '#cd853f',
+  pink: '#ffc0cb', plum: '#dda0dd', powderblue: '#b0e0e6', purple: '#800080', rebeccapurple: '#663399',
+  red: '#ff0000', rosybrown: '#bc8f8f', royalblue: '#4169e1', saddlebrown: '#8b4513', salmon: '#fa8072',
+  sandybrown: '#f4a460', seagreen: '#2e8b57', seashell: '#fff5ee', sienna: '#a0522d', silver: '#c0c0c0',
+  skyblue: '#87ceeb', slateblue: '#6a5acd', slategray: '#708090', slategrey: '#708090', snow: '#fffafa',
+  springgreen: '#00ff7f', steelblue: '#4682b4', tan: '#d2b48c', teal: '#008080', thistle: '#d8bfd8',
+  tomato: '#ff6347', turquoise: '#40e0d0', violet: '#ee82ee', wheat: '#f5deb3', white: '#ffffff',
+  whitesmoke: '#f5f5f5', yellow: '#ffff00', yellowgreen: '#9acd32'
+}
+
+/**
+ * Hex colors and color functions as they appear in CSS text
+ */
+const CSS_COLOR_PATTERN = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{4}|[0-9a-f]{3})(?![0-9a-z_-])|\b(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^()]*\)/gi
+
+/**
+ * Find every hex color and color function (rgb(), hsl(), oklch(), color(), ...) in CSS text
+ */
+export const findCssColors = (text: string): string[] => text.match(CSS_COLOR_PATTERN) || []
+
+/**
+ * Parse any CSS color: hex, rgb()/rgba() and hsl()/hsla() in legacy or space-separated
+ * syntax, hwb(), lab(), lch(), oklab(), oklch(), color() and named colors
+ */
+export const parseColorWithAlpha = (value: string): ParsedColor | null => {
+  const color = value.trim().toLowerCase()
+
+  if (color === 'transparent') return { rgb: [0, 0, 0], alpha: 0 }
+  if (NAMED_COLORS[color]) return parseColorWithAlpha(NAMED_COLORS[color])
+
+  const hexMatch = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/)
+  if (hexMatch) {
+    const digits = hexMatch[1].length <= 4 ? hexMatch[1].split('').map(char => char + char).join('') : hexMatch[1]
+    const channels = digits.match(/../g)!.map(pair => parseInt(pair, 16))
+    return { rgb: channels.slice(0, 3) as Rgb, alpha: channels.length === 4 ? round(channels[3] / 255, 3) : 1 }
+  }
+
+  const functionMatch = color.match(/^([a-z]+)\(\s*(.*?)\s*\)$/)
+  if (!functionMatch) return null
+
+  const [, name, body] = functionMatch
+  const { args, alpha } = splitArguments(body, name !== 'color')
+  if (alpha === null) return null
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba': {
+      if (args.length !== 3) return null
+      const channels = args.map(arg => parseNumber(arg, 255))
+      return channels.every(isFiniteNumber) ? withAlpha(clampRgb(channels as Rgb), alpha) : null
+    }
+    case 'hsl':
+    case 'hsla': {
+      if (args.length !== 3) return null
+      const [h, s, l] = [parseHue(args[0]), parseNumber(args[1], 100), parseNumber(args[2], 100)]
+      return [h, s, l].every(isFiniteNumber) ? withAlpha(hslToRgb(h!, s! / 100, l! / 100), alpha) : null
+    }
+    case 'hwb': {
+      if (args.length !== 3) return null
+      const [h, w, b] = [parseHue(args[0]), parseNumber(args[1], 100), parseNumber(args[2], 100)]
+      return [h, w, b].every(isFiniteNumber) ? withAlpha(hwbToRgb(h!, w! / 100, b! / 100), alpha) : null
+    }
+    case 'lab':
+    case 'lch': {
+      if (args.length !== 3) return null
+      const l = parseNumber(args[0], 100)
+      const second = parseNumber(args[1], name === 'lab' ? 125 : 150)
+      const third = name === 'lab' ? parseNumber(args[2], 125) : parseHue(args[2])
+      if (![l, second, third].every(isFiniteNumber)) return null
+      const [a, b] = name === 'lab' ? [second!, third!] : polarToCartesian(second!, third!)
+      return withAlpha(linearToRgb(xyzD50ToLinearSrgb(labToXyzD50(l!, a, b))), alpha)
+    }
+    case 'oklab':
+    case 'oklch': {
+      if (args.length !== 3) return null
+      const l = parseNumber(args[0], 1)
+      const second = parseNumber(args[1], 0.4)
+      const third = name === 'oklab' ? parseNumber(args[2], 0.4) : parseHue(args[2])
+      if (![l, second, third].every(isFiniteNumber)) return null
+      const [a, b] = name === 'oklab' ? [second!, third!] : polarToCartesian(second!, third!)
+      return withAlpha(linearToRgb(oklabToLinearSrgb(l!, a, b)), alpha)
+    }
+    case 'color': {
+      const [space, ...channels] = args
+      if (channels.length !== 3) return null
+      const values = channels.map(channel => parseNumber(channel, 1))
+      if (!values.every(isFiniteNumber)) return null
+      const linear = colorSpaceToLinearSrgb(space, values as [number, number, number])
+      return linear ? withAlpha(linearToRgb(linear), alpha) : null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Parse any CSS color into 0-255 sRGB channels, ignoring opacity
+ */
+export const parseColor = (value: string): Rgb | null => parseColorWithAlpha(value)?.rgb ?? null
+
+/**
+ * Canonical form used for extracted colors: hex for opaque colors, rgba() otherwise
+ */
+export const toCanonicalColor = ({ rgb, alpha }: ParsedColor) =>
+  alpha >= 1 ? toHex(rgb) : `rgba(${rgb.join(', ')}, ${round(alpha, 3)})`
+
+export const toHex = (rgb: Rgb) =>
+  `#${rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`
+
+/**
+ * Every representation of a color, or null when the value is not a color
+ */
+export const getColorFormats = (value: string): ColorFormats | null => {
+  const parsed = parseColorWithAlpha(value)
+  if (!parsed) return null
+
+  const { rgb, alpha } = parsed
+  const hasAlpha = alpha < 1
+  const alphaSuffix = hasAlpha ? ` / ${round(alpha * 100, 1)}%` : ''
+  const [h, s, l] = rgbToHsl(rgb)
+  const [okL, okC, okH] = rgbToOklch(rgb)
+  const [c, m, y, k] = rgbToCmyk(rgb)
+  const { name, distance } = getNearestColorName(rgb)
+
+  return {
+    hex: hasAlpha ? `${toHex(rgb)}${Math.round(alpha * 255).toString(16).padStart(2, '0')}` : toHex(rgb),
+    rgb: hasAlpha ? `rgba(${rgb.join(', ')}, ${round(alpha, 3)})` : `rgb(${rgb.join(', ')})`,
+    hsl: hasAlpha
+      ? `hsla(${round(h, 1)}, ${round(s * 100, 1)}%, ${round(l * 100, 1)}%, ${round(alpha, 3)})`
+      : `hsl(${round(h, 1)}, ${round(s * 100, 1)}%, ${round(l * 100, 1)}%)`,
+    oklch: `oklch(${round(okL * 100, 2)}% ${round(okC, 4)} ${round(okH, 2)}${alphaSuffix})`,
+    cmyk: `cmyk(${[c, m, y, k].map(channel => `${Math.round(channel * 100)}%`).join(', ')})`,
+    name,
+    isExactName: distance === 0
+  }
+}
+
+/**
+ * Nearest CSS named color by OKLab distance, as a readable name
+ */
+export const getNearestColorName = (rgb: Rgb): { name: string; distance: number } => {
+  const [l, a, b] = linearSrgbToOklab(rgbToLinear(rgb))
+  let best = { key: 'black', distance: Infinity }
+
+  Object.entries(NAMED_COLORS).forEach(([key, hex]) => {
+    const [l2, a2, b2] = linearSrgbToOklab(rgbToLinear(parseColor(hex)!))
+    const distance = Math.hypot(l - l2, a - a2, b - b2)
+    if (distance < best.distance) best = { key, distance }
+  })
+
+  return { name: humanizeColorName(best.key), distance: round(best.distance, 4) }
+}
+
+/**
+ * CIEDE2000 color difference between two sRGB colors (about 2.3 is a just noticeable difference)
+ */
+export const deltaE2000 = (first: Rgb, second: Rgb): number => deltaE2000Lab(rgbToLab(first), rgbToLab(second))
+
+/**
+ * CIEDE2000 color difference between two Lab colors, for comparing many colors converted once
+ */
+export const deltaE2000Lab = ([l1, a1, b1]: Lab, [l2, a2, b2]: Lab): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const toDegrees = (radians: number) => radians * 180 / Math.PI
+
+  const meanChroma = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2
+  const g = 0.5 * (1 - Math.sqrt(Math.pow(meanChroma, 7) / (Math.pow(meanChroma, 7) + Math.pow(25, 7))))
+  const a1Prime = a1 * (1 + g)
+  const a2Prime = a2 * (1 + g)
+  const c1 = Math.hypot(a1Prime, b1)
+  const c2 = Math.hypot(a2Prime, b2)
+  const h1 = c1 === 0 ? 0 : (toDegrees(Math.atan2(b1, a1Prime)) + 360) % 360
+  const h2 = c2 === 0 ? 0 : (toDegrees(Math.atan2(b2, a2Prime)) + 360) % 360
+
+  const deltaL = l2 - l1
+  const deltaC = c2 - c1
+  let deltaH = 0
+  if (c1 * c2 !== 0) {
+    deltaH = h2 - h1
+    if (deltaH > 180) deltaH -= 360
+    else if (deltaH < -180) deltaH += 360
+  }
+  const deltaBigH = 2 * Math.sqrt(c1 * c2) * Math.sin(toRadians(deltaH / 2))
+
+  const meanL = (l1 + l2) / 2
+  const meanC = (c1 + c2) / 2
+  let meanH = h1 + h2
+  if (c1 * c2 !== 0) {
+    meanH = Math.abs(h1 - h2) <= 180 ? (h1 + h2) / 2 : (h1 + h2 + (h1 + h2 < 360 ? 360 : -360)) / 2
+  }
+
+  const t = 1 -
+    0.17 * Math.cos(toRadians(meanH - 30)) +
+    0.24 * Math.cos(toRadians(2 * meanH)) +
+    0.32 * Math.cos(toRadians(3 * meanH + 6)) -
+    0.2 * Math.cos(toRadians(4 * meanH - 63))
+  const deltaTheta = 30 * Math.exp(-Math.pow((meanH - 275) / 25, 2))
+  const rc = 2 * Math.sqrt(Math.pow(meanC, 7) / (Math.pow(meanC, 7) + Math.pow(25, 7)))
+  const sl = 1 + (0.015 * Math.pow(meanL - 50, 2)) / Math.sqrt(20 + Math.pow(meanL - 50, 2))
+  const sc = 1 + 0.045 * meanC
+  const sh = 1 + 0.015 * meanC * t
+  const rt = -Math.sin(toRadians(2 * deltaTheta)) * rc
+
+  return Math.sqrt(
+    Math.pow(deltaL / sl, 2) +
+    Math.pow(deltaC / sc, 2) +
+    Math.pow(deltaBigH / sh, 2) +
+    rt * (deltaC / sc) * (deltaBigH / sh)
+  )
+}
+
+/**
+ * Flatten a translucent color onto a backdrop (white by default), as it would render
+ */
+export const compositeColor = ({ rgb, alpha }: ParsedColor, backdrop: Rgb = [255, 255, 255]): Rgb =>
+  rgb.map((channel, index) => Math.round(channel * alpha + backdrop[index] * (1 - alpha))) as Rgb
+
+export const rgbToHsl = ([r, g, b]: Rgb): [number, number, number] => {
+  const [red, green, blue] = [r / 255, g / 255, b / 255]
+  const max = Math.max(red, green, blue)
+  const min = Math.min(red, green, blue)
+  const l = (max + min) / 2
+  const delta = max - min
+  if (delta === 0) return [0, 0, l]
+
+  const s = delta / (1 - Math.abs(2 * l - 1))
+  let h: number
+  if (max === red) h = ((green - blue) / delta) % 6
+  else if (max === green) h = (blue - red) / delta + 2
+  else h = (red - green) / delta + 4
+
+  return [(h * 60 + 360) % 360, s, l]
+}
+
+export const rgbToOklch = (rgb: Rgb): [number, number, number] => {
+  const [l, a, b] = linearSrgbToOklab(rgbToLinear(rgb))
+  const chroma = Math.hypot(a, b)
+  const hue = chroma < 0.0001 ? 0 : (Math.atan2(b, a) * 180 / Math.PI + 360) % 360
+  return [l, chroma, hue]
+}
+
+/**
+ * Naive (uncalibrated) CMYK approximation, 0-1 per channel
+ */
+export const rgbToCmyk = ([r, g, b]: Rgb): [number, number, number, number] => {
+  const [red, green, blue] = [r / 255, g / 255, b / 255]
+  const k = 1 - Math.max(red, green, blue)
+  if (k === 1) return [0, 0, 0, 1]
+  return [(1 - red - k) / (1 - k), (1 - green - k) / (1 - k), (1 - blue - k) / (1 - k), k]
+}
+
+/**
+ * Split function arguments on commas, spaces and the "/" alpha separator
+ */
+const splitArguments = (body: string, allowLegacyAlpha: boolean): { args: string[]; alpha: number | null } => {
+  let alphaPart: string | undefined
+  let rest = body
+
+  if (body.includes('/')) {
+    [rest, alphaPart] = body.split('/').map(part => part.trim())
+  }
+
+  const args = rest.split(/\s*,\s*|\s+/).filter(Boolean)
+  // Legacy rgba()/hsla() pass alpha as a fourth comma-separated argument
+  if (!alphaPart && allowLegacyAlpha && args.length === 4) alphaPart = args.pop()
+
+  if (alphaPart === undefined || alphaPart === 'none') return { args, alpha: 1 }
+  const alpha = parseNumber(alphaPart, 1)
+  return { args, alpha: alpha === null ? null : Math.min(1, Math.max(0, alpha)) }
+}
+
+/**
+ * Parse a number or percentage; 100% equals `percentReference`
+ */
+const parseNumber = (value: string, percentReference: number): number | null => {
+  if (value === 'none') return 0
+  const match = value.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/)
+  if (!match) return null
+  const number = parseFloat(match[1])
+  return match[2] ? number / 100 * percentReference : number
+}
+
+const parseHue = (value: string): number | null => {
+  if (value === 'none') return 0
+  const match = value.match(/^([+-]?(?:\d+\.?\d*|\.\d+))(deg|grad|rad|turn)?$/)
+  if (!match) return null
+  const number = parseFloat(match[1])
+  const degrees = {
+    deg: number,
+    grad: number * 0.9,
+    rad: number * 180 / Math.PI,
+    turn: number * 360
+  }[match[2] as 'deg' | 'grad' | 'rad' | 'turn'] ?? number
+  return ((degrees % 360) + 360) % 360
+}
+
+const hslToRgb = (h: number, s: number, l: number): Rgb => {
+  const saturation = Math.min(1, Math.max(0, s))
+  const lightness = Math.min(1, Math.max(0, l))
+  const a = saturation * Math.min(lightness, 1 - lightness)
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12
+    return Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))))
+  }
+  return [channel(0), channel(8), channel(4)]
+}
+
+const hwbToRgb = (h: number, white: number, black: number): Rgb => {
+  if (white + black >= 1) {
+    const gray = Math.round(255 * white / (white + black))
+    return [gray, gray, gray]
+  }
+  return hslToRgb(h, 1, 0.5).map(channel =>
+    Math.round((channel / 255 * (1 - white - black) + white) * 255)) as Rgb
+}
+
+const polarToCartesian = (chroma: number, hue: number): [number, number] => [
+  chroma * Math.cos(hue * Math.PI / 180),
+  chroma * Math.sin(hue * Math.PI / 180)
+]
+
+/**
+ * CIE Lab with the D65 white point, as used by CIEDE2000
+ */
+export const rgbToLab = (rgb: Rgb): Lab => {
+  const [r, g, b] = rgbToLinear(rgb)
+  const white = [0.95047, 1, 1.08883]
+  const xyz = [
+    0.4124564 * r + 0.3575761 * g + 0.1804375 * b,
+    0.2126729 * r + 0.7151522 * g + 0.072175 * b,
+    0.0193339 * r + 0.119192 * g + 0.9503041 * b
+  ].map((value, index) => value / white[index])
+  const [fx, fy, fz] = xyz.map(value => value > 216 / 24389 ? Math.cbrt(value) : (24389 / 27 * value + 16) / 116)
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+const rgbToLinear = (rgb: Rgb): [number, number, number] => rgb.map(channel => {
+  const value = channel / 255
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4)
+}) as [number, number, number]
+
+const linearToRgb = (linear: [number, number, number]): Rgb => clampRgb(linear.map(value => {
+  const sign = value < 0 ? -1 : 1
+  const absolute = Math.abs(value)
+  const encoded = absolute <= 0.0031308 ? absolute * 12.92 : 1.055 * Math.pow(absolute, 1 / 2.4) - 0.055
+  return sign * encoded * 255
+}) as Rgb)
+
+const linearSrgbToOklab = ([r, g, b]: [number, number, number]): [number, number, number] => {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  ]
+}
+
+const oklabToLinearSrgb = (l: number, a: number, b: number): [number, number, number] => {
+  const lPrime = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3)
+  const mPrime = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3)
+  const sPrime = Math.pow(l - 0.0894841775 * a - 1.2914855480 * b, 3)
+  return [
+    4.0767416621 * lPrime - 3.3077115913 * mPrime + 0.2309699292 * sPrime,
+    -1.2684380046 * lPrime + 2.6097574011 * mPrime - 0.3413193965 * sPrime,
+    -0.0041960863 * lPrime - 0.7034186147 * mPrime + 1.7076147010 * sPrime
+  ]
+}
+
+/**
+ * CIE Lab (D50, as used by CSS lab()/lch()) to XYZ
+ */
+const labToXyzD50 = (l: number, a: number, b: number): [number, number, number] => {
+  const epsilon = 216 / 24389
+  const kappa = 24389 / 27
+  const fy = (l + 16) / 116
+  const fx = a / 500 + fy
+  const fz = fy - b / 200
+  const x = Math.pow(fx, 3) > epsilon ? Math.pow(fx, 3) : (116 * fx - 16) / kappa
+  const y = l > kappa * epsilon ? Math.pow(fy, 3) : l / kappa
+  const z = Math.pow(fz, 3) > epsilon ? Math.pow(fz, 3) : (116 * fz - 16) / kappa
+  return [x * 0.3457 / 0.3585, y, z * (1 - 0.3457 - 0.3585) / 0.3585]
+}
+
+/**
+ * XYZ (D50) to linear sRGB, with Bradford chromatic adaptation to D65
+ */
+const xyzD50ToLinearSrgb = ([x, y, z]: [number, number, number]): [number, number, number] => [
+  3.1341359569958707 * x - 1.6173863321612538 * y - 0.4906619460083532 * z,
+  -0.978795502912089 * x + 1.916254567259524 * y + 0.03344273116131949 * z,
+  0.07195537988411677 * x - 0.2289768264158322 * y + 1.405386058324125 * z
+]
+
+const xyzD65ToLinearSrgb = ([x, y, z]: [number, number, number]): [number, number, number] => [
+  3.2409699419045226 * x - 1.537383177570094 * y - 0.4986107602930034 * z,
+  -0.9692436362808796 * x + 1.8759675015077202 * y + 0.04155505740717559 * z,
+  0.05563007969699366 * x - 0.20397695888897652 * y + 1.0569715142428786 * z
+]
+
+/**
+ * Predefined color() spaces, converted to linear sRGB
+ */
+const colorSpaceToLinearSrgb = (space: string, values: [number, number, number]): [number, number, number] | null => {
+  const decode = (value: number) => {
+    const absolute = Math.abs(value)
+    const linear = absolute <= 0.04045 ? absolute / 12.92 : Math.pow((absolute + 0.055) / 1.055, 2.4)
+    return value < 0 ? -linear : linear
+  }
+
+  switch (space) {
+    case 'srgb':
+      return values.map(decode) as [number, number, number]
+    case 'srgb-linear':
+      return values
+    case 'display-p3': {
+      const [r, g, b] = values.map(decode)
+      return xyzD65ToLinearSrgb([
+        0.4865709486482162 * r + 0.26566769316909306 * g + 0.1982172852343625 * b,
+        0.2289745640697488 * r + 0.6917385218365064 * g + 0.079286914093745 * b,
+        0.04511338185890264 * g + 1.043944368900976 * b
+      ])
+    }
+    case 'xyz':
+    case 'xyz-d65':
+      return xyzD65ToLinearSrgb(values)
+    case 'xyz-d50':
+      return xyzD50ToLinearSrgb(values)
+    default:
+      return null
+  }
+}
+
+const clampRgb = (rgb: Rgb): Rgb => rgb.map(channel => Math.min(255, Math.max(0, Math.round(channel)))) as Rgb
+
+const withAlpha = (rgb: Rgb, alpha: number): ParsedColor => ({ rgb, alpha })
+
+const isFiniteNumber = (value: number | null): boolean => value !== null && Number.isFinite(value)
+
+/**
+ * Words the named colors are built from, used to split "mediumslateblue" into "Medium Slate Blue"
+ */
+const COLOR_NAME_WORDS = (
+  'alice almond antique aqua aquamarine azure beige bisque black blanched blue blush brick brown burlywood ' +
+  'cadet chartreuse chiffon chocolate coral cornflower cornsilk cream crimson cyan dark deep dim dodger drab ' +
+  'fire floral forest fuchsia gainsboro ghost gold goldenrod gray green grey honeydew hot indian indigo ivory ' +
+  'khaki lace lavender lawn lemon light lime linen magenta maroon medium midnight mint misty moccasin navajo ' +
+  'navy old olive orange orchid pale papaya peach peru pink plum powder puff purple rebecca red rose rosy royal ' +
+  'saddle salmon sandy sea seashell sienna silver sky slate smoke snow spring steel tan teal thistle tomato ' +
+  'turquoise violet wheat whip white yellow'
+).split(' ')
+
+const humanizeColorName = (key: string) => {
+  const words: string[] = []
+  let rest = key
+  while (rest) {
+    const word = COLOR_NAME_WORDS
+      .filter(candidate => rest.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0]
+    if (!word) return capitalize(key)
+    words.push(capitalize(word))
+    rest = rest.slice(word.length)
+  }
+  return words.join(' ')
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1)
+
+const round = (value: number, digits: number) => {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
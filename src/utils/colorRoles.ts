@@ -0,0 +1,196 @@
+/**
+ * Semantic color role detection for Brrrand
+ * Annotates extracted colors with a role (primary, secondary, accent, background, text)
+ * based on where and how often each color is used
+ */
+import type { BrandAsset, ColorRole } from './assetTypes';
+import { parseColor, rgbToHsl } from './colorModel';
+
+/**
+ * Display order for color roles
+ */
+export const COLOR_ROLE_ORDER: readonly ColorRole[] = ['primary', 'secondary', 'accent', 'text', 'background'] as const;
+
+/**
+ * Everything we learned about how a single color is used on the page
+ */
+export interface ColorUsage {
+  count: number
+  properties: Set<string>
+  selectors: Set<string>
+  customProperties: Set<string>
+  isThemeColor: boolean
+}
+
+/**
+ * Where a color occurrence was found
+ */
+export interface ColorUsageContext {
+  property?: string
+  selector?: string
+  /** Custom properties the color was defined in or reached through */
+  customProperties?: string[]
+  isThemeColor?: boolean
+}
+
+/**
+ * Record one occurrence of a (normalized) color value
+ */
+export function recordColorUsage(usage: Map<string, ColorUsage>, color: string, context: ColorUsageContext = {}): void {
+  let entry = usage.get(color);
+  if (!entry) {
+    entry = {
+      count: 0,
+      properties: new Set(),
+      selectors: new Set(),
+      customProperties: new Set(),
+      isThemeColor: false
+    };
+    usage.set(color, entry);
+  }
+
+  entry.count++;
+  if (context.property) entry.properties.add(context.property.toLowerCase());
+  if (context.selector) entry.selectors.add(context.selector.toLowerCase());
+  context.customProperties?.forEach(name => entry.customProperties.add(name));
+  if (context.isThemeColor) entry.isThemeColor = true;
+}
+
+type RoleScores = Record<ColorRole, number>;
+
+const INTERACTIVE_SELECTOR = /(^|[\s.#>+~,(])(button|btn|cta|primary)\b|\[type=["']?submit/;
+const LINK_SELECTOR = /(^|[\s>+~,])a(\b|:|$)|\blink\b/;
+const ROOT_SELECTOR = /(^|[\s,>])(html|body|:root|main)\b/;
+const TEXT_SELECTOR = /(^|[\s,>])(html|body|:root|p|h[1-6]|li|span|article)\b/;
+
+/**
+ * Score how well a color fits each role
+ */
+function scoreColorRoles(value: string, usage: ColorUsage | undefined): RoleScores {
+  const scores: RoleScores = { primary: 0, secondary: 0, accent: 0, background: 0, text: 0 };
+  const hsl = toHsl(value);
+  const isNeutral = isNeutralColor(value);
+
+  if (hsl) {
+    if (isNeutral) {
+      scores.background += hsl.l > 0.5 ? 1 : 0.5;
+      scores.text += hsl.l <= 0.5 ? 1 : 0;
+    } else {
+      scores.accent += 0.5;
+    }
+  }
+
+  if (!usage) return scores;
+
+  // Custom property names are the strongest signal (e.g. --primary-color)
+  const names = [...usage.customProperties].join(' ').toLowerCase();
+  if (/primary|brand/.test(names)) scores.primary += 6;
+  if (/secondary/.test(names)) scores.secondary += 6;
+  if (/accent|highlight|tertiary|success|info|warning|danger|error|link/.test(names)) scores.accent += 4;
+  if (/(^|-)(bg|background|surface|canvas|backdrop)(-|$|\s)/.test(names)) scores.background += 4;
+  if (/(^|-)(text|fg|foreground|ink|heading|body-color)(-|$|\s)/.test(names)) scores.text += 4;
+
+  if (usage.isThemeColor) scores.primary += 4;
+
+  const selectors = [...usage.selectors];
+  const properties = usage.properties;
+  const usedAsBackground = [...properties].some(property => property.startsWith('background'));
+  const usedAsText = properties.has('color');
+
+  if (usedAsBackground && selectors.some(selector => INTERACTIVE_SELECTOR.test(selector))) {
+    scores.primary += isNeutral ? 0 : 3;
+  }
+  if (usedAsText && selectors.some(selector => LINK_SELECTOR.test(selector))) {
+    scores.accent += 1;
+    scores.primary += isNeutral ? 0 : 1;
+  }
+  if (usedAsBackground && selectors.some(selector => ROOT_SELECTOR.test(selector))) {
+    scores.background += 3;
+  }
+  if (usedAsText && selectors.some(selector => TEXT_SELECTOR.test(selector))) {
+    scores.text += 3;
+  }
+  if ([...properties].some(property => property.startsWith('border') || property.startsWith('outline'))) {
+    scores.accent += 0.5;
+  }
+
+  return scores;
+}
+
+/**
+ * Annotate colors with a semantic role, usage count and token names, ordered by role then usage
+ *
+ * @param colors Deduplicated color assets
+ * @param usage Usage information keyed by normalized color value
+ * @returns New color assets carrying `role`, `usageCount` and the `tokens` that hold them
+ */
+export function assignColorRoles(colors: BrandAsset[], usage: Map<string, ColorUsage>): BrandAsset[] {
+  const candidates = colors
+    .filter(color => color.value)
+    .map(color => ({
+      color,
+      usage: usage.get(color.value!),
+      scores: scoreColorRoles(color.value!, usage.get(color.value!)),
+      isNeutral: isNeutralColor(color.value!)
+    }));
+
+  const byUsage = (a: typeof candidates[number], b: typeof candidates[number]) =>
+    (b.usage?.count ?? 0) - (a.usage?.count ?? 0);
+
+  const roles = new Map<typeof candidates[number], ColorRole>();
+
+  // Primary and secondary are unique: pick the best explicit match, otherwise the most used brand color
+  (['primary', 'secondary'] as const).forEach(role => {
+    const remaining = candidates.filter(candidate => !roles.has(candidate));
+    const explicit = remaining
+      .filter(candidate => candidate.scores[role] >= 3)
+      .sort((a, b) => b.scores[role] - a.scores[role] || byUsage(a, b))[0];
+    const fallback = remaining
+      .filter(candidate => !candidate.isNeutral && candidate.scores.background < 4 && candidate.scores.text < 4)
+      .sort(byUsage)[0];
+    const chosen = explicit ?? fallback;
+    if (chosen) roles.set(chosen, role);
+  });
+
+  candidates.forEach(candidate => {
+    if (roles.has(candidate)) return;
+    const { accent, background, text } = candidate.scores;
+    if (background > accent && background >= text) {
+      roles.set(candidate, 'background');
+    } else if (text > accent && text > background) {
+      roles.set(candidate, 'text');
+    } else {
+      roles.set(candidate, 'accent');
+    }
+  });
+
+  return candidates
+    .map(candidate => ({
+      ...candidate.color,
+      role: roles.get(candidate),
+      usageCount: candidate.usage?.count ?? 1,
+      ...(candidate.usage?.customProperties.size ? { tokens: [...candidate.usage.customProperties] } : {})
+    }))
+    .sort((a, b) =>
+      COLOR_ROLE_ORDER.indexOf(a.role!) - COLOR_ROLE_ORDER.indexOf(b.role!) ||
+      (b.usageCount ?? 0) - (a.usageCount ?? 0)
+    );
+}
+
+/**
+ * Low-saturation grays plus near-black and near-white colors
+ */
+export function isNeutralColor(value: string): boolean {
+  const hsl = toHsl(value);
+  return hsl ? hsl.s < 0.15 || hsl.l < 0.08 || hsl.l > 0.95 : false;
+}
+
+/**
+ * Convert any CSS color to HSL (0-1 ranges, hue in degrees)
+ */
+function toHsl(value: string): { h: number; s: number; l: number } | null {
+  const rgb = parseColor(value);
+  if (!rgb) return null;
+  const [h, s, l] = rgbToHsl(rgb);
+  return { h, s, l };
+}
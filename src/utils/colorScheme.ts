@@ -0,0 +1,22 @@
+/**
+ * Color scheme detection for Brrrand
+ * Recognizes the CSS contexts sites use to ship a dark palette
+ */
+
+/**
+ * Selectors that scope styles to a dark theme, e.g. `[data-theme="dark"]`, `.dark`,
+ * `.theme-dark`, `.dark-mode` or `:root[data-bs-theme=dark]`
+ */
+const DARK_SELECTOR_PATTERN = /\[data-(?:theme|bs-theme|mode|color-mode|color-scheme)\s*[~|^$*]?=\s*["']?dark\b|\.(?:dark|theme-dark|dark-theme|dark-mode|is-dark|night)(?![\w-])/i;
+
+const DARK_MEDIA_PATTERN = /prefers-color-scheme\s*:\s*dark/i;
+
+/**
+ * Whether a declaration only applies when the site is shown in dark mode
+ *
+ * @param selector Selector of the rule the declaration belongs to
+ * @param media Enclosing @media conditions, if any
+ */
+export function isDarkSchemeContext(selector: string, media?: string): boolean {
+  return DARK_MEDIA_PATTERN.test(media ?? '') || DARK_SELECTOR_PATTERN.test(selector);
+}
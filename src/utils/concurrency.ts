@@ -0,0 +1,19 @@
+/**
+ * Small async helpers shared by the extractor and the asset bundler
+ */
+
+/**
+ * Run an async task for every item with at most `limit` tasks in flight
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let nextIndex = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const item = items[nextIndex++];
+      await task(item);
+    }
+  });
+
+  await Promise.all(workers);
+}
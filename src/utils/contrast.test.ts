@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { analyzePaletteContrast, getContrast, suggestCompliantColor } from './contrast'
+import type { BrandAsset } from './assetExtraction'
+
+describe('Contrast analysis', () => {
+  it('should compute WCAG ratios and APCA contrast', () => {
+    const blackOnWhite = getContrast('#000000', '#ffffff')
+    expect(blackOnWhite.ratio).toBe(21)
+    expect(blackOnWhite.apca).toBeCloseTo(106, 0)
+    expect(blackOnWhite.aaa).toBe(true)
+
+    const whiteOnBlack = getContrast('#fff', 'rgb(0, 0, 0)')
+    expect(whiteOnBlack.ratio).toBe(21)
+    expect(whiteOnBlack.apca).toBeCloseTo(-107.9, 0)
+
+    const grayOnWhite = getContrast('#777777', '#ffffff')
+    expect(grayOnWhite.ratio).toBe(4.48)
+    expect(grayOnWhite.aa).toBe(false)
+    expect(grayOnWhite.aaLarge).toBe(true)
+    expect(grayOnWhite.apcaBody).toBe(false)
+  })
+
+  it('should composite translucent colors before comparing them', () => {
+    // 5% black over white renders as a very light gray, not as black
+    const faintText = getContrast('rgba(0, 0, 0, 0.05)', '#ffffff')
+    expect(faintText.ratio).toBeLessThan(1.2)
+    expect(faintText.aaLarge).toBe(false)
+
+    // A translucent surface is seen over the white page
+    expect(getContrast('#000000', 'rgba(0, 0, 0, 0.05)').ratio).toBeCloseTo(getContrast('#000000', '#f2f2f2').ratio, 1)
+
+    const suggestion = suggestCompliantColor('rgba(0, 0, 0, 0.3)', '#ffffff')
+    expect(suggestion?.kind).toBe('shade')
+    expect(getContrast(suggestion!.value, '#ffffff').aa).toBe(true)
+  })
+
+  it('should suggest the nearest compliant tint or shade', () => {
+    const darker = suggestCompliantColor('#ff9900', '#ffffff')
+    expect(darker?.kind).toBe('shade')
+    expect(darker!.ratio).toBeGreaterThanOrEqual(4.5)
+    expect(getContrast(darker!.value, '#ffffff').aa).toBe(true)
+
+    const lighter = suggestCompliantColor('#3355aa', '#111111')
+    expect(lighter?.kind).toBe('tint')
+    expect(getContrast(lighter!.value, '#111111').aa).toBe(true)
+  })
+
+  it('should build the matrix and flag failing brand pairings', () => {
+    const colors: BrandAsset[] = [
+      { type: 'color', value: '#00d924', role: 'primary' },
+      { type: 'color', value: '#0a2540', role: 'secondary' },
+      { type: 'color', value: '#ffffff', role: 'background' },
+      { type: 'color', value: 'currentColor' }
+    ]
+
+    const report = analyzePaletteContrast(colors)
+
+    expect(report.colors).toEqual(['#00d924', '#0a2540', '#ffffff'])
+    expect(report.matrix[1][2].ratio).toBeGreaterThan(15)
+    expect(report.brandPairings).toHaveLength(2)
+    expect(report.brandPairings[0]).toMatchObject({ foregroundRole: 'primary', backgroundRole: 'background' })
+    expect(report.brandPairings[0].result.aa).toBe(false)
+    expect(report.brandPairings[0].suggestion?.kind).toBe('shade')
+    expect(report.brandPairings[1].suggestion).toBeUndefined()
+  })
+})
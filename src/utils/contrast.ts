@@ -0,0 +1,223 @@
+import type { BrandAsset, ColorRole } from './assetExtraction'
+import { compositeColor, parseColorWithAlpha, toHex, type Rgb } from './colorModel'
+
+/**
+ * WCAG 2.x minimum contrast ratios
+ */
+export const WCAG_THRESHOLDS = {
+  aa: 4.5,
+  aaLarge: 3,
+  aaa: 7,
+  aaaLarge: 4.5
+} as const
+
+/**
+ * APCA minimum lightness contrast (absolute Lc) for fluent body text and large text
+ */
+export const APCA_THRESHOLDS = {
+  body: 75,
+  large: 60
+} as const
+
+export interface ContrastResult {
+  foreground: string
+  background: string
+  /** WCAG 2.x contrast ratio, 1-21 */
+  ratio: number
+  /** APCA lightness contrast, signed (negative for light text on dark backgrounds) */
+  apca: number
+  aa: boolean
+  aaLarge: boolean
+  aaa: boolean
+  aaaLarge: boolean
+  apcaBody: boolean
+  apcaLarge: boolean
+}
+
+export interface ContrastSuggestion {
+  value: string
+  kind: 'tint' | 'shade'
+  ratio: number
+}
+
+export interface BrandPairing {
+  foregroundRole: ColorRole
+  backgroundRole: ColorRole | 'default'
+  result: ContrastResult
+  /** Closest lighter or darker version of the foreground that passes WCAG AA */
+  suggestion?: ContrastSuggestion
+}
+
+export interface PaletteContrastReport {
+  colors: string[]
+  /** matrix[i][j] is colors[i] as text on colors[j] */
+  matrix: ContrastResult[][]
+  brandPairings: BrandPairing[]
+}
+
+const FOREGROUND_ROLES: ColorRole[] = ['primary', 'secondary', 'accent', 'text']
+
+/**
+ * Compute the pairwise contrast of a palette and check how brand colors hold up as text
+ * on the palette's background colors (white when the palette has none)
+ *
+ * @param colors Extracted color assets; values that cannot be parsed are skipped
+ * @param maxColors Limit for the size of the matrix
+ */
+export const analyzePaletteContrast = (colors: BrandAsset[], maxColors = 12): PaletteContrastReport => {
+  const parsed = colors
+    .filter(color => color.value && parseColorWithAlpha(color.value))
+    .slice(0, maxColors)
+  const values = parsed.map(color => color.value!)
+
+  const matrix = values.map(foreground => values.map(background => getContrast(foreground, background)))
+
+  const backgrounds: { value: string; role: ColorRole | 'default' }[] = parsed
+    .filter(color => color.role === 'background')
+    .map(color => ({ value: color.value!, role: 'background' as const }))
+  if (backgrounds.length === 0) {
+    backgrounds.push({ value: '#ffffff', role: 'default' })
+  }
+
+  const brandPairings: BrandPairing[] = []
+  parsed
+    .filter(color => color.role && FOREGROUND_ROLES.includes(color.role))
+    .forEach(color => {
+      backgrounds.forEach(background => {
+        const result = getContrast(color.value!, background.value)
+        const suggestion = result.aa ? undefined : suggestCompliantColor(color.value!, background.value)
+        brandPairings.push({
+          foregroundRole: color.role!,
+          backgroundRole: background.role,
+          result,
+          ...(suggestion ? { suggestion } : {})
+        })
+      })
+    })
+
+  return { colors: values, matrix, brandPairings }
+}
+
+/**
+ * WCAG and APCA contrast for text in `foreground` on `background`
+ */
+export const getContrast = (foreground: string, background: string): ContrastResult => {
+  const surface = getRenderedSurface(background) ?? [255, 255, 255]
+  const text = getRenderedText(foreground, surface) ?? [0, 0, 0]
+  const ratio = getContrastRatio(text, surface)
+  const apca = getApcaContrast(text, surface)
+
+  return {
+    foreground,
+    background,
+    ratio: Math.round(ratio * 100) / 100,
+    apca: Math.round(apca * 10) / 10,
+    aa: ratio >= WCAG_THRESHOLDS.aa,
+    aaLarge: ratio >= WCAG_THRESHOLDS.aaLarge,
+    aaa: ratio >= WCAG_THRESHOLDS.aaa,
+    aaaLarge: ratio >= WCAG_THRESHOLDS.aaaLarge,
+    apcaBody: Math.abs(apca) >= APCA_THRESHOLDS.body,
+    apcaLarge: Math.abs(apca) >= APCA_THRESHOLDS.large
+  }
+}
+
+/**
+ * Find the tint (mixed with white) or shade (mixed with black) of a color that reaches the
+ * target ratio against the background with the least change
+ */
+export const suggestCompliantColor = (
+  foreground: string,
+  background: string,
+  targetRatio: number = WCAG_THRESHOLDS.aa
+): ContrastSuggestion | undefined => {
+  const surface = getRenderedSurface(background)
+  const color = surface && getRenderedText(foreground, surface)
+  if (!color || !surface) return undefined
+
+  const candidates = (['tint', 'shade'] as const)
+    .map(kind => {
+      const target: Rgb = kind === 'tint' ? [255, 255, 255] : [0, 0, 0]
+      const mix = (amount: number): Rgb => color.map((channel, index) =>
+        Math.round(channel + (target[index] - channel) * amount)) as Rgb
+
+      if (getContrastRatio(mix(1), surface) < targetRatio) return null
+
+      // Binary search for the smallest mix that passes
+      let low = 0
+      let high = 1
+      for (let step = 0; step < 16; step++) {
+        const middle = (low + high) / 2
+        if (getContrastRatio(mix(middle), surface) >= targetRatio) high = middle
+        else low = middle
+      }
+
+      const rgb = mix(high)
+      return { amount: high, suggestion: { value: toHex(rgb), kind, ratio: Math.round(getContrastRatio(rgb, surface) * 100) / 100 } }
+    })
+    .filter((candidate): candidate is NonNullable<typeof candidate> => candidate !== null)
+    .sort((a, b) => a.amount - b.amount)
+
+  return candidates[0]?.suggestion
+}
+
+/**
+ * A background as it renders on the white page; translucent colors are composited over it
+ */
+const getRenderedSurface = (background: string): Rgb | null => {
+  const parsed = parseColorWithAlpha(background)
+  return parsed && compositeColor(parsed)
+}
+
+/**
+ * Text color as it renders on the (already composited) surface
+ */
+const getRenderedText = (foreground: string, surface: Rgb): Rgb | null => {
+  const parsed = parseColorWithAlpha(foreground)
+  return parsed && compositeColor(parsed, surface)
+}
+
+const getContrastRatio = (foreground: Rgb, background: Rgb) => {
+  const lighter = Math.max(getRelativeLuminance(foreground), getRelativeLuminance(background))
+  const darker = Math.min(getRelativeLuminance(foreground), getRelativeLuminance(background))
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+/**
+ * WCAG 2.x relative luminance
+ */
+const getRelativeLuminance = (rgb: Rgb) => {
+  const [r, g, b] = rgb.map(channel => {
+    const value = channel / 255
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4)
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/**
+ * APCA-W3 (0.0.98G-4g) lightness contrast
+ */
+const getApcaContrast = (text: Rgb, background: Rgb) => {
+  const toY = (rgb: Rgb) => {
+    const [r, g, b] = rgb.map(channel => Math.pow(channel / 255, 2.4))
+    const y = 0.2126729 * r + 0.7151522 * g + 0.072175 * b
+    // Soft clamp near black
+    return y > 0.022 ? y : y + Math.pow(0.022 - y, 1.414)
+  }
+
+  const textY = toY(text)
+  const backgroundY = toY(background)
+  if (Math.abs(backgroundY - textY) < 0.0005) return 0
+
+  let contrast: number
+  if (backgroundY > textY) {
+    // Dark text on a light background
+    contrast = (Math.pow(backgroundY, 0.56) - Math.pow(textY, 0.57)) * 1.14
+    contrast = contrast < 0.1 ? 0 : contrast - 0.027
+  } else {
+    // Light text on a dark background
+    contrast = (Math.pow(backgroundY, 0.65) - Math.pow(textY, 0.62)) * 1.14
+    contrast = contrast > -0.1 ? 0 : contrast + 0.027
+  }
+
+  return contrast * 100
+}
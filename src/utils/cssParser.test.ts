@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { extractCssUrls, flattenRules, parseDeclarationList, parseStylesheet, splitCommaList, tokenizeCss } from './cssParser'
+
+describe('CSS Parser', () => {
+  it('should tokenize strings, urls, functions and dimensions without comments', () => {
+    const tokens = tokenizeCss('a{/* b{} */background:url(x.png) rgb(0 0 0/50%) "}"}')
+      .filter(token => token.type !== 'whitespace')
+
+    expect(tokens.map(token => token.type)).toEqual([
+      'ident', '{', 'ident', ':', 'url', 'function', 'number', 'number', 'number', 'delim', 'number', ')', 'string', '}'
+    ])
+    expect(tokens[4].value).toBe('x.png')
+    expect(tokens[12].value).toBe('}')
+  })
+
+  it('should scope declarations to their selector, media query and at-rule', () => {
+    const { rules, imports } = parseStylesheet(`
+      @import url("theme.css") screen;
+      .card { color: #111 !important; &:hover { color: #222 } .title { FONT-WEIGHT: 700 } }
+      @media (prefers-color-scheme: dark) { @supports (display: grid) { .card { color: #eee } } }
+      @font-face { font-family: "Inter"; src: url(inter.woff2) format("woff2"); }
+      @-webkit-keyframes pulse { from { opacity: 0 } }
+    `)
+
+    expect(imports).toEqual([{ url: 'theme.css', media: 'screen' }])
+    expect(flattenRules(rules)).toEqual([
+      { selector: '.card', property: 'color', value: '#111', important: true },
+      { selector: '.card:hover', property: 'color', value: '#222', important: false },
+      { selector: '.card .title', property: 'font-weight', value: '700', important: false },
+      { selector: '.card', property: 'color', value: '#eee', important: false, media: '(prefers-color-scheme: dark)' },
+      { selector: '@font-face', property: 'font-family', value: '"Inter"', important: false, atRule: 'font-face' },
+      { selector: '@font-face', property: 'src', value: 'url(inter.woff2) format("woff2")', important: false, atRule: 'font-face' },
+      { selector: 'from', property: 'opacity', value: '0', important: false, atRule: 'keyframes' }
+    ])
+  })
+
+  it('should split values and find urls the way a browser reads them', () => {
+    expect(parseDeclarationList('color: red; --brand: 99, 91, 255; background: url("a;b.png")')).toEqual([
+      { property: 'color', value: 'red', important: false },
+      { property: '--brand', value: '99, 91, 255', important: false },
+      { property: 'background', value: 'url("a;b.png")', important: false }
+    ])
+    expect(splitCommaList('"Helvetica Neue", rgb(0, 0, 0), sans-serif')).toEqual(['"Helvetica Neue"', 'rgb(0, 0, 0)', 'sans-serif'])
+    expect(extractCssUrls('url(a.png), url( "b.svg" ) center, linear-gradient(red, blue)')).toEqual(['a.png', 'b.svg'])
+  })
+})
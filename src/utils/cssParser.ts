@@ -0,0 +1,454 @@
+/**
+ * CSS parser for Brrrand
+ * A tolerant tokenizer (after CSS Syntax Level 3) and a rule/declaration walker, so that
+ * extraction can tell which selector, property and media query every value belongs to
+ */
+
+export type CssTokenType =
+  | 'whitespace'
+  | 'string'
+  | 'url'
+  | 'function'
+  | 'at-keyword'
+  | 'ident'
+  | 'hash'
+  | 'number'
+  | 'delim'
+  | '{'
+  | '}'
+  | '('
+  | ')'
+  | '['
+  | ']'
+  | ';'
+  | ':'
+  | ',';
+
+export interface CssToken {
+  type: CssTokenType;
+  /** Ident, function or at-keyword name, string contents or url() contents */
+  value: string;
+  /** Source text of the token */
+  text: string;
+}
+
+export interface CssDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+/**
+ * A block of declarations with everything that scopes it
+ */
+export interface CssRule {
+  /** Selector list, with nesting resolved; at-rules such as @font-face use "@font-face" */
+  selector: string;
+  /** Enclosing @media conditions, joined with "and" */
+  media?: string;
+  /** Name of the enclosing at-rule, e.g. "font-face" or "keyframes" */
+  atRule?: string;
+  declarations: CssDeclaration[];
+}
+
+/**
+ * A declaration together with the rule it belongs to
+ */
+export interface ScopedDeclaration extends CssDeclaration {
+  selector: string;
+  media?: string;
+  atRule?: string;
+}
+
+export interface CssImport {
+  url: string;
+  media?: string;
+}
+
+export interface CssStylesheet {
+  rules: CssRule[];
+  imports: CssImport[];
+}
+
+/**
+ * At-rules whose blocks hold rules that apply unconditionally for our purposes
+ */
+const TRANSPARENT_AT_RULES = new Set(['supports', 'layer', 'container', 'scope', 'document', '-moz-document', 'starting-style']);
+
+/**
+ * At-rules whose blocks hold descriptors rather than rules
+ */
+const DESCRIPTOR_AT_RULES = new Set(['font-face', 'page', 'property', 'counter-style', 'font-palette-values', 'viewport']);
+
+const WHITESPACE = /[ \t\n\r\f]/;
+const NAME_CHAR = /[\w\u0080-\uffff-]/;
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?(?:%|-?[a-zA-Z_\u0080-\uffff][\w\u0080-\uffff-]*)?/y;
+const IDENT_PATTERN = /(?:--|-?(?:[a-zA-Z_\u0080-\uffff]|\\[\s\S]))(?:[\w\u0080-\uffff-]|\\[\s\S])*/y;
+
+/**
+ * Split CSS into tokens; comments are dropped
+ */
+export function tokenizeCss(css: string): CssToken[] {
+  const tokens: CssToken[] = [];
+  let index = 0;
+
+  const matchSticky = (pattern: RegExp) => {
+    pattern.lastIndex = index;
+    const match = pattern.exec(css);
+    return match ? match[0] : null;
+  };
+
+  while (index < css.length) {
+    const char = css[index];
+    const start = index;
+
+    // Comments
+    if (char === '/' && css[index + 1] === '*') {
+      const end = css.indexOf('*/', index + 2);
+      index = end === -1 ? css.length : end + 2;
+      continue;
+    }
+
+    // HTML comment markers left in old <style> blocks
+    if (css.startsWith('<!--', index) || css.startsWith('-->', index)) {
+      index += css[index] === '<' ? 4 : 3;
+      continue;
+    }
+
+    if (WHITESPACE.test(char)) {
+      while (index < css.length && WHITESPACE.test(css[index])) index++;
+      tokens.push({ type: 'whitespace', value: ' ', text: css.slice(start, index) });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      index++;
+      let value = '';
+      while (index < css.length && css[index] !== char && css[index] !== '\n') {
+        if (css[index] === '\\' && index + 1 < css.length) {
+          value += css[index + 1];
+          index += 2;
+        } else {
+          value += css[index++];
+        }
+      }
+      if (css[index] === char) index++;
+      tokens.push({ type: 'string', value, text: css.slice(start, index) });
+      continue;
+    }
+
+    if (char === '#' && index + 1 < css.length && (NAME_CHAR.test(css[index + 1]) || css[index + 1] === '\\')) {
+      index++;
+      while (index < css.length && NAME_CHAR.test(css[index])) index++;
+      tokens.push({ type: 'hash', value: css.slice(start + 1, index), text: css.slice(start, index) });
+      continue;
+    }
+
+    if (/[\d.+-]/.test(char)) {
+      const number = matchSticky(NUMBER_PATTERN);
+      if (number && /\d/.test(number)) {
+        index += number.length;
+        tokens.push({ type: 'number', value: number, text: number });
+        continue;
+      }
+    }
+
+    const ident = matchSticky(IDENT_PATTERN);
+    if (ident) {
+      index += ident.length;
+      if (css[index] !== '(') {
+        tokens.push({ type: 'ident', value: ident, text: ident });
+        continue;
+      }
+
+      index++;
+      if (ident.toLowerCase() === 'url') {
+        // Unquoted url() contents are a single token; quoted ones are a function with a string
+        let lookahead = index;
+        while (lookahead < css.length && WHITESPACE.test(css[lookahead])) lookahead++;
+        if (css[lookahead] !== '"' && css[lookahead] !== "'") {
+          const end = css.indexOf(')', lookahead);
+          index = end === -1 ? css.length : end + 1;
+          const value = css.slice(lookahead, end === -1 ? css.length : end).trim();
+          tokens.push({ type: 'url', value, text: css.slice(start, index) });
+          continue;
+        }
+      }
+      tokens.push({ type: 'function', value: ident, text: css.slice(start, index) });
+      continue;
+    }
+
+    if (char === '@') {
+      index++;
+      const name = matchSticky(IDENT_PATTERN);
+      if (name) {
+        index += name.length;
+        tokens.push({ type: 'at-keyword', value: name, text: css.slice(start, index) });
+        continue;
+      }
+      tokens.push({ type: 'delim', value: char, text: char });
+      continue;
+    }
+
+    index++;
+    if ('{}()[];:,'.includes(char)) {
+      tokens.push({ type: char as CssTokenType, value: char, text: char });
+    } else {
+      tokens.push({ type: 'delim', value: char, text: char });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a stylesheet into flat, fully scoped rules plus its @import statements
+ */
+export function parseStylesheet(css: string): CssStylesheet {
+  const stylesheet: CssStylesheet = { rules: [], imports: [] };
+  const parser = new BlockParser(tokenizeCss(css), stylesheet);
+  parser.parseContents({ media: [] }, true);
+  return stylesheet;
+}
+
+/**
+ * Parse the contents of a style attribute (or any bare declaration list)
+ */
+export function parseDeclarationList(text: string): CssDeclaration[] {
+  const stylesheet: CssStylesheet = { rules: [], imports: [] };
+  const parser = new BlockParser(tokenizeCss(text), stylesheet);
+  parser.parseContents({ selector: '', media: [] }, true);
+  return stylesheet.rules.flatMap(rule => rule.declarations);
+}
+
+/**
+ * Attach the selector, media and at-rule of each rule to its declarations
+ */
+export function flattenRules(rules: CssRule[]): ScopedDeclaration[] {
+  return rules.flatMap(({ selector, media, atRule, declarations }) =>
+    declarations.map(declaration => ({
+      ...declaration,
+      selector,
+      ...(media ? { media } : {}),
+      ...(atRule ? { atRule } : {})
+    }))
+  );
+}
+
+/**
+ * Split a value on top-level commas (ignoring commas inside functions and strings)
+ */
+export function splitCommaList(value: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let depth = 0;
+  tokenizeCss(value).forEach(token => {
+    if (token.type === '(' || token.type === 'function') depth++;
+    else if (token.type === ')') depth--;
+    if (token.type === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += token.text;
+    }
+  });
+  parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+/**
+ * Every url() reference in a value, e.g. the images of a `background` shorthand
+ */
+export function extractCssUrls(value: string): string[] {
+  const tokens = tokenizeCss(value).filter(token => token.type !== 'whitespace');
+  return tokens.flatMap((token, index) => {
+    if (token.type === 'url') return [token.value];
+    if (token.type === 'function' && token.value.toLowerCase() === 'url' && tokens[index + 1]?.type === 'string') {
+      return [tokens[index + 1].value];
+    }
+    return [];
+  }).filter(Boolean);
+}
+
+interface BlockContext {
+  selector?: string;
+  media: string[];
+  atRule?: string;
+}
+
+/**
+ * Recursive descent over the token list
+ */
+class BlockParser {
+  private index = 0;
+  private readonly tokens: CssToken[];
+  private readonly stylesheet: CssStylesheet;
+
+  constructor(tokens: CssToken[], stylesheet: CssStylesheet) {
+    this.tokens = tokens;
+    this.stylesheet = stylesheet;
+  }
+
+  /**
+   * Parse declarations, nested rules and at-rules until the block (or input) ends
+   */
+  parseContents(context: BlockContext, topLevel = false): void {
+    // Created on the first declaration, so a rule comes before the rules nested in it
+    let rule: CssRule | undefined;
+
+    while (this.index < this.tokens.length) {
+      const token = this.tokens[this.index];
+
+      if (token.type === '}') {
+        this.index++;
+        if (!topLevel) break;
+        continue;
+      }
+      if (token.type === 'whitespace' || token.type === ';') {
+        this.index++;
+        continue;
+      }
+
+      if (token.type === 'at-keyword') {
+        this.parseAtRule(context);
+        continue;
+      }
+
+      const end = this.findComponentEnd(this.index);
+      const terminator = this.tokens[end];
+      const component = this.tokens.slice(this.index, end);
+
+      if (terminator?.type === '{') {
+        this.index = end + 1;
+        const prelude = joinTokens(component);
+        const selector = context.atRule === 'keyframes' || context.selector === undefined
+          ? prelude
+          : resolveNestedSelector(context.selector, prelude);
+        this.parseContents({ ...context, selector });
+        continue;
+      }
+
+      this.index = terminator?.type === ';' ? end + 1 : end;
+      const declaration = parseDeclaration(component);
+      if (!declaration || context.selector === undefined) continue;
+
+      if (!rule) {
+        rule = {
+          selector: context.selector,
+          ...(context.media.length > 0 ? { media: context.media.join(' and ') } : {}),
+          ...(context.atRule ? { atRule: context.atRule } : {}),
+          declarations: []
+        };
+        this.stylesheet.rules.push(rule);
+      }
+      rule.declarations.push(declaration);
+    }
+  }
+
+  private parseAtRule(context: BlockContext): void {
+    const name = this.tokens[this.index].value.toLowerCase().replace(/^-(webkit|moz|o|ms)-(?=keyframes)/, '');
+    const end = this.findComponentEnd(this.index + 1);
+    const prelude = joinTokens(this.tokens.slice(this.index + 1, end));
+    const terminator = this.tokens[end];
+
+    if (terminator?.type !== '{') {
+      // Statement at-rules such as @import and @charset
+      if (name === 'import') {
+        const preludeTokens = this.tokens.slice(this.index + 1, end).filter(token => token.type !== 'whitespace');
+        const first = preludeTokens[0];
+        let url: string | undefined;
+        if (first?.type === 'url' || first?.type === 'string') url = first.value;
+        else if (first?.type === 'function' && first.value.toLowerCase() === 'url' && preludeTokens[1]?.type === 'string') url = preludeTokens[1].value;
+        if (url) {
+          const media = prelude.replace(/^(url\([^)]*\)|"[^"]*"|'[^']*')\s*/i, '').trim();
+          this.stylesheet.imports.push(media ? { url, media } : { url });
+        }
+      }
+      this.index = terminator?.type === ';' ? end + 1 : end;
+      return;
+    }
+
+    this.index = end + 1;
+    if (name === 'media') {
+      this.parseContents({ ...context, media: [...context.media, prelude] });
+    } else if (TRANSPARENT_AT_RULES.has(name)) {
+      this.parseContents(context);
+    } else if (DESCRIPTOR_AT_RULES.has(name)) {
+      this.parseContents({ ...context, selector: `@${name}`, atRule: name });
+    } else if (name === 'keyframes') {
+      this.parseContents({ ...context, selector: undefined, atRule: 'keyframes' });
+    } else {
+      this.skipBlock();
+    }
+  }
+
+  /**
+   * Index of the `;`, `{` or `}` that ends the component starting at `start`
+   * (nested parentheses and brackets are skipped)
+   */
+  private findComponentEnd(start: number): number {
+    let depth = 0;
+    for (let index = start; index < this.tokens.length; index++) {
+      const type = this.tokens[index].type;
+      if (type === '(' || type === '[' || type === 'function') depth++;
+      else if ((type === ')' || type === ']') && depth > 0) depth--;
+      else if (depth === 0 && (type === ';' || type === '{' || type === '}')) return index;
+    }
+    return this.tokens.length;
+  }
+
+  private skipBlock(): void {
+    let depth = 1;
+    while (this.index < this.tokens.length && depth > 0) {
+      const type = this.tokens[this.index++].type;
+      if (type === '{') depth++;
+      else if (type === '}') depth--;
+    }
+  }
+}
+
+function parseDeclaration(tokens: CssToken[]): CssDeclaration | null {
+  const colonIndex = tokens.findIndex(token => token.type === ':');
+  if (colonIndex === -1) return null;
+
+  const property = joinTokens(tokens.slice(0, colonIndex));
+  if (!/^(--|-?[a-zA-Z_])[\w-]*$/.test(property)) return null;
+
+  const valueTokens = tokens.slice(colonIndex + 1);
+
+  // Trailing "!important"
+  let important = false;
+  const meaningful = valueTokens.map((token, index) => ({ token, index })).filter(({ token }) => token.type !== 'whitespace');
+  const last = meaningful[meaningful.length - 1];
+  const beforeLast = meaningful[meaningful.length - 2];
+  if (last?.token.type === 'ident' && last.token.value.toLowerCase() === 'important' && beforeLast?.token.value === '!') {
+    important = true;
+    valueTokens.splice(beforeLast.index);
+  }
+
+  const value = joinTokens(valueTokens);
+  if (!value) return null;
+
+  return {
+    property: property.startsWith('--') ? property : property.toLowerCase(),
+    value,
+    important
+  };
+}
+
+/**
+ * Resolve a nested selector against its parent, e.g. `&:hover` in `.btn` becomes `.btn:hover`
+ */
+function resolveNestedSelector(parent: string, child: string): string {
+  if (!parent) return child;
+  const parents = splitCommaList(parent);
+  return splitCommaList(child)
+    .flatMap(childSelector => parents.map(parentSelector =>
+      childSelector.includes('&') ? childSelector.replace(/&/g, parentSelector) : `${parentSelector} ${childSelector}`
+    ))
+    .join(', ');
+}
+
+function joinTokens(tokens: CssToken[]): string {
+  return tokens.map(token => (token.type === 'whitespace' ? ' ' : token.text)).join('').trim();
+}
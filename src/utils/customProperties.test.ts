@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { collectCustomProperties, resolveCustomProperties } from './customProperties'
+import { flattenRules, parseStylesheet } from './cssParser'
+
+const propertiesOf = (css: string) => collectCustomProperties(flattenRules(parseStylesheet(css).rules))
+
+describe('Custom property resolution', () => {
+  it('should follow var() chains and report every token on the way', () => {
+    const properties = propertiesOf(`
+      :root { --brand-500: #635bff; --primary: var(--brand-500); --button-bg: var(--primary); --brand-rgb: 99, 91, 255; }
+    `)
+
+    expect(resolveCustomProperties('1px solid var(--button-bg)', properties)).toMatchObject({
+      value: '1px solid #635bff',
+      tokens: ['--button-bg', '--primary', '--brand-500']
+    })
+    expect(resolveCustomProperties('rgb(var(--brand-rgb) / 0.5)', properties)?.value).toBe('rgb(99, 91, 255 / 0.5)')
+    expect(resolveCustomProperties('#ffffff', properties)).toEqual({ value: '#ffffff', tokens: [], references: [] })
+    expect(resolveCustomProperties('linear-gradient(var(--primary), #fff)', properties)?.references).toEqual([
+      { tokens: ['--primary', '--brand-500'], value: '#635bff' }
+    ])
+  })
+
+  it('should use fallbacks for undefined and cyclic properties', () => {
+    const properties = propertiesOf(':root { --a: var(--b); --b: var(--a); --accent: #00d924; }')
+
+    expect(resolveCustomProperties('var(--missing, var(--accent, red))', properties)).toMatchObject({
+      value: '#00d924',
+      tokens: ['--accent']
+    })
+    expect(resolveCustomProperties('var(--a, #111)', properties)?.value).toBe('#111')
+    expect(resolveCustomProperties('var(--a)', properties)).toBeNull()
+    expect(resolveCustomProperties('var(--missing)', properties)).toBeNull()
+  })
+
+  it('should resolve properties that reference each other repeatedly without blowing up', () => {
+    const chain = Array.from({ length: 40 }, (_, i) => `--v${i}: var(--v${i + 1}) var(--v${i + 1});`).join(' ')
+    const properties = propertiesOf(`:root { ${chain} --v40: #fff; --short: var(--v36); }`)
+
+    expect(resolveCustomProperties('var(--v0)', properties)).toBeNull()
+    expect(resolveCustomProperties('var(--v0, #000)', properties)?.value).toBe('#000')
+    expect(resolveCustomProperties('var(--short)', properties)).toMatchObject({
+      value: '#fff #fff #fff #fff #fff #fff #fff #fff #fff #fff #fff #fff #fff #fff #fff #fff',
+      tokens: ['--short', '--v36', '--v37', '--v38', '--v39', '--v40']
+    })
+  })
+
+  it('should let later definitions override earlier ones', () => {
+    const properties = propertiesOf(':root { --bg: #ffffff } body { --bg: #fafafa }')
+    expect(resolveCustomProperties('var(--bg)', properties)?.value).toBe('#fafafa')
+  })
+})
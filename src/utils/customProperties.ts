@@ -0,0 +1,194 @@
+/**
+ * CSS custom property resolution for Brrrand
+ * Follows var() chains and fallbacks, so a value such as `var(--primary)` can be traced
+ * through `--primary: var(--brand-500)` to the color it ends up as
+ */
+import type { ScopedDeclaration } from './cssParser';
+
+/**
+ * How many var() hops to follow before treating a chain as invalid
+ */
+const MAX_VAR_DEPTH = 32;
+
+/**
+ * Longest substituted value kept; longer ones are treated as invalid, as browsers do,
+ * so properties referencing each other several times cannot grow values exponentially
+ */
+const MAX_RESOLVED_LENGTH = 4096;
+
+/**
+ * How many var() references one value may substitute before it is treated as invalid
+ */
+const MAX_SUBSTITUTIONS = 1024;
+
+/**
+ * A value with every var() reference substituted
+ */
+export interface ResolvedValue {
+  value: string;
+  /** Custom properties the value was resolved through, outermost first (e.g. ["--primary", "--brand-500"]) */
+  tokens: string[];
+  /** Each top-level var() reference with its chain, to tell which token produced which part of the value */
+  references: ResolvedReference[];
+}
+
+export interface ResolvedReference {
+  tokens: string[];
+  value: string;
+}
+
+interface ResolutionContext {
+  properties: Map<string, string>;
+  /** Resolved custom properties, or null for invalid ones */
+  resolved: Map<string, ResolvedReference | null>;
+  substitutions: number;
+  /** Set when a result depends on where resolution started (a cycle, the depth or the substitution limit) */
+  cutOff: boolean;
+}
+
+/**
+ * Resolved custom properties per property map, shared by every value resolved against it
+ */
+const resolvedPropertiesCache = new WeakMap<Map<string, string>, Map<string, ResolvedReference | null>>();
+
+/**
+ * Map every custom property to its value
+ * Later declarations win, which approximates the cascade for the usual `:root` token definitions
+ */
+export function collectCustomProperties(declarations: ScopedDeclaration[]): Map<string, string> {
+  const properties = new Map<string, string>();
+  declarations.forEach(({ property, value }) => {
+    if (property.startsWith('--')) properties.set(property, value);
+  });
+  return properties;
+}
+
+/**
+ * Substitute the var() references in a value, using fallbacks for undefined or cyclic properties
+ *
+ * @param value Declaration value, possibly containing var() references
+ * @param properties Custom property values, see {@link collectCustomProperties}
+ * @returns null when a reference cannot be resolved and has no fallback (invalid at computed-value time)
+ */
+export function resolveCustomProperties(value: string, properties: Map<string, string>): ResolvedValue | null {
+  let resolved = resolvedPropertiesCache.get(properties);
+  if (!resolved) {
+    resolved = new Map();
+    resolvedPropertiesCache.set(properties, resolved);
+  }
+
+  const references: ResolvedReference[] = [];
+  const context: ResolutionContext = { properties, resolved, substitutions: 0, cutOff: false };
+  const substituted = substituteReferences(value, context, [], references);
+  if (substituted === null) return null;
+  return { value: substituted, tokens: collectTokens([], references), references };
+}
+
+/**
+ * @param stack Properties being resolved, to detect cycles
+ * @param references Receives each var() reference of `value` with the tokens it went through
+ */
+function substituteReferences(
+  value: string,
+  context: ResolutionContext,
+  stack: string[],
+  references: ResolvedReference[]
+): string | null {
+  let result = '';
+  let index = 0;
+  const pattern = /(^|[^\w-])var\(/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(value)) !== null) {
+    if (++context.substitutions > MAX_SUBSTITUTIONS) {
+      context.cutOff = true;
+      return null;
+    }
+
+    const start = match.index + match[1].length;
+    const end = findClosingParenthesis(value, start + 3);
+    if (end === -1) return null;
+
+    // Custom property names cannot contain commas, so the first comma starts the fallback
+    const argument = value.slice(start + 4, end);
+    const commaIndex = argument.indexOf(',');
+    const name = (commaIndex === -1 ? argument : argument.slice(0, commaIndex)).trim();
+    const fallback = commaIndex === -1 ? undefined : argument.slice(commaIndex + 1).trim();
+
+    let reference = resolveProperty(name, context, stack);
+    if (reference === null && fallback !== undefined) {
+      const chain: ResolvedReference[] = [];
+      const replacement = substituteReferences(fallback, context, stack, chain);
+      if (replacement !== null) reference = { tokens: collectTokens([], chain), value: replacement };
+    }
+    if (reference === null) return null;
+    references.push(reference);
+
+    result += value.slice(index, start) + reference.value;
+    if (result.length > MAX_RESOLVED_LENGTH) return null;
+    index = end + 1;
+    pattern.lastIndex = index;
+  }
+
+  result += value.slice(index);
+  return result.length > MAX_RESOLVED_LENGTH ? null : result;
+}
+
+/**
+ * Resolve a custom property, reusing earlier results unless they depended on the cycle stack
+ *
+ * @returns null when the property is undefined, cyclic or invalid
+ */
+function resolveProperty(name: string, context: ResolutionContext, stack: string[]): ResolvedReference | null {
+  const cached = context.resolved.get(name);
+  if (cached !== undefined) return cached;
+
+  const definition = context.properties.get(name);
+  if (definition === undefined) return null;
+  if (stack.includes(name) || stack.length >= MAX_VAR_DEPTH) {
+    context.cutOff = true;
+    return null;
+  }
+
+  const outerCutOff = context.cutOff;
+  context.cutOff = false;
+
+  const chain: ResolvedReference[] = [];
+  const value = substituteReferences(definition, context, [...stack, name], chain);
+  const reference = value === null ? null : { tokens: collectTokens([name], chain), value };
+
+  if (!context.cutOff) context.resolved.set(name, reference);
+  context.cutOff = context.cutOff || outerCutOff;
+  return reference;
+}
+
+/**
+ * Tokens of a chain without duplicates, in the order they were first reached
+ */
+function collectTokens(leading: string[], chain: ResolvedReference[]): string[] {
+  const tokens = new Set(leading);
+  chain.forEach(reference => reference.tokens.forEach(token => tokens.add(token)));
+  return [...tokens];
+}
+
+/**
+ * Index of the parenthesis closing the one at `openIndex`, or -1 when it is never closed
+ */
+function findClosingParenthesis(value: string, openIndex: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let index = openIndex; index < value.length; index++) {
+    const char = value[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { generateDesignTokens, getDesignTokenFilename } from './designTokens'
+import type { AssetExtractionResult } from './assetExtraction'
+
+const result: AssetExtractionResult = {
+  success: true,
+  url: 'https://stripe.com',
+  domain: 'stripe.com',
+  extractedAt: '2024-01-01T00:00:00Z',
+  error: null,
+  assets: {
+    logos: [],
+    colors: [
+      { type: 'color', value: '#635bff', role: 'primary', usageCount: 3 },
+      { type: 'color', value: '#00d924', role: 'accent' },
+      { type: 'color', value: '#ff5996', role: 'accent' },
+      { type: 'color', value: '#abcdef' }
+    ],
+    fonts: [
+      { type: 'font', name: 'Söhne' },
+      { type: 'font', name: 'Source Code Pro' }
+    ],
+    illustrations: []
+  }
+}
+
+describe('Design tokens export', () => {
+  it('should produce W3C design tokens named after color roles', () => {
+    const tokens = JSON.parse(generateDesignTokens(result, 'dtcg'))
+
+    expect(tokens.color.primary).toEqual({ $type: 'color', $value: '#635bff', $description: 'Used 3 times' })
+    expect(tokens.color['accent-1'].$value).toBe('#00d924')
+    expect(tokens.color['accent-2'].$value).toBe('#ff5996')
+    expect(tokens.color.color.$value).toBe('#abcdef')
+    expect(tokens.fontFamily['source-code-pro'].$value).toEqual(['Source Code Pro', 'monospace'])
+    expect(tokens.fontFamily.sohne.$value).toEqual(['Söhne', 'sans-serif'])
+  })
+
+  it('should produce Style Dictionary, Tailwind, SCSS and CSS output', () => {
+    const styleDictionary = JSON.parse(generateDesignTokens(result, 'style-dictionary'))
+    expect(styleDictionary.color.brand.primary.value).toBe('#635bff')
+    expect(styleDictionary.font.family['source-code-pro'].value).toBe("'Source Code Pro', monospace")
+
+    const tailwind = generateDesignTokens(result, 'tailwind')
+    expect(tailwind).toContain('module.exports = {')
+    expect(tailwind).toContain("'primary': '#635bff',")
+    expect(tailwind).toContain(`'source-code-pro': ["Source Code Pro", 'monospace'],`)
+
+    expect(generateDesignTokens(result, 'scss')).toContain('$color-accent-2: #ff5996;')
+    expect(generateDesignTokens(result, 'css')).toMatch(/:root \{\n {2}--color-primary: #635bff;/)
+
+    expect(getDesignTokenFilename(result, 'dtcg')).toBe('stripe.com.tokens.json')
+    expect(getDesignTokenFilename(result, 'tailwind')).toBe('tailwind.config.js')
+  })
+
+  it('should keep the site\'s own token names', () => {
+    const tokens = JSON.parse(generateDesignTokens({
+      ...result,
+      assets: {
+        ...result.assets!,
+        colors: [
+          { type: 'color', value: '#635bff', role: 'primary', usageCount: 4, tokens: ['--brand-500', '--primary'] },
+          { type: 'color', value: '#00d924', role: 'accent' },
+          { type: 'color', value: '#ff5996', role: 'accent' }
+        ]
+      }
+    }, 'dtcg'))
+
+    expect(tokens.color['brand-500']).toEqual({ $type: 'color', $value: '#635bff', $description: 'Used 4 times; Also --primary' })
+    expect(Object.keys(tokens.color)).toEqual(['brand-500', 'accent-1', 'accent-2'])
+  })
+
+  it('should export the site\'s own custom properties unprefixed in CSS and SCSS', () => {
+    const siteResult: AssetExtractionResult = {
+      ...result,
+      assets: {
+        ...result.assets!,
+        colors: [
+          { type: 'color', value: '#635bff', tokens: ['--color-primary'] },
+          { type: 'color', value: '#0a2540', tokens: ['--brand-500'] },
+          { type: 'color', value: '#00d924', role: 'primary' }
+        ]
+      }
+    }
+
+    expect(generateDesignTokens(siteResult, 'css')).toContain([
+      '  --color-primary: #635bff;',
+      '  --brand-500: #0a2540;',
+      '  --color-primary-2: #00d924;'
+    ].join('\n'))
+    expect(generateDesignTokens(siteResult, 'scss')).toContain('$color-primary: #635bff;\n$brand-500: #0a2540;')
+  })
+
+  it('should not declare a property defined in several scopes twice', () => {
+    const themedResult: AssetExtractionResult = {
+      ...result,
+      assets: {
+        ...result.assets!,
+        colors: [
+          { type: 'color', value: '#ff0000', tokens: ['--primary'] },
+          { type: 'color', value: '#0000ff', tokens: ['--primary'] }
+        ]
+      }
+    }
+
+    expect(generateDesignTokens(themedResult, 'css')).toContain('  --primary: #ff0000;\n  --primary-2: #0000ff;')
+    expect(generateDesignTokens(themedResult, 'scss')).toContain('$primary: #ff0000;\n$primary-2: #0000ff;')
+  })
+})
@@ -0,0 +1,231 @@
+import type { AssetExtractionResult, BrandAsset } from './assetExtraction'
+import { isFontServicePlaceholder } from './fontProviders'
+
+export type DesignTokenFormat = 'dtcg' | 'style-dictionary' | 'tailwind' | 'scss' | 'css'
+
+export interface DesignTokenFormatInfo {
+  id: DesignTokenFormat
+  label: string
+  extension: string
+  mimeType: string
+}
+
+export const DESIGN_TOKEN_FORMATS: DesignTokenFormatInfo[] = [
+  { id: 'dtcg', label: 'Design Tokens (W3C)', extension: 'tokens.json', mimeType: 'application/json' },
+  { id: 'style-dictionary', label: 'Style Dictionary', extension: 'style-dictionary.json', mimeType: 'application/json' },
+  { id: 'tailwind', label: 'Tailwind', extension: 'tailwind.config.js', mimeType: 'text/javascript' },
+  { id: 'scss', label: 'SCSS', extension: 'scss', mimeType: 'text/x-scss' },
+  { id: 'css', label: 'CSS Variables', extension: 'css', mimeType: 'text/css' }
+]
+
+interface ColorToken {
+  name: string
+  /** CSS and SCSS variable name without `--` or `$`: the site's own property, or `color-` and the name */
+  variable: string
+  value: string
+  description?: string
+}
+
+interface FontToken {
+  name: string
+  family: string
+  fallback: string
+}
+
+interface TokenSet {
+  colors: ColorToken[]
+  fonts: FontToken[]
+}
+
+/**
+ * Turn the extracted colors and fonts into design tokens in the requested format
+ */
+export const generateDesignTokens = (extractionResult: AssetExtractionResult, format: DesignTokenFormat): string => {
+  const tokens = collectTokens(extractionResult.assets?.colors ?? [], extractionResult.assets?.fonts ?? [])
+  const source = extractionResult.domain || extractionResult.url
+
+  switch (format) {
+    case 'dtcg':
+      return toDtcg(tokens, source)
+    case 'style-dictionary':
+      return toStyleDictionary(tokens)
+    case 'tailwind':
+      return toTailwind(tokens, source)
+    case 'scss':
+      return toScss(tokens, source)
+    case 'css':
+      return toCss(tokens, source)
+  }
+}
+
+/**
+ * File name for an exported token file, e.g. "stripe.com.tokens.json"
+ */
+export const getDesignTokenFilename = (extractionResult: AssetExtractionResult, format: DesignTokenFormat) => {
+  const info = DESIGN_TOKEN_FORMATS.find(candidate => candidate.id === format)!
+  return format === 'tailwind'
+    ? info.extension
+    : `${extractionResult.domain || 'brand'}.${info.extension}`
+}
+
+/**
+ * Name colors after the site's own custom property when they have one, otherwise after
+ * their role (primary, accent-2, ...), and fonts after their family
+ */
+const collectTokens = (colors: BrandAsset[], fonts: BrandAsset[]): TokenSet => {
+  const namedColors = colors.filter(color => color.value)
+
+  // Roles with several colors are numbered from 1 so the names line up
+  const roleTotals = new Map<string, number>()
+  namedColors.filter(color => !color.tokens?.length).forEach(color => {
+    const role = color.role ?? 'color'
+    roleTotals.set(role, (roleTotals.get(role) ?? 0) + 1)
+  })
+
+  // Site properties are exported as they are, so they are reserved before role-derived variables.
+  // A property defined in several scopes (e.g. per theme) gives each value its own suffixed name
+  const usedVariables = new Set<string>()
+  const siteVariables = namedColors.map(color =>
+    color.tokens?.length ? getUniqueName(color.tokens[0].replace(/^--/, ''), usedVariables) : undefined
+  )
+
+  const roleIndexes = new Map<string, number>()
+  const usedColorNames = new Set<string>()
+  const colorTokens = namedColors.map((color, colorIndex) => {
+    const [token, ...aliases] = color.tokens ?? []
+    let name: string
+    let variable: string
+    if (token) {
+      name = getUniqueName(slugify(token.replace(/^--/, ''), 'color'), usedColorNames)
+      variable = siteVariables[colorIndex]!
+    } else {
+      const role = color.role ?? 'color'
+      const index = (roleIndexes.get(role) ?? 0) + 1
+      roleIndexes.set(role, index)
+      name = getUniqueName(roleTotals.get(role)! > 1 ? `${role}-${index}` : role, usedColorNames)
+      variable = getUniqueName(`color-${name}`, usedVariables)
+    }
+    const description = [
+      color.usageCount && `Used ${color.usageCount} times`,
+      aliases.length > 0 && `Also ${aliases.join(', ')}`
+    ].filter(Boolean).join('; ')
+    return { name, variable, value: color.value!, description: description || undefined }
+  })
+
+  const usedFontNames = new Set<string>()
+  const fontTokens = fonts
+    .filter(font => font.name && !isFontServicePlaceholder(font))
+    .map(font => ({
+      name: getUniqueName(slugify(font.name!, 'font'), usedFontNames),
+      family: font.name!,
+      fallback: getGenericFamily(font.name!)
+    }))
+
+  return { colors: colorTokens, fonts: fontTokens }
+}
+
+const toDtcg = ({ colors, fonts }: TokenSet, source: string) => {
+  const document: Record<string, unknown> = {
+    $description: `Brand tokens extracted from ${source}`,
+    color: Object.fromEntries(colors.map(color => [color.name, {
+      $type: 'color',
+      $value: color.value,
+      ...(color.description ? { $description: color.description } : {})
+    }])),
+    fontFamily: Object.fromEntries(fonts.map(font => [font.name, {
+      $type: 'fontFamily',
+      $value: [font.family, font.fallback]
+    }]))
+  }
+  return JSON.stringify(document, null, 2)
+}
+
+const toStyleDictionary = ({ colors, fonts }: TokenSet) => {
+  const document = {
+    color: {
+      brand: Object.fromEntries(colors.map(color => [color.name, {
+        value: color.value,
+        type: 'color',
+        ...(color.description ? { comment: color.description } : {})
+      }]))
+    },
+    font: {
+      family: Object.fromEntries(fonts.map(font => [font.name, {
+        value: `${quoteFamily(font.family)}, ${font.fallback}`,
+        type: 'fontFamily'
+      }]))
+    }
+  }
+  return JSON.stringify(document, null, 2)
+}
+
+const toTailwind = ({ colors, fonts }: TokenSet, source: string) => {
+  const colorLines = colors.map(color => `        '${color.name}': '${color.value}',`)
+  const fontLines = fonts.map(font => `        '${font.name}': [${JSON.stringify(font.family)}, '${font.fallback}'],`)
+
+  return [
+    `// Brand tokens extracted from ${source}`,
+    `/** @type {import('tailwindcss').Config} */`,
+    `module.exports = {`,
+    `  theme: {`,
+    `    extend: {`,
+    `      colors: {`,
+    ...colorLines,
+    `      },`,
+    `      fontFamily: {`,
+    ...fontLines,
+    `      },`,
+    `    },`,
+    `  },`,
+    `}`
+  ].join('\n')
+}
+
+const toScss = ({ colors, fonts }: TokenSet, source: string) => {
+  const lines = [
+    `// Brand tokens extracted from ${source}`,
+    '',
+    '// Colors',
+    ...colors.map(color => `$${color.variable}: ${color.value};`),
+    '',
+    '// Fonts',
+    ...fonts.map(font => `$font-${font.name}: ${quoteFamily(font.family)}, ${font.fallback};`)
+  ]
+  return lines.join('\n')
+}
+
+const toCss = ({ colors, fonts }: TokenSet, source: string) => {
+  const lines = [
+    `/* Brand tokens extracted from ${source} */`,
+    ':root {',
+    ...colors.map(color => `  --${color.variable}: ${color.value};`),
+    ...fonts.map(font => `  --font-${font.name}: ${quoteFamily(font.family)}, ${font.fallback};`),
+    '}'
+  ]
+  return lines.join('\n')
+}
+
+const slugify = (name: string, fallback: string) =>
+  name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || fallback
+
+/**
+ * Add a numeric suffix until the name is not taken yet, then reserve it
+ */
+const getUniqueName = (base: string, used: Set<string>) => {
+  let name = base
+  for (let suffix = 2; used.has(name); suffix++) name = `${base}-${suffix}`
+  used.add(name)
+  return name
+}
+
+const quoteFamily = (family: string) => `'${family.replace(/'/g, "\\'")}'`
+
+/**
+ * Best guess at the generic family to fall back to
+ */
+const getGenericFamily = (name: string) => {
+  const lower = name.toLowerCase()
+  if (/mono|code|consol|courier/.test(lower)) return 'monospace'
+  if (/serif/.test(lower) && !/sans/.test(lower)) return 'serif'
+  return 'sans-serif'
+}
@@ -1,17 +1,24 @@
 import type { AssetExtractionResult } from './assetExtraction'
+import { createAssetArchive, getAssetFilename, sanitizeDownloadedFile } from './assetBundle'
+import { getProxyUrl } from './proxyUtils'
+import { rasterizeImage, type RasterOptions } from './rasterize'
 
 export const downloadAsset = async (url: string, filename: string) => {
   try {
-    const response = await fetch(url, { mode: 'cors' })
+    // Remote files go through the proxy, which passes binary bodies through untouched
+    const requestUrl = url.startsWith('data:') ? url : getProxyUrl(url)
+    const response = await fetch(requestUrl, { mode: 'cors' })
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`)
+    }
     const blob = await response.blob()
-    const downloadUrl = window.URL.createObjectURL(blob)
-    const link = document.createElement('a')
-    link.href = downloadUrl
-    link.download = filename
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
-    window.URL.revokeObjectURL(downloadUrl)
+    // Downloaded SVGs get the same cleanup as inline ones
+    const data = sanitizeDownloadedFile(new Uint8Array(await blob.arrayBuffer()), blob.type)
+    if (data === null) {
+      console.warn('Skipped an SVG with nothing safe to draw:', url)
+      return
+    }
+    saveBlob(typeof data === 'string' ? new Blob([data], { type: 'image/svg+xml' }) : blob, filename)
   } catch (error) {
     console.error('Download failed:', error)
     // Fallback: open in new tab
@@ -19,58 +26,38 @@ export const downloadAsset = async (url: string, filename: string) => {
   }
 }
 
+// Failures are rethrown so the export control can tell the user why nothing was saved
+export const downloadRasterAsset = async (url: string, fallbackName: string, options: RasterOptions) => {
+  try {
+    // Converted files are named after their new format and size, e.g. logo-512x512.png
+    const { blob, image } = await rasterizeImage(url, options)
+    saveBlob(blob, getAssetFilename(url, fallbackName, undefined, image))
+  } catch (error) {
+    console.error('Conversion failed:', error)
+    throw error
+  }
+}
+
 export const downloadAllAssets = async (extractionResult: AssetExtractionResult) => {
   if (!extractionResult?.assets) return
 
-  const { logos, colors, fonts, illustrations } = extractionResult.assets
   const domain = extractionResult.domain || 'assets'
 
-  // Create a text file with asset information
-  let assetsText = `Brand Assets from ${domain}\n`
-  assetsText += `Generated on ${new Date().toLocaleString()}\n\n`
-
-  if (logos.length > 0) {
-    assetsText += `LOGOS (${logos.length}):\n`
-    logos.forEach((logo, index) => {
-      assetsText += `${index + 1}. ${logo.alt || 'Logo'}: ${logo.url}\n`
-    })
-    assetsText += '\n'
+  // Fetch every asset and package them into a structured ZIP archive
+  const { zip, failures } = await createAssetArchive(extractionResult)
+  if (failures.length > 0) {
+    console.warn(`${failures.length} asset(s) could not be added to the bundle`, failures)
   }
 
-  if (colors.length > 0) {
-    assetsText += `COLORS (${colors.length}):\n`
-    colors.forEach((color, index) => {
-      assetsText += `${index + 1}. ${color.value}\n`
-    })
-    assetsText += '\n'
-  }
-
-  if (fonts.length > 0) {
-    assetsText += `FONTS (${fonts.length}):\n`
-    fonts.forEach((font, index) => {
-      assetsText += `${index + 1}. ${font.name}${font.url ? `\n   URL: ${font.url}` : ''}\n`
-      // Add CSS import suggestion for Google Fonts
-      if (font.url && font.url.includes('fonts.googleapis.com') && font.name) {
-        const fontFamily = font.name.replace(/\s+/g, '+')
-        assetsText += `   CSS Import: @import url('https://fonts.googleapis.com/css2?family=${fontFamily}&display=swap');\n`
-      }
-    })
-    assetsText += '\n'
-  }
-
-  if (illustrations.length > 0) {
-    assetsText += `ILLUSTRATIONS (${illustrations.length}):\n`
-    illustrations.forEach((illustration, index) => {
-      assetsText += `${index + 1}. ${illustration.alt || 'Illustration'}: ${illustration.url}\n`
-    })
-  }
+  const blob = await zip.generateAsync({ type: 'blob' })
+  saveBlob(blob, `${domain}-brand-assets.zip`)
+}
 
-  // Download the assets list as a text file
-  const blob = new Blob([assetsText], { type: 'text/plain' })
+export const saveBlob = (blob: Blob, filename: string) => {
   const url = window.URL.createObjectURL(blob)
   const link = document.createElement('a')
   link.href = url
-  link.download = `${domain}-brand-assets.txt`
+  link.download = filename
   document.body.appendChild(link)
   link.click()
   document.body.removeChild(link)
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { classifyFonts, identifyFontService } from './fontProviders'
+import type { BrandAsset } from './assetExtraction'
+
+const face = (url: string) => ({ weight: '400', style: 'normal', sources: [{ url }] })
+
+describe('Font providers', () => {
+  it('should read families and kit IDs from font service URLs', () => {
+    expect(identifyFontService('https://fonts.googleapis.com/css2?family=Inter:wght@400;700&family=Roboto+Mono&display=swap')).toEqual({
+      provider: 'google',
+      families: ['Inter', 'Roboto Mono']
+    })
+    expect(identifyFontService('https://fonts.googleapis.com/css?family=Open+Sans:400,700|Lato')?.families).toEqual(['Open Sans', 'Lato'])
+    expect(identifyFontService('https://fonts.bunny.net/css?family=open-sans:400|inter:500')?.families).toEqual(['Open Sans', 'Inter'])
+    expect(identifyFontService('https://api.fontshare.com/v2/css?f[]=general-sans@500&display=swap')).toEqual({
+      provider: 'fontshare',
+      families: ['General Sans']
+    })
+    expect(identifyFontService('https://use.typekit.net/abc1def.css')).toEqual({ provider: 'adobe', families: [], kitId: 'abc1def' })
+    expect(identifyFontService('https://fast.fonts.net/cssapi/0e0d9f4c-1234-4a8b-9c4d-1e2f3a4b5c6d.css')?.kitId).toBe('0e0d9f4c-1234-4a8b-9c4d-1e2f3a4b5c6d')
+    expect(identifyFontService('https://example.com/styles.css')).toBeNull()
+  })
+
+  it('should classify providers and license hints', () => {
+    const fonts: BrandAsset[] = [
+      { type: 'font', name: 'Adobe Fonts', url: 'https://use.typekit.net/abc1def.css', source: 'link' },
+      { type: 'font', name: 'proxima-nova', url: 'https://use.typekit.net/abc1def.css', faces: [face('https://use.typekit.net/af/1a2b3c/l')], source: 'css' },
+      { type: 'font', name: 'Inter', faces: [face('https://example.com/fonts/inter.woff2')], source: 'css' },
+      { type: 'font', name: 'Brand Sans', faces: [face('https://cdn.example.net/brand-sans.woff2')], source: 'css' },
+      { type: 'font', name: 'Roboto', faces: [face('https://fonts.gstatic.com/s/roboto/v30/a.woff2')], source: 'css' },
+      { type: 'font', name: 'Helvetica Neue', source: 'css' },
+      { type: 'font', name: 'Circular Std', source: 'css' }
+    ]
+
+    const classified = classifyFonts(fonts)
+    const byName = (name: string) => classified.find(font => font.name === name)
+
+    expect(byName('Adobe Fonts')).toBeUndefined()
+    expect(byName('proxima-nova')).toMatchObject({ provider: 'adobe', kitId: 'abc1def', license: 'commercial', alternatives: ['Montserrat', 'Figtree'] })
+    expect(byName('Inter')).toMatchObject({ provider: 'self-hosted', license: 'open' })
+    expect(byName('Inter')?.alternatives).toBeUndefined()
+    expect(byName('Brand Sans')).toMatchObject({ provider: 'self-hosted', license: 'unknown' })
+    expect(byName('Roboto')).toMatchObject({ provider: 'google', license: 'open' })
+    expect(byName('Helvetica Neue')).toMatchObject({ provider: 'system', license: 'commercial', alternatives: ['Inter', 'Arimo'] })
+    expect(byName('Circular Std')).toMatchObject({ license: 'commercial', alternatives: ['DM Sans', 'Plus Jakarta Sans'] })
+    expect(byName('Circular Std')?.provider).toBeUndefined()
+  })
+
+  it('should keep kit placeholders when no family of the kit was found', () => {
+    const [kit] = classifyFonts([{ type: 'font', name: 'Adobe Fonts', url: 'https://use.typekit.net/xyz9876.css', source: 'link' }])
+    expect(kit).toMatchObject({ provider: 'adobe', kitId: 'xyz9876', license: 'commercial' })
+  })
+})
@@ -0,0 +1,274 @@
+/**
+ * Font provider and licensing classification for Brrrand
+ * Tells where each font is served from (Google Fonts, an Adobe Fonts kit, self-hosted files, ...)
+ * and whether the client's font can be reused freely, suggesting open alternatives when it cannot
+ */
+import type { BrandAsset, FontLicense, FontProvider } from './assetTypes';
+
+/**
+ * Display names of the providers
+ */
+export const FONT_PROVIDER_LABELS: Record<FontProvider, string> = {
+  google: 'Google Fonts',
+  adobe: 'Adobe Fonts',
+  fontshare: 'Fontshare',
+  bunny: 'Bunny Fonts',
+  'fonts.com': 'Fonts.com',
+  myfonts: 'MyFonts',
+  'self-hosted': 'Self-hosted',
+  system: 'System font'
+};
+
+/**
+ * A stylesheet URL of a font service, with the families it loads when the URL names them
+ */
+export interface FontServiceLink {
+  provider: FontProvider;
+  families: string[];
+  /** Adobe Fonts kit or Fonts.com project ID */
+  kitId?: string;
+}
+
+/**
+ * Hosts font files are served from, for fonts we only know through their @font-face rules
+ */
+const FONT_FILE_HOSTS: [RegExp, FontProvider][] = [
+  [/(^|\.)fonts\.gstatic\.com$/, 'google'],
+  [/(^|\.)typekit\.(net|com)$/, 'adobe'],
+  [/(^|\.)fontshare\.com$/, 'fontshare'],
+  [/(^|\.)fonts\.bunny\.net$/, 'bunny'],
+  [/(^|\.)fonts\.(net|com)$/, 'fonts.com'],
+  [/(^|\.)myfonts\.(net|com)$/, 'myfonts']
+];
+
+const OPEN_PROVIDERS = new Set<FontProvider>(['google', 'fontshare', 'bunny']);
+const COMMERCIAL_PROVIDERS = new Set<FontProvider>(['adobe', 'fonts.com', 'myfonts']);
+
+/**
+ * Fonts that ship with operating systems; they can be referenced but not redistributed
+ */
+const SYSTEM_FONTS = new Set([
+  'arial', 'helvetica', 'helvetica neue', 'segoe ui', 'sf pro', 'sf pro text', 'sf pro display', 'san francisco',
+  'times', 'times new roman', 'georgia', 'verdana', 'tahoma', 'trebuchet ms', 'courier', 'courier new',
+  'menlo', 'monaco', 'consolas', 'sf mono', 'lucida grande', 'lucida console', 'calibri', 'cambria',
+  'apple color emoji', 'segoe ui emoji', 'segoe ui symbol', 'noto color emoji'
+]);
+
+/**
+ * Widely used families published under the SIL Open Font License or Apache License
+ */
+const OPEN_FONTS = new Set([
+  'inter', 'roboto', 'roboto mono', 'roboto slab', 'roboto flex', 'open sans', 'lato', 'montserrat', 'poppins',
+  'source sans 3', 'source sans', 'source serif 4', 'source serif', 'source code', 'noto sans', 'noto serif',
+  'nunito', 'nunito sans', 'raleway', 'work sans', 'dm sans', 'dm serif display', 'dm mono', 'ibm plex sans',
+  'ibm plex serif', 'ibm plex mono', 'jetbrains mono', 'fira sans', 'fira code', 'fira mono', 'manrope',
+  'space grotesk', 'space mono', 'rubik', 'outfit', 'plus jakarta sans', 'playfair display', 'merriweather',
+  'pt sans', 'pt serif', 'oswald', 'ubuntu', 'karla', 'barlow', 'mulish', 'figtree', 'lexend', 'sora',
+  'urbanist', 'jost', 'libre franklin', 'libre baskerville', 'eb garamond', 'cormorant garamond', 'crimson pro',
+  'fraunces', 'bitter', 'arimo', 'tinos', 'cousine', 'inconsolata', 'geist', 'geist mono', 'public sans',
+  'red hat display', 'red hat text', 'archivo', 'be vietnam pro', 'instrument sans', 'instrument serif',
+  'schibsted grotesk', 'onest', 'satoshi', 'general sans', 'cabinet grotesk', 'clash display', 'switzer'
+]);
+
+/**
+ * Open alternatives (all on Google Fonts) for popular commercial and system families
+ */
+const FREE_ALTERNATIVES: Record<string, string[]> = {
+  'helvetica': ['Inter', 'Arimo'],
+  'helvetica neue': ['Inter', 'Arimo'],
+  'neue haas grotesk': ['Inter', 'Schibsted Grotesk'],
+  'neue haas unica': ['Inter', 'Schibsted Grotesk'],
+  'arial': ['Arimo', 'Inter'],
+  'akzidenz grotesk': ['Inter', 'Work Sans'],
+  'aktiv grotesk': ['Inter', 'Work Sans'],
+  'univers': ['Roboto', 'Inter'],
+  'frutiger': ['Hind', 'Noto Sans'],
+  'segoe ui': ['Noto Sans', 'Open Sans'],
+  'sf pro': ['Inter'],
+  'sf pro text': ['Inter'],
+  'sf pro display': ['Inter'],
+  'san francisco': ['Inter'],
+  'proxima nova': ['Montserrat', 'Figtree'],
+  'gotham': ['Montserrat', 'Figtree'],
+  'futura': ['Jost', 'Nunito Sans'],
+  'futura pt': ['Jost', 'Nunito Sans'],
+  'avenir': ['Nunito Sans', 'Mulish'],
+  'avenir next': ['Nunito Sans', 'Mulish'],
+  'gill sans': ['Lato', 'Cabin'],
+  'circular': ['DM Sans', 'Plus Jakarta Sans'],
+  'circular std': ['DM Sans', 'Plus Jakarta Sans'],
+  'graphik': ['Inter', 'Manrope'],
+  'gt america': ['Inter', 'Archivo'],
+  'gt walsheim': ['DM Sans', 'Outfit'],
+  'söhne': ['Inter', 'Schibsted Grotesk'],
+  'sohne': ['Inter', 'Schibsted Grotesk'],
+  'apercu': ['Work Sans', 'DM Sans'],
+  'gilroy': ['Plus Jakarta Sans', 'Manrope'],
+  'sofia pro': ['Outfit', 'Nunito Sans'],
+  'brandon grotesque': ['Josefin Sans', 'Figtree'],
+  'museo sans': ['Nunito Sans', 'Mulish'],
+  'myriad': ['Source Sans 3', 'PT Sans'],
+  'whitney': ['Source Sans 3', 'Figtree'],
+  'benton sans': ['Libre Franklin', 'Public Sans'],
+  'franklin gothic': ['Libre Franklin'],
+  'din': ['Barlow'],
+  'din next': ['Barlow'],
+  'calibri': ['Carlito'],
+  'cambria': ['Caladea'],
+  'times': ['Tinos', 'Libre Baskerville'],
+  'times new roman': ['Tinos', 'Libre Baskerville'],
+  'georgia': ['Gelasio', 'Merriweather'],
+  'garamond': ['EB Garamond', 'Cormorant Garamond'],
+  'adobe garamond': ['EB Garamond', 'Cormorant Garamond'],
+  'caslon': ['Libre Caslon Text'],
+  'baskerville': ['Libre Baskerville'],
+  'didot': ['Playfair Display', 'Bodoni Moda'],
+  'bodoni': ['Bodoni Moda'],
+  'freight text': ['Source Serif 4', 'Crimson Pro'],
+  'tiempos': ['Source Serif 4', 'Newsreader'],
+  'tiempos text': ['Source Serif 4', 'Newsreader'],
+  'tiempos headline': ['Fraunces', 'Playfair Display'],
+  'canela': ['Fraunces', 'Cormorant'],
+  'publico': ['Merriweather', 'Source Serif 4'],
+  'verdana': ['Noto Sans', 'PT Sans'],
+  'courier new': ['Cousine', 'Courier Prime'],
+  'consolas': ['Inconsolata', 'JetBrains Mono'],
+  'menlo': ['JetBrains Mono', 'Fira Code'],
+  'monaco': ['JetBrains Mono', 'Fira Code'],
+  'sf mono': ['JetBrains Mono', 'Roboto Mono'],
+  'operator mono': ['JetBrains Mono', 'Fira Code']
+};
+
+/**
+ * Recognize the stylesheet URL of a font service and the families it requests
+ *
+ * @returns null for URLs that do not belong to a known font service
+ */
+export function identifyFontService(href: string): FontServiceLink | null {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase();
+
+  // css?family=Open+Sans:400,700|Roboto and css2?family=Inter:wght@400;700&family=Roboto+Mono
+  if (host === 'fonts.googleapis.com' || host === 'fonts.bunny.net') {
+    const families = url.searchParams.getAll('family')
+      .flatMap(family => family.split('|'))
+      .map(family => family.split(':')[0].trim())
+      .filter(Boolean);
+    return host === 'fonts.bunny.net'
+      ? { provider: 'bunny', families: families.map(toTitleCase) }
+      : { provider: 'google', families };
+  }
+
+  // v2/css?f[]=satoshi@400,700&f[]=general-sans@500
+  if (host === 'api.fontshare.com') {
+    const families = url.searchParams.getAll('f[]').map(family => toTitleCase(family.split('@')[0])).filter(Boolean);
+    return { provider: 'fontshare', families };
+  }
+
+  // use.typekit.net/abc1234.css
+  if (/(^|\.)typekit\.(net|com)$/.test(host) || host === 'use.adobe.com') {
+    const kitMatch = url.pathname.match(/^\/([a-z0-9]+)\.(?:css|js)$/i);
+    return kitMatch ? { provider: 'adobe', families: [], kitId: kitMatch[1] } : { provider: 'adobe', families: [] };
+  }
+
+  // fast.fonts.net/cssapi/<project id>.css
+  if (host === 'fast.fonts.net' || host === 'fast.fonts.com') {
+    const projectMatch = url.pathname.match(/\/(?:css|js)api\/([\w-]+)\.(?:css|js)$/i);
+    return projectMatch ? { provider: 'fonts.com', families: [], kitId: projectMatch[1] } : { provider: 'fonts.com', families: [] };
+  }
+
+  if (/(^|\.)myfonts\.(net|com)$/.test(host)) {
+    return { provider: 'myfonts', families: [] };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a font asset only stands for a kit whose families we could not list (e.g. "Adobe Fonts")
+ */
+export function isFontServicePlaceholder(font: BrandAsset): boolean {
+  return font.source === 'link' && !!font.provider && font.name === FONT_PROVIDER_LABELS[font.provider];
+}
+
+/**
+ * Add provider, kit ID, license hint and free alternatives to deduplicated font assets
+ * Kit placeholders are dropped once families from the same kit have been found.
+ */
+export function classifyFonts(fonts: BrandAsset[]): BrandAsset[] {
+  const classified = fonts.map(classifyFont);
+
+  return classified.filter(font =>
+    !isFontServicePlaceholder(font) ||
+    !classified.some(other => other !== font && other.provider === font.provider && other.kitId === font.kitId)
+  );
+}
+
+function classifyFont(font: BrandAsset): BrandAsset {
+  const service = font.url ? identifyFontService(font.url) : null;
+  const provider = service?.provider ?? getFileProvider(font) ?? (isSystemFont(font.name) ? 'system' : undefined);
+  const license = getLicense(provider, font.name);
+  const alternativesKey = getFamilyKeys(font.name).find(key => key in FREE_ALTERNATIVES);
+  const alternatives = license === 'open' || !alternativesKey ? undefined : FREE_ALTERNATIVES[alternativesKey];
+
+  return {
+    ...font,
+    ...(provider ? { provider } : {}),
+    ...(service?.kitId ? { kitId: service.kitId } : {}),
+    license,
+    ...(alternatives ? { alternatives } : {})
+  };
+}
+
+/**
+ * Provider of the font files, or self-hosted when they are served from anywhere else
+ */
+function getFileProvider(font: BrandAsset): FontProvider | undefined {
+  const sources = font.faces?.flatMap(face => face.sources) ?? [];
+  if (sources.length === 0) return undefined;
+
+  for (const source of sources) {
+    try {
+      const host = new URL(source.url).hostname.toLowerCase();
+      const match = FONT_FILE_HOSTS.find(([pattern]) => pattern.test(host));
+      if (match) return match[1];
+    } catch {
+      // Sources are validated during extraction; skip anything that slipped through
+    }
+  }
+  return 'self-hosted';
+}
+
+function getLicense(provider: FontProvider | undefined, name: string | undefined): FontLicense {
+  if (provider && OPEN_PROVIDERS.has(provider)) return 'open';
+  if (provider && COMMERCIAL_PROVIDERS.has(provider)) return 'commercial';
+
+  const keys = getFamilyKeys(name);
+  if (keys.some(key => OPEN_FONTS.has(key))) return 'open';
+  if (keys.some(key => key in FREE_ALTERNATIVES)) return 'commercial';
+  return 'unknown';
+}
+
+function isSystemFont(name: string | undefined): boolean {
+  return getFamilyKeys(name).some(key => SYSTEM_FONTS.has(key));
+}
+
+/**
+ * Lowercase family name, then the same without foundry suffixes, so that "proxima-nova",
+ * "Proxima Nova W01" and "SF Pro" all find their entries
+ */
+function getFamilyKeys(name: string | undefined): string[] {
+  if (!name) return [];
+  const base = name.toLowerCase().replace(/[-_\s]+/g, ' ').trim();
+  const stripped = base.replace(/(\s+(pro|std|lt|web|w\d+|vf|variable))+$/, '');
+  return stripped === base ? [base] : [base, stripped];
+}
+
+function toTitleCase(slug: string): string {
+  return slug.replace(/[-_+]+/g, ' ').trim().replace(/\b\w/g, letter => letter.toUpperCase());
+}
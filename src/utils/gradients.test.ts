@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { extractGradients, findGradients, parseGradient, toGradientCss } from './gradients'
+
+describe('Gradients', () => {
+  it('should find gradients with nested color functions', () => {
+    const css = 'background: url(a.png), linear-gradient(to right, rgb(99 91 255 / 50%) 10%, #0a2540); color: red'
+    expect(findGradients(css)).toEqual(['linear-gradient(to right, rgb(99 91 255 / 50%) 10%, #0a2540)'])
+  })
+
+  it('should parse linear, radial and conic gradients', () => {
+    expect(parseGradient('linear-gradient(to right, rgb(99 91 255 / 50%) 10%, #0A2540)')).toEqual({
+      kind: 'linear',
+      repeating: false,
+      angle: 90,
+      stops: [
+        { color: 'rgba(99, 91, 255, 0.5)', position: '10%' },
+        { color: '#0a2540' }
+      ]
+    })
+
+    expect(parseGradient('radial-gradient(circle at top left, #fff, 40%, #000 80%)')).toEqual({
+      kind: 'radial',
+      repeating: false,
+      shape: 'circle at top left',
+      stops: [{ color: '#ffffff' }, { color: '#000000', position: '80%' }]
+    })
+
+    const conic = parseGradient('repeating-conic-gradient(from 0.25turn at 50% 50%, red 0 10%, blue 10% 20%)')!
+    expect(conic).toMatchObject({ kind: 'conic', repeating: true, angle: 90, shape: 'at 50% 50%' })
+    expect(toGradientCss(conic)).toBe('repeating-conic-gradient(from 90deg at 50% 50%, #ff0000 0 10%, #0000ff 10% 20%)')
+  })
+
+  it('should skip gradients with unresolved stops', () => {
+    expect(parseGradient('linear-gradient(var(--from), var(--to))')).toBeNull()
+    expect(parseGradient('linear-gradient(45deg, #fff)')).toBeNull()
+  })
+
+  it('should deduplicate equivalent gradients and count their uses', () => {
+    const gradients = extractGradients([
+      'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+      'linear-gradient(90deg, #10a37f, #1a73e8)',
+      'linear-gradient( 135deg , #667EEA 0% , rgb(118, 75, 162) 100% )'
+    ])
+
+    expect(gradients).toHaveLength(2)
+    expect(gradients[0].value).toBe('linear-gradient(135deg, #667eea 0%, #764ba2 100%)')
+    expect(gradients[0].usageCount).toBe(2)
+    expect(gradients[0].type).toBe('gradient')
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * CSS gradient extraction for Brrrand
+ * Captures linear, radial and conic gradients (including repeating ones) as brand assets
+ * instead of scattering their stops across the color palette
+ */
+import type { BrandAsset, GradientDefinition, GradientStop } from './assetTypes';
+import { parseColorWithAlpha, toCanonicalColor } from './colorModel';
+
+const GRADIENT_START_PATTERN = /\b(repeating-)?(linear|radial|conic)-gradient\(/gi;
+
+const SIDE_ANGLES: Record<string, number> = {
+  top: 0,
+  right: 90,
+  bottom: 180,
+  left: 270
+};
+
+/**
+ * Find every gradient function in a CSS value or stylesheet, with balanced parentheses
+ */
+export function findGradients(text: string): string[] {
+  const gradients: string[] = [];
+  GRADIENT_START_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = GRADIENT_START_PATTERN.exec(text)) !== null) {
+    let depth = 0;
+    let end = -1;
+    for (let index = match.index + match[0].length - 1; index < text.length; index++) {
+      if (text[index] === '(') depth++;
+      else if (text[index] === ')' && --depth === 0) {
+        end = index;
+        break;
+      }
+    }
+    if (end === -1) break;
+
+    gradients.push(text.slice(match.index, end + 1));
+    GRADIENT_START_PATTERN.lastIndex = end + 1;
+  }
+
+  return gradients;
+}
+
+/**
+ * Parse a gradient function into its kind, angle, shape and color stops
+ *
+ * @returns null when the value is not a gradient or its colors cannot be resolved (e.g. var() stops)
+ */
+export function parseGradient(value: string): GradientDefinition | null {
+  const match = value.trim().match(/^(repeating-)?(linear|radial|conic)-gradient\(([\s\S]*)\)$/i);
+  if (!match) return null;
+
+  const kind = match[2].toLowerCase() as GradientDefinition['kind'];
+  const args = splitTopLevel(match[3], ',').map(arg => arg.trim()).filter(Boolean);
+  if (args.length === 0) return null;
+
+  const definition: GradientDefinition = { kind, repeating: !!match[1], stops: [] };
+
+  // The first argument configures the gradient unless it starts with a color
+  if (!parseStop(args[0])) {
+    applyConfiguration(definition, args.shift()!.toLowerCase());
+  }
+
+  for (const arg of args) {
+    // Bare positions are interpolation hints, not stops
+    if (/^[\d.+-]+(%|[a-z]+)?$/i.test(arg)) continue;
+    const stop = parseStop(arg);
+    if (!stop) return null;
+    definition.stops.push(stop);
+  }
+
+  return definition.stops.length >= 2 ? definition : null;
+}
+
+/**
+ * Serialize a gradient back to CSS in a canonical form, so equivalent gradients compare equal
+ */
+export function toGradientCss(gradient: GradientDefinition): string {
+  const configuration = (() => {
+    switch (gradient.kind) {
+      case 'linear':
+        return gradient.angle !== undefined ? `${gradient.angle}deg` : gradient.shape;
+      case 'conic':
+        return [gradient.angle !== undefined && `from ${gradient.angle}deg`, gradient.shape].filter(Boolean).join(' ');
+      case 'radial':
+        return gradient.shape;
+    }
+  })();
+
+  const stops = gradient.stops.map(stop => (stop.position ? `${stop.color} ${stop.position}` : stop.color));
+  const name = `${gradient.repeating ? 'repeating-' : ''}${gradient.kind}-gradient`;
+  return `${name}(${[configuration, ...stops].filter(Boolean).join(', ')})`;
+}
+
+/**
+ * Extract unique gradients from CSS values, most used first
+ *
+ * @param values Declaration values (or any CSS text) to search
+ */
+export function extractGradients(values: string[]): BrandAsset[] {
+  const gradients = new Map<string, BrandAsset>();
+
+  values.forEach(value => {
+    findGradients(value).forEach(found => {
+      const gradient = parseGradient(found);
+      if (!gradient) return;
+
+      const css = toGradientCss(gradient);
+      const existing = gradients.get(css);
+      if (existing) {
+        existing.usageCount = (existing.usageCount ?? 1) + 1;
+      } else {
+        gradients.set(css, { type: 'gradient', value: css, gradient, source: 'css', usageCount: 1 });
+      }
+    });
+  });
+
+  return [...gradients.values()].sort((a, b) => (b.usageCount ?? 0) - (a.usageCount ?? 0));
+}
+
+function applyConfiguration(definition: GradientDefinition, configuration: string): void {
+  if (definition.kind === 'linear') {
+    const sides = configuration.match(/^to\s+(top|right|bottom|left)(?:\s+(top|right|bottom|left))?$/);
+    if (sides && !sides[2]) {
+      definition.angle = SIDE_ANGLES[sides[1]];
+      return;
+    }
+    const angle = parseAngle(configuration);
+    if (angle !== null) definition.angle = angle;
+    else definition.shape = configuration.replace(/\s+/g, ' ');
+    return;
+  }
+
+  if (definition.kind === 'conic') {
+    const from = configuration.match(/from\s+(\S+)/);
+    const angle = from ? parseAngle(from[1]) : null;
+    if (angle !== null) definition.angle = angle;
+    const rest = configuration.replace(/from\s+\S+/, '').trim().replace(/\s+/g, ' ');
+    if (rest) definition.shape = rest;
+    return;
+  }
+
+  definition.shape = configuration.replace(/\s+/g, ' ');
+}
+
+function parseStop(arg: string): GradientStop | null {
+  // The color is either a function such as rgb(...) or the first word
+  const functionMatch = arg.match(/^[a-z-]+\(/i);
+  let colorEnd = arg.search(/\s/);
+  if (functionMatch) {
+    colorEnd = arg.indexOf(')', functionMatch[0].length) + 1;
+    if (colorEnd === 0) return null;
+  }
+  if (colorEnd === -1) colorEnd = arg.length;
+
+  const parsed = parseColorWithAlpha(arg.slice(0, colorEnd));
+  if (!parsed) return null;
+
+  const position = arg.slice(colorEnd).trim().replace(/\s+/g, ' ');
+  return position ? { color: toCanonicalColor(parsed), position } : { color: toCanonicalColor(parsed) };
+}
+
+/**
+ * Angle in degrees, rounded to two decimals
+ */
+function parseAngle(value: string): number | null {
+  const match = value.match(/^([+-]?(?:\d+\.?\d*|\.\d+))(deg|grad|rad|turn)$/);
+  if (!match) return null;
+
+  const number = parseFloat(match[1]);
+  const degrees = {
+    deg: number,
+    grad: number * 0.9,
+    rad: number * 180 / Math.PI,
+    turn: number * 360
+  }[match[2] as 'deg' | 'grad' | 'rad' | 'turn'];
+  return Math.round(degrees * 100) / 100;
+}
+
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest'
+import { sniffImage, probeImage, getImageMetadataLabels, fetchImageHeadThroughProxy } from './imageProbe'
+
+const bytes = (...parts: (number[] | string)[]) =>
+  new Uint8Array(parts.flatMap(part => (typeof part === 'string' ? [...part].map(char => char.charCodeAt(0)) : part)))
+
+const uint32BE = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+const uint16LE = (value: number) => [value & 0xff, (value >>> 8) & 0xff]
+
+const png = (width: number, height: number, colorType: number, ...chunks: string[]) => bytes(
+  [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  uint32BE(13), 'IHDR', uint32BE(width), uint32BE(height), [8, colorType, 0, 0, 0], uint32BE(0),
+  ...chunks.flatMap(type => [uint32BE(0), type, uint32BE(0)]),
+  uint32BE(0), 'IDAT', uint32BE(0)
+)
+
+describe('Image Probe', () => {
+  describe('sniffImage', () => {
+    it('should read PNG dimensions and alpha from the color type or a tRNS chunk', () => {
+      expect(sniffImage(png(1024, 512, 6))).toEqual({ mimeType: 'image/png', extension: 'png', width: 1024, height: 512, hasAlpha: true })
+      expect(sniffImage(png(16, 16, 2))).toMatchObject({ width: 16, height: 16, hasAlpha: false })
+      expect(sniffImage(png(32, 32, 3, 'PLTE', 'tRNS'))).toMatchObject({ hasAlpha: true })
+    })
+
+    it('should find the JPEG frame header after other segments', () => {
+      const jpeg = bytes(
+        [0xff, 0xd8],
+        [0xff, 0xe0, 0x00, 0x06], 'JFIF',
+        [0xff, 0xc2, 0x00, 0x0b, 0x08], [0x01, 0xe0], [0x02, 0x80], [0x03, 0x01]
+      )
+      expect(sniffImage(jpeg)).toEqual({ mimeType: 'image/jpeg', extension: 'jpg', width: 640, height: 480, hasAlpha: false })
+    })
+
+    it('should read GIF, WebP, ICO and BMP headers', () => {
+      expect(sniffImage(bytes('GIF89a', uint16LE(120), uint16LE(60), [0, 0, 0], [0x21, 0xf9, 0x04, 0x01]))).toEqual({
+        mimeType: 'image/gif', extension: 'gif', width: 120, height: 60, hasAlpha: true
+      })
+
+      const vp8x = bytes('RIFF', uint32BE(0), 'WEBP', 'VP8X', uint32BE(10), [0x10, 0, 0, 0], [0xff, 0x01, 0x00], [0x7f, 0x00, 0x00])
+      expect(sniffImage(vp8x)).toEqual({ mimeType: 'image/webp', extension: 'webp', width: 512, height: 128, hasAlpha: true })
+
+      const ico = bytes([0, 0, 1, 0], uint16LE(2), [16, 16, 0, 0, 1, 0], uint16LE(32), new Array(8).fill(0), [0, 0, 0, 0, 1, 0], uint16LE(32), new Array(8).fill(0))
+      expect(sniffImage(ico)).toEqual({ mimeType: 'image/x-icon', extension: 'ico', width: 256, height: 256, hasAlpha: true })
+
+      const bmp = bytes('BM', new Array(16).fill(0), [100, 0, 0, 0], [0x9c, 0xff, 0xff, 0xff], [1, 0], uint16LE(24))
+      expect(sniffImage(bmp)).toEqual({ mimeType: 'image/bmp', extension: 'bmp', width: 100, height: 100, hasAlpha: false })
+    })
+
+    it('should read AVIF dimensions from the ispe property', () => {
+      const avif = bytes(uint32BE(24), 'ftypavif', uint32BE(0), 'mif1', 'miaf', uint32BE(20), 'ispe', uint32BE(0), uint32BE(800), uint32BE(600))
+      expect(sniffImage(avif)).toEqual({ mimeType: 'image/avif', extension: 'avif', width: 800, height: 600, hasAlpha: false })
+    })
+
+    it('should size SVGs from their attributes or viewBox', () => {
+      const encode = (text: string) => new TextEncoder().encode(text)
+
+      expect(sniffImage(encode('<?xml version="1.0"?>\n<!-- logo --><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 120 40"></svg>'))).toEqual({
+        mimeType: 'image/svg+xml', extension: 'svg', width: 120, height: 40, hasAlpha: true
+      })
+      expect(sniffImage(encode('<svg width="60px" viewBox="0 0 120 40">'))).toMatchObject({ width: 60, height: 20 })
+      expect(sniffImage(encode('<svg width="100%" height="100%">'))).toEqual({ mimeType: 'image/svg+xml', extension: 'svg', hasAlpha: true })
+    })
+
+    it('should not mistake other files for images', () => {
+      expect(sniffImage(new TextEncoder().encode('<!DOCTYPE html><html><body><svg></svg></body></html>'))).toBeNull()
+      expect(sniffImage(bytes('wOF2', new Array(40).fill(0)))).toBeNull()
+      expect(sniffImage(new Uint8Array())).toBeNull()
+    })
+  })
+
+  describe('probeImage', () => {
+    it('should read an image once however often it is shown', async () => {
+      const fetchImageHead = vi.fn(async () => ({ bytes: png(64, 64, 6), byteSize: 2048 }))
+
+      const [first, second] = await Promise.all([
+        probeImage('https://cdn.example.com/i/8f3a?w=64', fetchImageHead),
+        probeImage('https://cdn.example.com/i/8f3a?w=64', fetchImageHead)
+      ])
+
+      expect(first).toEqual({ mimeType: 'image/png', extension: 'png', width: 64, height: 64, byteSize: 2048, hasAlpha: true })
+      expect(second).toBe(first)
+      expect(fetchImageHead).toHaveBeenCalledTimes(1)
+    })
+
+    it('should resolve to null for unreachable or unknown files', async () => {
+      const unreachable = vi.fn(async () => { throw new Error('Proxy returned 404') })
+      const unknown = vi.fn(async () => ({ bytes: bytes('not an image') }))
+
+      expect(await probeImage('https://example.com/missing.png', unreachable)).toBeNull()
+      expect(await probeImage('https://example.com/notes.txt', unknown)).toBeNull()
+    })
+  })
+
+  describe('fetchImageHeadThroughProxy', () => {
+    it('should stop reading large files and take their size from the proxy', async () => {
+      const cancel = vi.fn()
+      let pulls = 0
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          controller.enqueue(pulls++ === 0 ? png(2000, 1000, 2) : new Uint8Array(32 * 1024))
+        },
+        cancel
+      })
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(body, { headers: { 'Content-Type': 'image/png', 'X-Content-Length': '5000000' } })
+      )
+
+      const head = await fetchImageHeadThroughProxy('https://example.com/hero')
+
+      expect(head.byteSize).toBe(5000000)
+      expect(head.bytes.length).toBeLessThan(5000000)
+      expect(cancel).toHaveBeenCalled()
+      fetchMock.mockRestore()
+    })
+  })
+
+  describe('getImageMetadataLabels', () => {
+    it('should describe format, size, weight and transparency', () => {
+      expect(getImageMetadataLabels({ mimeType: 'image/png', extension: 'png', width: 512, height: 512, byteSize: 24576, hasAlpha: true }))
+        .toEqual(['PNG', '512×512', '24 KB', 'Transparent'])
+      expect(getImageMetadataLabels({ mimeType: 'image/svg+xml', extension: 'svg' })).toEqual(['SVG'])
+    })
+  })
+})
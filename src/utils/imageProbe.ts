@@ -0,0 +1,428 @@
+/**
+ * Image probing for Brrrand
+ * Reads the first bytes of a logo or illustration to learn its real format, pixel size,
+ * file size and transparency, instead of trusting the extension in its URL
+ */
+import type { ImageMetadata } from './assetTypes';
+import { getProxyUrl } from './proxyUtils';
+
+/**
+ * How much of each file to read; enough for the headers of every supported format,
+ * including JPEGs with large EXIF blocks before the frame header
+ */
+const PROBE_BYTES = 64 * 1024;
+
+/**
+ * Maximum number of images probed at the same time
+ */
+const MAX_CONCURRENT_PROBES = 4;
+
+/**
+ * Probes by URL, so an image shown in several places is only fetched once
+ */
+const probes = new Map<string, Promise<ImageMetadata | null>>();
+
+/**
+ * Probes waiting for one of the `MAX_CONCURRENT_PROBES` slots
+ */
+const probeQueue: (() => void)[] = [];
+let activeProbes = 0;
+
+/**
+ * The start of an image file
+ */
+export interface ImageHead {
+  /** The first bytes of the file, or all of it when it is small */
+  bytes: Uint8Array;
+  /** Size of the whole file, when known */
+  byteSize?: number;
+}
+
+/**
+ * Fetches the start of an image file
+ */
+export type ImageHeadFetcher = (url: string) => Promise<ImageHead>;
+
+/**
+ * The parts of the metadata that can be read from the file itself
+ */
+export type SniffedImage = Omit<ImageMetadata, 'byteSize'>;
+
+/**
+ * Identify an image from its magic bytes and read its dimensions and transparency
+ * from the format's header
+ *
+ * Supports PNG, JPEG, GIF, WebP, AVIF, ICO, BMP and SVG.
+ *
+ * @returns null when the bytes are not a supported image format
+ */
+export function sniffImage(bytes: Uint8Array): SniffedImage | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return sniffPng(bytes);
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return sniffJpeg(bytes);
+  if (matchesAscii(bytes, 0, 'GIF87a') || matchesAscii(bytes, 0, 'GIF89a')) return sniffGif(bytes);
+  if (matchesAscii(bytes, 0, 'RIFF') && matchesAscii(bytes, 8, 'WEBP')) return sniffWebp(bytes);
+  if (matchesAscii(bytes, 4, 'ftypavif') || matchesAscii(bytes, 4, 'ftypavis')) return sniffAvif(bytes);
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00]) && bytes.length >= 22) return sniffIco(bytes);
+  if (matchesAscii(bytes, 0, 'BM') && bytes.length >= 30) return sniffBmp(bytes);
+  return sniffSvg(bytes);
+}
+
+/**
+ * Combine the sniffed format with the file size
+ *
+ * @returns null when the file is not a supported image format
+ */
+export function getImageMetadata(head: ImageHead): ImageMetadata | null {
+  const image = sniffImage(head.bytes);
+  if (!image) return null;
+  return head.byteSize !== undefined ? { ...image, byteSize: head.byteSize } : image;
+}
+
+/**
+ * Probe an image, e.g. when its card scrolls into view; every probe is a proxy request
+ * that counts against the per-IP rate limit, so images are only probed once they are shown
+ *
+ * @param fetchImageHead Reads the start of a file; defaults to the proxy
+ * @returns null when the image cannot be fetched or recognized
+ */
+export function probeImage(url: string, fetchImageHead: ImageHeadFetcher = fetchImageHeadThroughProxy): Promise<ImageMetadata | null> {
+  let probe = probes.get(url);
+  if (!probe) {
+    probe = withProbeSlot(async () => getImageMetadata(await fetchImageHead(url))).catch(() => null);
+    probes.set(url, probe);
+  }
+  return probe;
+}
+
+async function withProbeSlot<T>(task: () => Promise<T>): Promise<T> {
+  if (activeProbes >= MAX_CONCURRENT_PROBES) {
+    await new Promise<void>(resolve => probeQueue.push(resolve));
+  }
+  activeProbes++;
+  try {
+    return await task();
+  } finally {
+    activeProbes--;
+    probeQueue.shift()?.();
+  }
+}
+
+/**
+ * Short labels describing an image for display, e.g. ["PNG", "512×512", "24 KB", "Transparent"]
+ */
+export function getImageMetadataLabels(image: ImageMetadata): string[] {
+  return [
+    image.extension.toUpperCase(),
+    image.width && image.height ? `${image.width}×${image.height}` : null,
+    image.byteSize !== undefined ? formatByteSize(image.byteSize) : null,
+    image.hasAlpha === undefined ? null : image.hasAlpha ? 'Transparent' : 'Opaque'
+  ].filter((label): label is string => label !== null);
+}
+
+/**
+ * Human readable file size, e.g. "512 B", "24 KB", "1.3 MB"
+ */
+export function formatByteSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Read the start of a file through the proxy, cancelling the download once enough has arrived
+ * Data URLs are read directly.
+ */
+export async function fetchImageHeadThroughProxy(url: string): Promise<ImageHead> {
+  const response = await fetch(url.startsWith('data:') ? url : getProxyUrl(url));
+  if (!response.ok) {
+    throw new Error(`Proxy returned ${response.status}`);
+  }
+
+  // The proxy streams images, so it reports the upstream size separately
+  const declaredSize = Number(response.headers.get('x-content-length') ?? response.headers.get('content-length'));
+  const { bytes, complete } = await readHead(response, PROBE_BYTES);
+
+  if (complete) return { bytes, byteSize: bytes.length };
+  return Number.isFinite(declaredSize) && declaredSize > 0 ? { bytes, byteSize: declaredSize } : { bytes };
+}
+
+/**
+ * Read up to `maxBytes` of a response body
+ *
+ * @returns The bytes read, and whether they are the whole body
+ */
+async function readHead(response: Response, maxBytes: number): Promise<{ bytes: Uint8Array; complete: boolean }> {
+  if (!response.body) {
+    return { bytes: new Uint8Array(await response.arrayBuffer()), complete: true };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let complete = false;
+
+  while (length < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) {
+      complete = true;
+      break;
+    }
+    chunks.push(value);
+    length += value.length;
+  }
+
+  if (!complete) {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return { bytes, complete };
+}
+
+/**
+ * PNG: size from the IHDR chunk; alpha from the color type or a tRNS chunk
+ */
+function sniffPng(bytes: Uint8Array): SniffedImage {
+  const image: SniffedImage = { mimeType: 'image/png', extension: 'png' };
+  if (bytes.length < 26 || !matchesAscii(bytes, 12, 'IHDR')) return image;
+
+  // Color types 4 (grayscale + alpha) and 6 (RGBA) carry an alpha channel
+  const colorType = bytes[25];
+  let hasAlpha = colorType === 4 || colorType === 6;
+
+  // Palette and plain images can still be transparent through a tRNS chunk, which comes before the image data
+  for (let offset = 8; !hasAlpha && offset + 8 <= bytes.length;) {
+    if (matchesAscii(bytes, offset + 4, 'IDAT')) break;
+    if (matchesAscii(bytes, offset + 4, 'tRNS')) hasAlpha = true;
+    offset += 12 + readUint32BE(bytes, offset);
+  }
+
+  return { ...image, width: readUint32BE(bytes, 16), height: readUint32BE(bytes, 20), hasAlpha };
+}
+
+/**
+ * JPEG: size from the first start-of-frame segment; JPEG has no alpha channel
+ */
+function sniffJpeg(bytes: Uint8Array): SniffedImage {
+  const image: SniffedImage = { mimeType: 'image/jpeg', extension: 'jpg', hasAlpha: false };
+
+  let offset = 2;
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { ...image, height: readUint16BE(bytes, offset + 5), width: readUint16BE(bytes, offset + 7) };
+    }
+
+    offset += 2 + readUint16BE(bytes, offset + 2);
+  }
+
+  return image;
+}
+
+/**
+ * GIF: size from the logical screen descriptor; alpha when a graphic control extension
+ * marks a transparent color
+ */
+function sniffGif(bytes: Uint8Array): SniffedImage {
+  let hasAlpha = false;
+  for (let offset = 13; offset + 3 < bytes.length; offset++) {
+    if (bytes[offset] === 0x21 && bytes[offset + 1] === 0xf9 && bytes[offset + 2] === 0x04 && (bytes[offset + 3] & 0x01)) {
+      hasAlpha = true;
+      break;
+    }
+  }
+
+  return {
+    mimeType: 'image/gif',
+    extension: 'gif',
+    ...(bytes.length >= 10 ? { width: readUint16LE(bytes, 6), height: readUint16LE(bytes, 8) } : {}),
+    hasAlpha
+  };
+}
+
+/**
+ * WebP: lossy (VP8), lossless (VP8L) and extended (VP8X) bitstreams
+ */
+function sniffWebp(bytes: Uint8Array): SniffedImage {
+  const image: SniffedImage = { mimeType: 'image/webp', extension: 'webp' };
+
+  if (matchesAscii(bytes, 12, 'VP8 ') && bytes.length >= 30) {
+    return { ...image, width: readUint16LE(bytes, 26) & 0x3fff, height: readUint16LE(bytes, 28) & 0x3fff, hasAlpha: false };
+  }
+  if (matchesAscii(bytes, 12, 'VP8L') && bytes.length >= 25) {
+    const bits = readUint32LE(bytes, 21);
+    return { ...image, width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, hasAlpha: ((bits >>> 28) & 1) === 1 };
+  }
+  if (matchesAscii(bytes, 12, 'VP8X') && bytes.length >= 30) {
+    return {
+      ...image,
+      width: readUint24LE(bytes, 24) + 1,
+      height: readUint24LE(bytes, 27) + 1,
+      hasAlpha: (bytes[20] & 0x10) !== 0
+    };
+  }
+
+  return image;
+}
+
+/**
+ * AVIF: size from the image spatial extents (ispe) property; alpha when an auxiliary alpha image is declared
+ */
+function sniffAvif(bytes: Uint8Array): SniffedImage {
+  const image: SniffedImage = {
+    mimeType: 'image/avif',
+    extension: 'avif',
+    hasAlpha: indexOfAscii(bytes, 'auxiliary:alpha') !== -1
+  };
+
+  // ispe is a full box: 4 bytes of version and flags, then width and height
+  const ispe = indexOfAscii(bytes, 'ispe');
+  if (ispe === -1 || ispe + 16 > bytes.length) return image;
+  return { ...image, width: readUint32BE(bytes, ispe + 8), height: readUint32BE(bytes, ispe + 12) };
+}
+
+/**
+ * ICO: size and bit depth of the largest icon in the directory (a stored 0 means 256px)
+ */
+function sniffIco(bytes: Uint8Array): SniffedImage {
+  const image: SniffedImage = { mimeType: 'image/x-icon', extension: 'ico' };
+  const count = readUint16LE(bytes, 4);
+
+  let largest: { width: number; height: number; bitCount: number } | null = null;
+  for (let index = 0; index < count && 6 + (index + 1) * 16 <= bytes.length; index++) {
+    const entry = 6 + index * 16;
+    const width = bytes[entry] || 256;
+    const height = bytes[entry + 1] || 256;
+    if (!largest || width * height > largest.width * largest.height) {
+      largest = { width, height, bitCount: readUint16LE(bytes, entry + 6) };
+    }
+  }
+
+  if (!largest) return image;
+  return {
+    ...image,
+    width: largest.width,
+    height: largest.height,
+    // Icons stored as PNG leave the bit count at 0
+    ...(largest.bitCount ? { hasAlpha: largest.bitCount === 32 } : {})
+  };
+}
+
+/**
+ * BMP: size from the info header (negative heights are top-down bitmaps)
+ */
+function sniffBmp(bytes: Uint8Array): SniffedImage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return {
+    mimeType: 'image/bmp',
+    extension: 'bmp',
+    width: Math.abs(view.getInt32(18, true)),
+    height: Math.abs(view.getInt32(22, true)),
+    hasAlpha: view.getUint16(28, true) === 32
+  };
+}
+
+/**
+ * SVG: size from absolute width and height attributes, or the viewBox
+ * Vector drawings have no background, so they are always treated as transparent.
+ */
+function sniffSvg(bytes: Uint8Array): SniffedImage | null {
+  const text = new TextDecoder().decode(bytes.subarray(0, 4096)).replace(/^\uFEFF/, '');
+
+  // Only an XML declaration, comments and a doctype may come before the root element
+  const root = text.match(/^\s*(?:<\?xml[^>]*\?>\s*)?(?:(?:<!--[\s\S]*?-->|<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>)\s*)*<svg\b[^>]*>/i);
+  if (!root) return null;
+
+  const tag = root[0].slice(root[0].search(/<svg\b/i));
+  const image: SniffedImage = { mimeType: 'image/svg+xml', extension: 'svg', hasAlpha: true };
+
+  let width = parseSvgLength(getSvgAttribute(tag, 'width'));
+  let height = parseSvgLength(getSvgAttribute(tag, 'height'));
+  const viewBox = getSvgAttribute(tag, 'viewBox')?.trim().split(/[\s,]+/).map(Number);
+
+  if (viewBox?.length === 4 && viewBox.every(Number.isFinite) && viewBox[2] > 0 && viewBox[3] > 0) {
+    const [, , viewBoxWidth, viewBoxHeight] = viewBox;
+    if (width === undefined && height === undefined) {
+      width = viewBoxWidth;
+      height = viewBoxHeight;
+    } else if (width === undefined) {
+      width = height! * viewBoxWidth / viewBoxHeight;
+    } else if (height === undefined) {
+      height = width * viewBoxHeight / viewBoxWidth;
+    }
+  }
+
+  return width !== undefined && height !== undefined
+    ? { ...image, width: Math.round(width), height: Math.round(height) }
+    : image;
+}
+
+function getSvgAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`));
+  return match ? match[1] ?? match[2] ?? match[3] : undefined;
+}
+
+/**
+ * Pixel value of an SVG length; relative lengths (%, em) have no intrinsic size
+ */
+function parseSvgLength(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^(\d*\.?\d+)(px)?$/i);
+  return match && parseFloat(match[1]) > 0 ? parseFloat(match[1]) : undefined;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return bytes.length >= signature.length && signature.every((byte, index) => bytes[index] === byte);
+}
+
+function matchesAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+  if (offset + text.length > bytes.length) return false;
+  for (let index = 0; index < text.length; index++) {
+    if (bytes[offset + index] !== text.charCodeAt(index)) return false;
+  }
+  return true;
+}
+
+function indexOfAscii(bytes: Uint8Array, text: string): number {
+  for (let offset = 0; offset + text.length <= bytes.length; offset++) {
+    if (matchesAscii(bytes, offset, text)) return offset;
+  }
+  return -1;
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint16LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint24LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { extractStructuredDataBrand } from './jsonLd'
+
+describe('JSON-LD brand extraction', () => {
+  it('should read the organization from an @graph with @id references', () => {
+    const script = JSON.stringify({
+      '@context': 'https://schema.org',
+      '@graph': [
+        {
+          '@type': 'WebSite',
+          '@id': 'https://acme.com/#website',
+          publisher: { '@id': 'https://acme.com/#organization' }
+        },
+        {
+          '@type': ['Organization', 'Corporation'],
+          '@id': 'https://acme.com/#organization',
+          name: 'Acme',
+          legalName: 'Acme Corporation Inc.',
+          url: 'https://www.acme.com/',
+          logo: { '@id': 'https://acme.com/#logo' },
+          sameAs: ['https://twitter.com/acme', 'https://www.linkedin.com/company/acme', 'not a url']
+        },
+        {
+          '@type': 'ImageObject',
+          '@id': 'https://acme.com/#logo',
+          url: '/images/acme-logo.svg'
+        }
+      ]
+    })
+
+    const { logos, brand } = extractStructuredDataBrand([script], 'https://acme.com/about')
+
+    expect(brand).toEqual({
+      name: 'Acme',
+      legalName: 'Acme Corporation Inc.',
+      socialProfiles: ['https://twitter.com/acme', 'https://www.linkedin.com/company/acme']
+    })
+    expect(logos).toEqual([
+      { type: 'logo', url: 'https://acme.com/images/acme-logo.svg', alt: 'Acme logo', source: 'structured-data' }
+    ])
+  })
+
+  it('should prefer the organization hosted on the page domain and skip invalid blocks', () => {
+    const partner = JSON.stringify({ '@type': 'Organization', name: 'Partner', url: 'https://partner.io', logo: 'https://partner.io/logo.png' })
+    const owner = JSON.stringify([{
+      '@type': 'Organization',
+      name: 'Acme',
+      url: 'https://acme.com',
+      logo: 'https://cdn.acme.com/logo.png',
+      brand: { '@type': 'Brand', name: 'Acme Rockets', logo: 'https://cdn.acme.com/rockets.png' }
+    }])
+
+    const { logos, brand } = extractStructuredDataBrand(['{ invalid', partner, owner], 'https://acme.com')
+
+    expect(brand.name).toBe('Acme')
+    expect(logos.map(logo => logo.url)).toEqual(['https://cdn.acme.com/logo.png', 'https://cdn.acme.com/rockets.png'])
+    expect(logos[1].alt).toBe('Acme Rockets logo')
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * JSON-LD (schema.org) brand extraction for Brrrand
+ * Reads Organization and Brand nodes from `<script type="application/ld+json">` blocks
+ */
+import type { BrandAsset, BrandMetadata } from './assetTypes';
+
+/**
+ * Logos and brand details declared in structured data
+ */
+export interface StructuredDataBrand {
+  logos: BrandAsset[];
+  brand: BrandMetadata;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * schema.org types that describe the site owner
+ */
+const ORGANIZATION_TYPES = new Set([
+  'organization',
+  'corporation',
+  'localbusiness',
+  'onlinebusiness',
+  'onlinestore',
+  'store',
+  'newsmediaorganization',
+  'educationalorganization',
+  'governmentorganization',
+  'ngo',
+  'sportsorganization',
+  'airline',
+  'brand'
+]);
+
+/**
+ * Extract the organization's logo, names and social profiles from JSON-LD blocks
+ *
+ * @param scripts Text content of every `application/ld+json` script on the page
+ * @param baseUrl Page URL, used to resolve relative logo URLs
+ */
+export function extractStructuredDataBrand(scripts: string[], baseUrl: string): StructuredDataBrand {
+  const nodes: JsonLdNode[] = [];
+  scripts.forEach(script => {
+    try {
+      collectNodes(JSON.parse(script), nodes);
+    } catch {
+      console.warn('Invalid JSON-LD block, skipping');
+    }
+  });
+
+  const nodesById = new Map<string, JsonLdNode>();
+  nodes.forEach(node => {
+    if (typeof node['@id'] === 'string') nodesById.set(node['@id'], node);
+  });
+  const resolve = (value: unknown): unknown => {
+    if (isNode(value) && typeof value['@id'] === 'string' && Object.keys(value).length === 1) {
+      return nodesById.get(value['@id']) ?? value;
+    }
+    return value;
+  };
+
+  const organizations = nodes.filter(node => getTypes(node).some(type => ORGANIZATION_TYPES.has(type)));
+  // The page owner is usually the first organization; prefer one hosted on the same site
+  const siteHost = getHostname(baseUrl);
+  const owner = organizations.find(node => getHostname(getString(node.url) ?? '') === siteHost) ?? organizations[0];
+
+  const result: StructuredDataBrand = { logos: [], brand: {} };
+  if (!owner) return result;
+
+  const name = getString(owner.name);
+  const legalName = getString(owner.legalName);
+  if (name) result.brand.name = name;
+  if (legalName) result.brand.legalName = legalName;
+
+  const socialProfiles = toArray(owner.sameAs)
+    .map(getString)
+    .filter((url): url is string => !!url && /^https?:\/\//i.test(url));
+  if (socialProfiles.length > 0) result.brand.socialProfiles = [...new Set(socialProfiles)];
+
+  // The owner's logo first, then logos of brands it declares
+  const logoSources = [owner, ...toArray(owner.brand).map(resolve).filter(isNode)];
+  const seen = new Set<string>();
+  logoSources.forEach(node => {
+    toArray(node.logo).map(resolve).forEach(logo => {
+      const url = getLogoUrl(logo, baseUrl);
+      if (!url || seen.has(url)) return;
+      seen.add(url);
+      result.logos.push({
+        type: 'logo',
+        url,
+        alt: `${getString(node.name) ?? name ?? 'Organization'} logo`,
+        source: 'structured-data'
+      });
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Flatten a JSON-LD document (arrays, `@graph` and nested nodes) into a list of nodes
+ */
+function collectNodes(value: unknown, nodes: JsonLdNode[]): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectNodes(item, nodes));
+    return;
+  }
+  if (!isNode(value)) return;
+
+  if (value['@type']) nodes.push(value);
+  Object.entries(value).forEach(([key, child]) => {
+    if (key !== '@context' && typeof child === 'object') collectNodes(child, nodes);
+  });
+}
+
+function getLogoUrl(logo: unknown, baseUrl: string): string | undefined {
+  const href = isNode(logo) ? getString(logo.url) ?? getString(logo.contentUrl) : getString(logo);
+  if (!href) return undefined;
+
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getTypes(node: JsonLdNode): string[] {
+  return toArray(node['@type'])
+    .map(getString)
+    .filter((type): type is string => !!type)
+    .map(type => type.replace(/^(https?:\/\/schema\.org\/|schema:)/i, '').toLowerCase());
+}
+
+function isNode(value: unknown): value is JsonLdNode {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function getString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
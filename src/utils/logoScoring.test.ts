@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { getKeywordSignals, rankLogos } from './logoScoring'
+import type { BrandAsset } from './assetTypes'
+
+describe('Logo scoring', () => {
+  it('should tell logo keywords from icon keywords', () => {
+    expect(getKeywordSignals('/img/acme-logo.svg')).toEqual(['logo-keyword'])
+    expect(getKeywordSignals('wordmark header__brand')).toEqual(['logo-keyword'])
+    expect(getKeywordSignals('/icons/search.png icon icon-search')).toEqual(['icon-keyword'])
+    expect(getKeywordSignals('/img/bookmark.png')).toEqual([])
+  })
+
+  it('should rank logos by confidence and record every signal', () => {
+    const logos: BrandAsset[] = [
+      { type: 'logo', url: 'https://acme.com/favicon.ico', alt: 'Favicon', source: 'link', signals: ['favicon'] },
+      { type: 'logo', url: 'https://acme.com/icons/menu.png', source: 'html', sizes: '16x16', signals: ['header', 'icon-keyword', 'tiny'] },
+      { type: 'logo', url: 'https://acme.com/img/header.svg', alt: 'Acme', source: 'html', signals: ['header', 'home-link'] },
+      { type: 'logo', url: 'https://acme.com/android-chrome-512x512.png', source: 'manifest' },
+      { type: 'logo', url: 'https://acme.com/brand/acme.png', source: 'structured-data' }
+    ]
+
+    const ranked = rankLogos(logos, ['Acme Inc', 'acme'])
+
+    expect(ranked.map(logo => logo.url)).toEqual([
+      'https://acme.com/img/header.svg',
+      'https://acme.com/brand/acme.png',
+      'https://acme.com/android-chrome-512x512.png',
+      'https://acme.com/favicon.ico',
+      'https://acme.com/icons/menu.png'
+    ])
+    expect(ranked[0].confidence).toBe(0.8)
+    expect(ranked[0].signals).toEqual(['header', 'home-link', 'svg', 'alt-matches-site'])
+    expect(ranked[2].signals).toEqual(['manifest', 'size-hint', 'large'])
+    expect(ranked[4].confidence).toBe(0)
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Logo confidence scoring for Brrrand
+ * Turns the signals collected for each logo candidate into a 0-1 confidence and ranks them
+ */
+import type { BrandAsset, LogoSignal } from './assetTypes';
+
+/**
+ * Points each signal contributes; 100 points is full confidence
+ */
+export const LOGO_SIGNAL_WEIGHTS: Record<LogoSignal, number> = {
+  'structured-data': 60,
+  'manifest': 20,
+  'home-link': 25,
+  'header': 25,
+  'nav': 10,
+  'logo-keyword': 25,
+  'alt-matches-site': 20,
+  'svg': 10,
+  'size-hint': 5,
+  'large': 10,
+  'favicon': 5,
+  'icon-keyword': -20,
+  'tiny': -25
+};
+
+const LOGO_KEYWORD = /logo|brand|wordmark|logomark|(^|[^a-z])mark([^a-z]|$)/;
+const ICON_KEYWORD = /icon|(^|[^a-z])(fa|bi|glyphicon|material-icons)([^a-z]|$)/;
+
+/**
+ * Keyword signals for the src, alt text, class names and id of a candidate
+ */
+export function getKeywordSignals(text: string): LogoSignal[] {
+  const normalized = text.toLowerCase();
+  if (LOGO_KEYWORD.test(normalized)) return ['logo-keyword'];
+  if (ICON_KEYWORD.test(normalized)) return ['icon-keyword'];
+  return [];
+}
+
+/**
+ * Score every logo and sort them from most to least likely to be the brand's primary logo
+ *
+ * @param logos Deduplicated logo assets carrying the signals found while parsing the page
+ * @param siteNames Names the site goes by (brand name, short name, domain label)
+ * @returns New logo assets with `confidence` and the full list of `signals`, best first
+ */
+export function rankLogos(logos: BrandAsset[], siteNames: string[]): BrandAsset[] {
+  const names = siteNames
+    .map(normalizeName)
+    .filter(name => name.length >= 3);
+
+  return logos
+    .map((logo, index) => {
+      const signals = new Set<LogoSignal>(logo.signals);
+
+      if (logo.source === 'structured-data') signals.add('structured-data');
+      if (logo.source === 'manifest') signals.add('manifest');
+      if (isSvg(logo)) signals.add('svg');
+
+      const size = getLargestDimension(logo);
+      if (size > 0) signals.add('size-hint');
+      if (size >= 180) signals.add('large');
+
+      const alt = normalizeName(logo.alt || '');
+      if (alt && names.some(name => alt.includes(name))) signals.add('alt-matches-site');
+
+      const points = [...signals].reduce((total, signal) => total + LOGO_SIGNAL_WEIGHTS[signal], 0);
+      const confidence = Math.round(Math.min(1, Math.max(0, points / 100)) * 100) / 100;
+
+      return { logo: { ...logo, confidence, signals: [...signals] }, index };
+    })
+    // Stable for equal scores, so the page order breaks ties
+    .sort((a, b) => b.logo.confidence - a.logo.confidence || a.index - b.index)
+    .map(({ logo }) => logo);
+}
+
+function isSvg(logo: BrandAsset): boolean {
+  const url = logo.url?.toLowerCase() || '';
+  return url.startsWith('data:image/svg+xml') || /\.svg($|[?#])/.test(url) || logo.format === 'svg';
+}
+
+/**
+ * Largest width or height we know of, from declared sizes or a size in the file name
+ */
+function getLargestDimension(logo: BrandAsset): number {
+  const hints = [logo.sizes || '', logo.url?.startsWith('data:') ? '' : logo.url?.split('/').pop() || ''];
+  const dimensions = hints.flatMap(hint =>
+    [...hint.matchAll(/(\d{2,4})x(\d{2,4})/gi)].map(match => Math.max(parseInt(match[1]), parseInt(match[2])))
+  );
+  return dimensions.length > 0 ? Math.max(...dimensions) : 0;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
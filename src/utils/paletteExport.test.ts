@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { createPaletteFile, getPaletteFilename } from './paletteExport'
+import type { BrandAsset } from './assetExtraction'
+
+const colors: BrandAsset[] = [
+  { type: 'color', value: '#635bff', role: 'primary', tokens: ['--brand-500'] },
+  { type: 'color', value: 'rgb(0, 217, 36)', role: 'accent' },
+  { type: 'color', value: 'hsl(0, 100%, 50%)', role: 'accent' },
+  { type: 'color', value: '#fff', role: 'background' },
+  { type: 'color', value: 'var(--unknown)' }
+]
+
+const readBlob = (blob: Blob): Promise<ArrayBuffer> => new Promise((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(reader.result as ArrayBuffer)
+  reader.onerror = () => reject(reader.error)
+  reader.readAsArrayBuffer(blob)
+})
+
+const readText = async (blob: Blob) => new TextDecoder().decode(await readBlob(blob))
+
+describe('Palette export', () => {
+  it('should write an Adobe Swatch Exchange file with groups and named colors', async () => {
+    const view = new DataView(await readBlob(await createPaletteFile(colors, 'ase', 'example.com')))
+
+    expect(String.fromCharCode(...[0, 1, 2, 3].map(index => view.getUint8(index)))).toBe('ASEF')
+    expect(view.getUint16(4)).toBe(1)
+    // 3 groups (start + end) and 4 colors
+    expect(view.getUint32(8)).toBe(10)
+
+    // First block opens the "Primary" group
+    expect(view.getUint16(12)).toBe(0xc001)
+    expect(view.getUint16(18)).toBe('Primary'.length + 1)
+    const groupName = Array.from({ length: 7 }, (_, index) => String.fromCharCode(view.getUint16(20 + index * 2))).join('')
+    expect(groupName).toBe('Primary')
+
+    // Followed by the primary color entry, named after its token, in RGB floats
+    const colorBlock = 12 + 6 + 2 + 8 * 2
+    expect(view.getUint16(colorBlock)).toBe(0x0001)
+    const modelOffset = colorBlock + 6 + 2 + ('brand-500'.length + 1) * 2
+    expect(String.fromCharCode(...[0, 1, 2, 3].map(index => view.getUint8(modelOffset + index)))).toBe('RGB ')
+    expect(view.getFloat32(modelOffset + 4)).toBeCloseTo(0x63 / 255)
+  })
+
+  it('should write GIMP and Sketch palettes with names and role groups', async () => {
+    const gpl = await readText(await createPaletteFile(colors, 'gpl', 'example.com'))
+    expect(gpl).toContain('GIMP Palette\nName: example.com')
+    expect(gpl).toContain('# Primary\n 99  91 255\tbrand-500 (#635bff)')
+    expect(gpl).toContain('# Accent\n  0 217  36\tLime Green (#00d924)\n255   0   0\tRed (#ff0000)')
+    expect(gpl).not.toContain('var(')
+
+    const sketch = JSON.parse(await readText(await createPaletteFile(colors, 'sketchpalette', 'example.com')))
+    expect(sketch.compatibleVersion).toBe('2.0')
+    expect(sketch.colors[0]).toEqual({ name: 'brand-500', red: 0.3882, green: 0.3569, blue: 1, alpha: 1 })
+    expect(sketch.colors).toHaveLength(4)
+  })
+
+  it('should keep transparency and number swatches sharing a color name', async () => {
+    const translucent: BrandAsset[] = [
+      { type: 'color', value: 'rgba(255, 0, 0, 0.5)', role: 'accent' },
+      { type: 'color', value: '#fe0000', role: 'accent' }
+    ]
+
+    const sketch = JSON.parse(await readText(await createPaletteFile(translucent, 'sketchpalette', 'example.com')))
+    expect(sketch.colors.map((color: { name: string; alpha: number }) => [color.name, color.alpha])).toEqual([['Red', 0.5], ['Red 2', 1]])
+
+    const gpl = await readText(await createPaletteFile(translucent, 'gpl', 'example.com'))
+    expect(gpl).toContain('Red (rgba(255, 0, 0, 0.5))')
+  })
+
+  it('should write Procreate swatches as a zipped Swatches.json', async () => {
+    const zip = await JSZip.loadAsync(await readBlob(await createPaletteFile(colors, 'swatches', 'example.com')))
+    const [palette] = JSON.parse(await zip.file('Swatches.json')!.async('string'))
+
+    expect(palette.name).toBe('example.com')
+    expect(palette.swatches[2]).toMatchObject({ hue: 0, saturation: 1, brightness: 1 })
+    expect(getPaletteFilename('example.com', 'swatches')).toBe('example.com-palette.swatches')
+  })
+})
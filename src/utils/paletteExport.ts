@@ -0,0 +1,222 @@
+import JSZip from 'jszip'
+import type { BrandAsset, ColorRole } from './assetExtraction'
+import { COLOR_ROLE_ORDER } from './colorRoles'
+import { getNearestColorName, parseColorWithAlpha, toCanonicalColor, type ParsedColor, type Rgb } from './colorModel'
+
+export type PaletteFormat = 'ase' | 'gpl' | 'sketchpalette' | 'swatches'
+
+export interface PaletteFormatInfo {
+  id: PaletteFormat
+  label: string
+  description: string
+  mimeType: string
+}
+
+export const PALETTE_FORMATS: PaletteFormatInfo[] = [
+  { id: 'ase', label: 'ASE', description: 'Adobe Swatch Exchange (Illustrator, Photoshop, InDesign)', mimeType: 'application/octet-stream' },
+  { id: 'gpl', label: 'GPL', description: 'GIMP / Inkscape palette', mimeType: 'text/plain' },
+  { id: 'sketchpalette', label: 'Sketch', description: 'Sketch Palettes plugin', mimeType: 'application/json' },
+  { id: 'swatches', label: 'Procreate', description: 'Procreate swatches', mimeType: 'application/zip' }
+]
+
+/**
+ * Procreate palettes hold at most 30 swatches
+ */
+const PROCREATE_MAX_SWATCHES = 30
+
+const GROUP_LABELS: Record<ColorRole, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  accent: 'Accent',
+  text: 'Text',
+  background: 'Background'
+}
+
+interface PaletteColor {
+  name: string
+  /** Hex for opaque colors, rgba() otherwise */
+  value: string
+  rgb: Rgb
+  /** 0-1; formats without transparency (ASE, GPL) store the color opaque */
+  alpha: number
+}
+
+interface PaletteGroup {
+  name: string
+  colors: PaletteColor[]
+}
+
+/**
+ * Build a palette file for design tools from the extracted colors
+ *
+ * @param colors Extracted color assets (colors that cannot be converted to RGB are skipped)
+ * @param format Target palette format
+ * @param paletteName Name stored inside the file, usually the site's domain
+ */
+export const createPaletteFile = async (colors: BrandAsset[], format: PaletteFormat, paletteName: string): Promise<Blob> => {
+  const groups = groupPaletteColors(colors)
+  const mimeType = PALETTE_FORMATS.find(info => info.id === format)!.mimeType
+
+  switch (format) {
+    case 'ase':
+      return new Blob([createAse(groups)], { type: mimeType })
+    case 'gpl':
+      return new Blob([createGpl(groups, paletteName)], { type: mimeType })
+    case 'sketchpalette':
+      return new Blob([createSketchPalette(groups)], { type: mimeType })
+    case 'swatches':
+      return createProcreateSwatches(groups, paletteName)
+  }
+}
+
+/**
+ * File name for a palette export, e.g. "stripe.com-palette.ase"
+ */
+export const getPaletteFilename = (paletteName: string, format: PaletteFormat) =>
+  `${paletteName.replace(/[^a-z0-9.-]+/gi, '-')}-palette.${format}`
+
+/**
+ * Group colors by role in display order, naming each swatch after the site's own custom property
+ * or, without one, the nearest named color ("Medium Slate Blue")
+ */
+const groupPaletteColors = (colors: BrandAsset[]): PaletteGroup[] => {
+  const roles: (ColorRole | undefined)[] = [...COLOR_ROLE_ORDER, undefined]
+  const usedNames = new Map<string, number>()
+
+  // Swatches with the same name are numbered ("Red", "Red 2")
+  const getUniqueName = (base: string) => {
+    const count = (usedNames.get(base) ?? 0) + 1
+    usedNames.set(base, count)
+    return count > 1 ? `${base} ${count}` : base
+  }
+
+  return roles
+    .map(role => ({
+      name: role ? GROUP_LABELS[role] : 'Other',
+      colors: colors
+        .filter(color => color.role === role && color.value)
+        .map(color => ({ color, parsed: parseColorWithAlpha(color.value!) }))
+        .filter((entry): entry is { color: BrandAsset; parsed: ParsedColor } => entry.parsed !== null)
+        .map(({ color, parsed }) => ({
+          name: getUniqueName(color.tokens?.[0]?.replace(/^--/, '') || getNearestColorName(parsed.rgb).name),
+          value: toCanonicalColor(parsed),
+          rgb: parsed.rgb,
+          alpha: parsed.alpha
+        }))
+    }))
+    .filter(group => group.colors.length > 0)
+}
+
+/**
+ * Adobe Swatch Exchange: big-endian blocks of UTF-16 names and float RGB values
+ */
+const createAse = (groups: PaletteGroup[]): ArrayBuffer => {
+  const blocks: Uint8Array[] = []
+
+  groups.forEach(group => {
+    blocks.push(createAseBlock(0xc001, encodeAseName(group.name)))
+    group.colors.forEach(color => {
+      const body = new DataView(new ArrayBuffer(4 + 12 + 2))
+      'RGB '.split('').forEach((char, index) => body.setUint8(index, char.charCodeAt(0)))
+      color.rgb.forEach((channel, index) => body.setFloat32(4 + index * 4, channel / 255))
+      body.setUint16(16, 2) // Normal (process) color
+      blocks.push(createAseBlock(0x0001, concatBytes([encodeAseName(color.name), new Uint8Array(body.buffer)])))
+    })
+    blocks.push(createAseBlock(0xc002, new Uint8Array(0)))
+  })
+
+  const header = new DataView(new ArrayBuffer(12))
+  'ASEF'.split('').forEach((char, index) => header.setUint8(index, char.charCodeAt(0)))
+  header.setUint16(4, 1)
+  header.setUint16(6, 0)
+  header.setUint32(8, blocks.length)
+
+  return concatBytes([new Uint8Array(header.buffer), ...blocks]).buffer as ArrayBuffer
+}
+
+const createAseBlock = (type: number, body: Uint8Array) => {
+  const header = new DataView(new ArrayBuffer(6))
+  header.setUint16(0, type)
+  header.setUint32(2, body.length)
+  return concatBytes([new Uint8Array(header.buffer), body])
+}
+
+/**
+ * Length-prefixed, null-terminated UTF-16BE string
+ */
+const encodeAseName = (name: string) => {
+  const view = new DataView(new ArrayBuffer(2 + (name.length + 1) * 2))
+  view.setUint16(0, name.length + 1)
+  for (let index = 0; index < name.length; index++) {
+    view.setUint16(2 + index * 2, name.charCodeAt(index))
+  }
+  return new Uint8Array(view.buffer)
+}
+
+const createGpl = (groups: PaletteGroup[], paletteName: string) => {
+  const lines = ['GIMP Palette', `Name: ${paletteName}`, 'Columns: 8', '#']
+  groups.forEach(group => {
+    lines.push(`# ${group.name}`)
+    group.colors.forEach(({ rgb, name, value }) => {
+      lines.push(`${rgb.map(channel => String(channel).padStart(3)).join(' ')}\t${name} (${value})`)
+    })
+  })
+  return `${lines.join('\n')}\n`
+}
+
+const createSketchPalette = (groups: PaletteGroup[]) => {
+  const colors = groups.flatMap(group => group.colors).map(({ name, rgb, alpha }) => ({
+    name,
+    red: round(rgb[0] / 255),
+    green: round(rgb[1] / 255),
+    blue: round(rgb[2] / 255),
+    alpha
+  }))
+  return JSON.stringify({ compatibleVersion: '2.0', pluginVersion: '2.22', colors, gradients: [], images: [] }, null, 2)
+}
+
+/**
+ * Procreate swatches are a ZIP holding Swatches.json with HSB values
+ */
+const createProcreateSwatches = async (groups: PaletteGroup[], paletteName: string): Promise<Blob> => {
+  const swatches = groups
+    .flatMap(group => group.colors)
+    .slice(0, PROCREATE_MAX_SWATCHES)
+    .map(({ rgb, alpha }) => ({ ...toHsb(rgb), alpha, origin: 0, colorSpace: 0, colorProfile: '', version: '5.0' }))
+
+  const zip = new JSZip()
+  zip.file('Swatches.json', JSON.stringify([{ name: paletteName, swatches }]))
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' })
+}
+
+const toHsb = ([r, g, b]: Rgb) => {
+  const [red, green, blue] = [r / 255, g / 255, b / 255]
+  const max = Math.max(red, green, blue)
+  const delta = max - Math.min(red, green, blue)
+
+  let hue = 0
+  if (delta > 0) {
+    if (max === red) hue = ((green - blue) / delta) % 6
+    else if (max === green) hue = (blue - red) / delta + 2
+    else hue = (red - green) / delta + 4
+    hue = ((hue * 60) + 360) % 360
+  }
+
+  return {
+    hue: round(hue / 360),
+    saturation: round(max === 0 ? 0 : delta / max),
+    brightness: round(max)
+  }
+}
+
+const concatBytes = (chunks: Uint8Array[]) => {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  let offset = 0
+  chunks.forEach(chunk => {
+    result.set(chunk, offset)
+    offset += chunk.length
+  })
+  return result
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { getRasterDimensions, setSvgSize } from './rasterize'
+
+describe('Rasterize', () => {
+  describe('getRasterDimensions', () => {
+    it('should scale the longest side to the requested size', () => {
+      expect(getRasterDimensions({ width: 1200, height: 300 }, 512)).toEqual({ width: 512, height: 128 })
+      expect(getRasterDimensions({ width: 40, height: 120 }, 256)).toEqual({ width: 85, height: 256 })
+    })
+
+    it('should come out square without an intrinsic size', () => {
+      expect(getRasterDimensions({}, 128)).toEqual({ width: 128, height: 128 })
+    })
+  })
+
+  describe('setSvgSize', () => {
+    it('should set the pixel size and keep the drawing scaling with a viewBox', () => {
+      const svg = setSvgSize('<svg width="120" height="40"><path d="M0 0h120v40H0z"/></svg>', 512, 171, { width: 120, height: 40 })
+
+      expect(svg).toBe('<svg width="512" height="171" viewBox="0 0 120 40"><path d="M0 0h120v40H0z"/></svg>')
+    })
+
+    it('should keep an existing viewBox', () => {
+      const svg = setSvgSize('<svg viewBox="0 0 24 24"><path d="M0 0h24"/></svg>', 64, 64)
+
+      expect(svg).toBe('<svg viewBox="0 0 24 24" width="64" height="64"><path d="M0 0h24"/></svg>')
+    })
+  })
+})
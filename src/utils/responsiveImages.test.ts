@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { parseSrcset, resolveImageSources } from './responsiveImages'
+
+const baseUrl = 'https://example.com/blog/'
+
+describe('Responsive images', () => {
+  it('should parse width and density descriptors, including URLs with commas', () => {
+    expect(parseSrcset('small.jpg 480w, /img/large.jpg 1200w,https://cdn.example.com/x,y.jpg 2x', baseUrl)).toEqual([
+      { url: 'https://example.com/blog/small.jpg', width: 480 },
+      { url: 'https://example.com/img/large.jpg', width: 1200 },
+      { url: 'https://cdn.example.com/x,y.jpg', density: 2 }
+    ])
+    expect(parseSrcset('logo.png, logo@2x.png 2x', baseUrl)).toEqual([
+      { url: 'https://example.com/blog/logo.png' },
+      { url: 'https://example.com/blog/logo@2x.png', density: 2 }
+    ])
+  })
+
+  it('should pick the largest rendition across picture sources and lazy attributes', () => {
+    const image = resolveImageSources({
+      attributes: {
+        src: 'data:image/gif;base64,R0lGODlhAQABAAAAACw=',
+        'data-src': '/img/hero-800.jpg',
+        'data-srcset': '/img/hero-800.jpg 800w, /img/hero-1600.jpg 1600w'
+      },
+      pictureSources: [{ type: 'image/webp', srcset: '/img/hero-2400.webp 2400w' }]
+    }, baseUrl)
+
+    expect(image?.url).toBe('https://example.com/img/hero-2400.webp')
+    expect(image?.renditions.map(rendition => rendition.url)).toEqual([
+      'https://example.com/img/hero-2400.webp',
+      'https://example.com/img/hero-1600.jpg',
+      'https://example.com/img/hero-800.jpg'
+    ])
+    expect(image?.renditions[2].width).toBe(800)
+  })
+
+  it('should ignore placeholders', () => {
+    expect(resolveImageSources({ attributes: { src: '/assets/blank.gif' }, pictureSources: [] }, baseUrl)).toBeNull()
+    expect(resolveImageSources({
+      attributes: { src: 'data:image/png;base64,iVBORw0KGgo=', 'data-lazy-src': 'photo.jpg' },
+      pictureSources: []
+    }, baseUrl)?.url).toBe('https://example.com/blog/photo.jpg')
+  })
+})
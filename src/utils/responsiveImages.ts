@@ -0,0 +1,158 @@
+/**
+ * Responsive image handling for Brrrand
+ * Resolves `srcset`, `<picture><source>` and lazy-loading attributes to the
+ * highest-resolution file an `<img>` can show
+ */
+import type { ImageRendition } from './assetTypes';
+
+/**
+ * Attributes lazy-loading libraries use to hold the real image URL
+ */
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original', 'data-lazy', 'data-url'];
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+
+/**
+ * File names commonly used for transparent placeholder images
+ */
+const PLACEHOLDER_FILENAME = /(^|\/)(blank|spacer|pixel|placeholder|transparent|lazy|loading)[-_.]?\w*\.(gif|png|svg)$/i;
+
+/**
+ * Attribute values of an `<img>` and the `<source>` elements of its `<picture>`
+ */
+export interface ImageElementSources {
+  attributes: Record<string, string | undefined>;
+  pictureSources: Record<string, string | undefined>[];
+}
+
+/**
+ * The best file for an image, with every other rendition we found
+ */
+export interface ResolvedImage {
+  url: string;
+  renditions: ImageRendition[];
+}
+
+/**
+ * Parse a `srcset` attribute into renditions with absolute URLs
+ *
+ * @param srcset Attribute value, e.g. "logo.png 1x, logo@2x.png 2x"
+ * @param baseUrl URL relative candidates resolve against
+ */
+export function parseSrcset(srcset: string, baseUrl: string): ImageRendition[] {
+  const renditions: ImageRendition[] = [];
+  let position = 0;
+
+  while (position < srcset.length) {
+    // Skip separators between candidates
+    while (position < srcset.length && /[\s,]/.test(srcset[position])) position++;
+    if (position >= srcset.length) break;
+
+    // The URL runs until whitespace; trailing commas belong to the separator
+    let end = position;
+    while (end < srcset.length && !/\s/.test(srcset[end])) end++;
+    let candidateUrl = srcset.slice(position, end);
+    let descriptor = '';
+
+    if (candidateUrl.endsWith(',')) {
+      candidateUrl = candidateUrl.replace(/,+$/, '');
+      position = end;
+    } else {
+      const descriptorEnd = srcset.indexOf(',', end);
+      descriptor = srcset.slice(end, descriptorEnd === -1 ? srcset.length : descriptorEnd).trim();
+      position = descriptorEnd === -1 ? srcset.length : descriptorEnd + 1;
+    }
+
+    const url = resolveImageUrl(candidateUrl, baseUrl);
+    if (!url) continue;
+
+    const rendition: ImageRendition = { url };
+    const widthMatch = descriptor.match(/^(\d+)w$/i);
+    const densityMatch = descriptor.match(/^(\d*\.?\d+)x$/i);
+    if (widthMatch) rendition.width = parseInt(widthMatch[1]);
+    if (densityMatch) rendition.density = parseFloat(densityMatch[1]);
+    renditions.push(rendition);
+  }
+
+  return renditions;
+}
+
+/**
+ * Pick the highest-resolution rendition of an image, ignoring placeholders
+ *
+ * @param sources Attributes of the `<img>` and its sibling `<source>` elements
+ * @param baseUrl Page URL
+ * @returns The best URL and all renditions (best first), or null when only placeholders were found
+ */
+export function resolveImageSources(sources: ImageElementSources, baseUrl: string): ResolvedImage | null {
+  const { attributes, pictureSources } = sources;
+  const candidates: ImageRendition[] = [];
+
+  // Lazy-loading attributes hold the real image, so they go before a (possibly placeholder) src
+  [...pictureSources, attributes].forEach(element => {
+    [...LAZY_SRCSET_ATTRIBUTES, 'srcset'].forEach(name => {
+      const value = element[name];
+      if (value) candidates.push(...parseSrcset(value, baseUrl));
+    });
+  });
+  [...LAZY_SRC_ATTRIBUTES, 'src'].forEach(name => {
+    const url = attributes[name] ? resolveImageUrl(attributes[name]!, baseUrl) : null;
+    if (url) candidates.push({ url });
+  });
+
+  const unique = new Map<string, ImageRendition>();
+  candidates
+    .filter(candidate => !isPlaceholder(candidate.url))
+    .forEach(candidate => {
+      const existing = unique.get(candidate.url);
+      if (!existing || getResolution(candidate) > getResolution(existing)) {
+        unique.set(candidate.url, candidate);
+      }
+    });
+
+  const renditions = [...unique.values()];
+  if (renditions.length === 0) return null;
+
+  // Width descriptors beat density descriptors, which beat bare URLs; ties keep discovery order
+  const ranked = renditions
+    .map((rendition, index) => ({ rendition, index }))
+    .sort((a, b) => getResolution(b.rendition) - getResolution(a.rendition) || a.index - b.index)
+    .map(({ rendition }) => rendition);
+
+  return { url: ranked[0].url, renditions: ranked };
+}
+
+/**
+ * Sortable resolution for a rendition
+ */
+function getResolution(rendition: ImageRendition): number {
+  if (rendition.width) return 1_000_000 + rendition.width;
+  if (rendition.density) return 1000 * rendition.density;
+  return 0;
+}
+
+/**
+ * Inline raster data URLs and spacer files are lazy-loading placeholders, not images
+ */
+function isPlaceholder(url: string): boolean {
+  if (url.startsWith('data:')) {
+    return !url.startsWith('data:image/svg+xml') || url.length < 200;
+  }
+  try {
+    return PLACEHOLDER_FILENAME.test(new URL(url).pathname);
+  } catch {
+    return true;
+  }
+}
+
+function resolveImageUrl(value: string, baseUrl: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (trimmed.startsWith('data:')) return trimmed;
+
+  try {
+    const url = new URL(trimmed, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
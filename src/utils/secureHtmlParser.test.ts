@@ -0,0 +1,488 @@
+import { describe, it, expect, vi } from 'vitest'
+import { parseHtmlSecurely } from './secureHtmlParser'
+
+const noStylesheets = { fetchStylesheet: async () => '' }
+
+describe('Secure HTML Parser', () => {
+  describe('color roles', () => {
+    it('should assign roles from custom property names and usage', async () => {
+      const html = `
+        <html>
+          <head>
+            <meta name="theme-color" content="#635bff">
+            <style>
+              :root {
+                --primary-color: #635bff;
+                --secondary-color: #0a2540;
+                --accent-color: #00d924;
+              }
+              body { color: #425466; background-color: #ffffff; }
+              .btn { background: var(--primary-color); color: #ffffff; }
+              a { color: var(--accent-color); }
+            </style>
+          </head>
+          <body></body>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://stripe.com', noStylesheets)
+      const roleOf = (value: string) => assets.colors.find(color => color.value === value)?.role
+
+      expect(roleOf('#635bff')).toBe('primary')
+      expect(roleOf('#0a2540')).toBe('secondary')
+      expect(roleOf('#00d924')).toBe('accent')
+      expect(roleOf('#425466')).toBe('text')
+      expect(roleOf('#ffffff')).toBe('background')
+
+      // Primary color is used by the definition, the button, and the theme-color meta tag
+      const primary = assets.colors.find(color => color.value === '#635bff')
+      expect(primary?.usageCount).toBe(3)
+      expect(assets.colors[0].value).toBe('#635bff')
+    })
+
+    it('should fall back to the most used saturated color as primary', async () => {
+      const html = `
+        <html>
+          <head>
+            <style>
+              h1 { color: #e63946; }
+              .card { border-color: #e63946; }
+              .badge { background: #e63946; }
+              footer { background: #1d3557; }
+              p { color: #333333; }
+            </style>
+          </head>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://example.com', noStylesheets)
+      const roleOf = (value: string) => assets.colors.find(color => color.value === value)?.role
+
+      expect(roleOf('#e63946')).toBe('primary')
+      expect(roleOf('#1d3557')).toBe('secondary')
+      expect(roleOf('#333333')).toBe('text')
+    })
+  })
+  describe('@font-face', () => {
+    it('should group faces per family with resolved file URLs', async () => {
+      const html = `
+        <html>
+          <head>
+            <link rel="stylesheet" href="/assets/css/fonts.css">
+            <style>
+              @font-face {
+                font-family: "Inter";
+                font-weight: bold;
+                src: url(/fonts/inter-bold.woff2) format("woff2");
+              }
+            </style>
+          </head>
+        </html>
+      `
+      const stylesheet = `
+        /* Regular */
+        @font-face {
+          font-family: 'Inter';
+          font-style: normal;
+          font-weight: 400;
+          src: local('Inter'), url("../fonts/inter-regular.woff2") format('woff2'), url(../fonts/inter-regular.woff) format('woff');
+          unicode-range: U+0000-00FF, U+0131;
+        }
+        @font-face {
+          font-family: 'Inter';
+          font-style: italic;
+          font-weight: 100 900;
+          src: url(../fonts/inter-italic.ttf);
+        }
+        body { font-family: 'Inter', sans-serif; }
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://example.com/', {
+        fetchStylesheet: async () => stylesheet
+      })
+      const inter = assets.fonts.filter(font => font.name === 'Inter')
+
+      expect(inter).toHaveLength(1)
+      expect(inter[0].faces).toEqual([
+        {
+          weight: '100 900',
+          style: 'italic',
+          sources: [{ url: 'https://example.com/assets/fonts/inter-italic.ttf', format: 'ttf' }]
+        },
+        {
+          weight: '400',
+          style: 'normal',
+          unicodeRange: 'U+0000-00FF, U+0131',
+          sources: [
+            { url: 'https://example.com/assets/fonts/inter-regular.woff2', format: 'woff2' },
+            { url: 'https://example.com/assets/fonts/inter-regular.woff', format: 'woff' }
+          ]
+        },
+        {
+          weight: '700',
+          style: 'normal',
+          sources: [{ url: 'https://example.com/fonts/inter-bold.woff2', format: 'woff2' }]
+        }
+      ])
+    })
+
+    it('should attribute font service families to their provider', async () => {
+      const html = `
+        <html>
+          <head>
+            <link rel="preconnect" href="https://fonts.googleapis.com">
+            <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter:wght@400;700&family=Roboto+Mono">
+            <link rel="stylesheet" href="https://use.typekit.net/abc1def.css">
+            <style>h1 { font-family: proxima-nova, sans-serif; }</style>
+          </head>
+        </html>
+      `
+      const kit = `@font-face { font-family: "proxima-nova"; src: url("https://use.typekit.net/af/949f99/l?primer=7cdcb4") format("woff2"); font-weight: 700; }`
+
+      const assets = await parseHtmlSecurely(html, 'https://example.com/', {
+        fetchStylesheet: async url => (url.includes('typekit') ? kit : '')
+      })
+
+      expect(assets.fonts.map(font => [font.name, font.provider, font.license])).toEqual([
+        ['Inter', 'google', 'open'],
+        ['Roboto Mono', 'google', 'open'],
+        ['proxima-nova', 'adobe', 'commercial']
+      ])
+      expect(assets.fonts[2].kitId).toBe('abc1def')
+    })
+  })
+  describe('web app manifest', () => {
+    it('should add manifest icons, colors and brand names', async () => {
+      const html = `
+        <html>
+          <head>
+            <link rel="manifest" href="/site.webmanifest">
+            <link rel="icon" href="/favicon.ico">
+          </head>
+        </html>
+      `
+      const manifest = JSON.stringify({
+        name: 'Acme Workspace',
+        short_name: 'Acme',
+        theme_color: '#ff5a1f',
+        background_color: '#fafafa',
+        icons: [{ src: '/android-chrome-512x512.png', sizes: '512x512', type: 'image/png' }]
+      })
+
+      const assets = await parseHtmlSecurely(html, 'https://acme.com', {
+        ...noStylesheets,
+        fetchManifest: async () => manifest
+      })
+
+      expect(assets.brand).toEqual({ name: 'Acme Workspace', shortName: 'Acme' })
+      expect(assets.logos.map(logo => logo.url)).toContain('https://acme.com/android-chrome-512x512.png')
+      expect(assets.colors.find(color => color.value === '#ff5a1f')?.role).toBe('primary')
+      expect(assets.colors.find(color => color.value === '#fafafa')?.role).toBe('background')
+    })
+  })
+  describe('structured data', () => {
+    it('should list the JSON-LD organization logo first and merge brand details', async () => {
+      const html = `
+        <html>
+          <head>
+            <link rel="manifest" href="/manifest.json">
+            <script type="application/ld+json">
+              {
+                "@context": "https://schema.org",
+                "@type": "Organization",
+                "name": "Acme",
+                "legalName": "Acme Corporation Inc.",
+                "logo": "https://acme.com/brand/acme.svg",
+                "sameAs": ["https://github.com/acme"]
+              }
+            </script>
+          </head>
+          <body>
+            <img src="/img/header-logo.png" alt="Acme logo">
+          </body>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://acme.com', {
+        ...noStylesheets,
+        fetchManifest: async () => JSON.stringify({ name: 'Acme App', short_name: 'Acme' })
+      })
+
+      expect(assets.logos[0]).toMatchObject({ url: 'https://acme.com/brand/acme.svg', source: 'structured-data' })
+      expect(assets.brand).toEqual({
+        name: 'Acme',
+        shortName: 'Acme',
+        legalName: 'Acme Corporation Inc.',
+        socialProfiles: ['https://github.com/acme']
+      })
+    })
+  })
+  describe('logo detection', () => {
+    it('should find header logos without keywords and skip icon images', async () => {
+      const html = `
+        <html>
+          <head><link rel="icon" href="/favicon.png" sizes="32x32"></head>
+          <body>
+            <header>
+              <a href="/"><img src="/static/wordmark-2x.png" alt="Acme"></a>
+              <img src="/static/icons/search.svg" class="icon icon-search" width="16" height="16">
+            </header>
+            <main>
+              <img src="/static/hero.jpg" alt="Team at work">
+            </main>
+          </body>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://www.acme.com', noStylesheets)
+      const urls = assets.logos.map(logo => logo.url)
+
+      expect(urls[0]).toBe('https://www.acme.com/static/wordmark-2x.png')
+      expect(assets.logos[0].signals).toEqual(expect.arrayContaining(['header', 'home-link', 'alt-matches-site']))
+      expect(urls).not.toContain('https://www.acme.com/static/icons/search.svg')
+      expect(assets.illustrations.map(illustration => illustration.url)).toEqual(['https://www.acme.com/static/hero.jpg'])
+    })
+
+    it('should sanitize inline SVG logos into standalone files', async () => {
+      const html = `
+        <html>
+          <head><style>.site-header a { color: #ff5a1f; }</style></head>
+          <body>
+            <svg style="display: none"><symbol id="acme-mark" viewBox="0 0 40 40"><path fill="currentColor" d="M0 0h40v40H0z"/></symbol></svg>
+            <header class="site-header">
+              <a href="/" aria-label="Acme home">
+                <svg class="logo" width="40" height="40" onload="alert(1)"><use href="#acme-mark"/><script>alert(1)</script></svg>
+              </a>
+            </header>
+          </body>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://www.acme.com', noStylesheets)
+      const inline = assets.logos.find(logo => logo.source === 'inline')!
+      const svg = new TextDecoder().decode(Uint8Array.from(atob(inline.url!.split(',')[1]), char => char.charCodeAt(0)))
+
+      expect(inline.alt).toBe('Acme home')
+      expect(svg).toBe(
+        '<svg class="logo" width="40" height="40" viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg">' +
+        '<g><svg viewBox="0 0 40 40" width="100%" height="100%"><path fill="#ff5a1f" d="M0 0h40v40H0z"/></svg></g>' +
+        '</svg>'
+      )
+    })
+
+    it('should resolve logos drawn from an external sprite file', async () => {
+      const html = `
+        <html>
+          <body>
+            <header>
+              <a href="/"><svg class="brand"><use xlink:href="/static/sprite.svg#logo"></use></svg></a>
+              <button><svg class="icon"><use href="/static/sprite.svg#search"></use></svg></button>
+            </header>
+          </body>
+        </html>
+      `
+      const sprite = `<svg xmlns="http://www.w3.org/2000/svg">
+        <defs><linearGradient id="brand-fill"><stop stop-color="#635bff"/></linearGradient></defs>
+        <symbol id="logo" viewBox="0 0 120 32"><title>Acme</title><path fill="url(#brand-fill)" d="M0 0h120v32H0z"/></symbol>
+        <symbol id="search" viewBox="0 0 16 16"><circle cx="8" cy="8" r="6"/></symbol>
+      </svg>`
+      const fetchSvgSprite = vi.fn(async () => sprite)
+
+      const assets = await parseHtmlSecurely(html, 'https://www.acme.com', { ...noStylesheets, fetchSvgSprite })
+      const inline = assets.logos.filter(logo => logo.source === 'inline')
+      const svg = new TextDecoder().decode(Uint8Array.from(atob(inline[0].url!.split(',')[1]), char => char.charCodeAt(0)))
+
+      expect(fetchSvgSprite).toHaveBeenCalledTimes(1)
+      expect(fetchSvgSprite).toHaveBeenCalledWith('https://www.acme.com/static/sprite.svg')
+      expect(inline).toHaveLength(1)
+      expect(inline[0].signals).toEqual(expect.arrayContaining(['home-link', 'logo-keyword']))
+      expect(svg).toBe(
+        '<svg class="brand" viewBox="0 0 120 32" xmlns="http://www.w3.org/2000/svg">' +
+        '<defs><linearGradient id="brand-fill"><stop stop-color="#635bff"/></linearGradient></defs>' +
+        '<g><svg viewBox="0 0 120 32" width="100%" height="100%"><title>Acme</title><path fill="url(#brand-fill)" d="M0 0h120v32H0z"/></svg></g>' +
+        '</svg>'
+      )
+    })
+
+    it('should only fetch sprites referenced by logo candidates', async () => {
+      const html = `
+        <html>
+          <body>
+            <main>
+              <svg class="icon"><use href="/icons/a.svg#cart"></use></svg>
+              <svg class="icon"><use href="/icons/b.svg#user"></use></svg>
+              <svg class="icon"><use href="/icons/c.svg#menu"></use></svg>
+            </main>
+            <header>
+              <svg class="logo"><use href=""></use><use href="/static/sprite.svg"></use></svg>
+              <a href="/"><svg class="brand"><use href="/static/sprite.svg#logo"></use></svg></a>
+            </header>
+          </body>
+        </html>
+      `
+      const fetchSvgSprite = vi.fn(async () => '<svg><symbol id="logo" viewBox="0 0 10 10"><path d="M0 0h10v10H0z"/></symbol></svg>')
+
+      await parseHtmlSecurely(html, 'https://www.acme.com', { ...noStylesheets, fetchSvgSprite })
+
+      expect(fetchSvgSprite).toHaveBeenCalledTimes(1)
+      expect(fetchSvgSprite).toHaveBeenCalledWith('https://www.acme.com/static/sprite.svg')
+    })
+  })
+  describe('responsive images', () => {
+    it('should use the highest resolution rendition for logos and illustrations', async () => {
+      const html = `
+        <html>
+          <body>
+            <img src="/img/logo.png" srcset="/img/logo.png 1x, /img/logo@3x.png 3x" alt="Company logo">
+            <picture>
+              <source srcset="/img/team-1920.avif 1920w" type="image/avif">
+              <img src="data:image/gif;base64,R0lGODlhAQABAAAAACw=" data-src="/img/team-640.jpg" alt="Our team">
+            </picture>
+          </body>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://example.com', noStylesheets)
+      const logo = assets.logos.find(asset => asset.alt === 'Company logo')
+
+      expect(logo?.url).toBe('https://example.com/img/logo@3x.png')
+      expect(logo?.renditions).toHaveLength(2)
+      expect(assets.illustrations[0].url).toBe('https://example.com/img/team-1920.avif')
+      expect(assets.illustrations[0].renditions?.map(rendition => rendition.url)).toContain('https://example.com/img/team-640.jpg')
+    })
+  })
+  describe('color syntax', () => {
+    it('should normalize modern CSS color syntaxes to hex', async () => {
+      const html = `
+        <html>
+          <head>
+            <meta name="theme-color" content="rebeccapurple">
+            <style>
+              .brand { color: hsl(210.5, 50.25%, 40.5%); }
+              .accent { background: oklch(62.8% 0.2577 29.23); }
+              .muted { color: rgb(0 123 255 / 50%); }
+              .jump { background: url(#fff-pattern); }
+            </style>
+          </head>
+          <body></body>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://example.com', noStylesheets)
+      const values = assets.colors.map(color => color.value)
+
+      expect(values).toEqual(expect.arrayContaining(['#663399', '#33669b', '#ff0000', 'rgba(0, 123, 255, 0.5)']))
+      expect(values).not.toContain('#ffffff')
+    })
+  })
+  describe('dark mode', () => {
+    it('should keep dark theme colors in a separate palette', async () => {
+      const html = `
+        <html>
+          <head>
+            <style>
+              :root { --brand: #635bff; --surface: #ffffff; --ink: #1a1a1a; }
+              body { background: var(--surface); color: var(--ink); }
+              .btn { background: var(--brand); }
+              @media (prefers-color-scheme: dark) {
+                :root { --surface: #0b0b12; --ink: #e8e8f0; }
+              }
+              [data-theme="dark"] .btn { background: #8f88ff; }
+              .dark a { color: #7ad1ff; }
+            </style>
+          </head>
+          <body></body>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://example.com', noStylesheets)
+      const light = assets.colors.map(color => color.value)
+      const dark = assets.darkColors?.map(color => color.value)
+
+      expect(light).toEqual(expect.arrayContaining(['#635bff', '#ffffff', '#1a1a1a']))
+      expect(light).not.toContain('#0b0b12')
+      expect(light).not.toContain('#8f88ff')
+      expect(dark).toEqual(expect.arrayContaining(['#0b0b12', '#e8e8f0', '#8f88ff', '#7ad1ff']))
+      expect(assets.darkColors?.find(color => color.value === '#0b0b12')?.role).toBe('background')
+    })
+  })
+  describe('gradients', () => {
+    it('should extract gradients from stylesheets and inline styles', async () => {
+      const html = `
+        <html>
+          <head>
+            <style>
+              .hero { background: linear-gradient(180deg, #635bff 0%, #0a2540 100%); }
+            </style>
+          </head>
+          <body>
+            <div style="background-image: radial-gradient(circle, #ffffff, #635bff)"></div>
+          </body>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://stripe.com', noStylesheets)
+
+      expect(assets.gradients).toHaveLength(2)
+      expect(assets.gradients?.map(gradient => gradient.value)).toEqual(expect.arrayContaining([
+        'linear-gradient(180deg, #635bff 0%, #0a2540 100%)',
+        'radial-gradient(circle, #ffffff, #635bff)'
+      ]))
+      expect(assets.colors.map(color => color.value)).toContain('#0a2540')
+    })
+  })
+  describe('css context', () => {
+    it('should read declarations instead of scanning raw CSS text', async () => {
+      const html = `
+        <html>
+          <head>
+            <style>
+              /* .old { color: #ff0000; font-family: Comic Sans MS; } */
+              @media (min-width: 768px) {
+                .hero { background: #0a2540 url("/img/hero.png") no-repeat; }
+              }
+              h1 { font: 700 2rem/1.2 "Inter Display", system-ui, sans-serif; }
+            </style>
+          </head>
+          <body><div style="color: #635bff"></div></body>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://example.com', noStylesheets)
+      const colors = assets.colors.map(color => color.value)
+
+      expect(colors).not.toContain('#ff0000')
+      expect(assets.fonts.map(font => font.name)).toEqual(['Inter Display'])
+      expect(assets.fonts[0].cssContext).toEqual({ selector: 'h1', property: 'font' })
+      expect(assets.colors.find(color => color.value === '#635bff')?.cssContext).toEqual({ selector: 'div', property: 'color' })
+      expect(assets.illustrations).toEqual([expect.objectContaining({
+        url: 'https://example.com/img/hero.png',
+        cssContext: { selector: '.hero', property: 'background', media: '(min-width: 768px)' }
+      })])
+    })
+  })
+  describe('custom properties', () => {
+    it('should resolve var() chains and attach token names to colors', async () => {
+      const html = `
+        <html>
+          <head>
+            <style>
+              :root { --brand-500: #0a7cff; --primary: var(--brand-500); --surface: var(--undefined, #f6f9fc); }
+              .btn { background: var(--primary); }
+              .hero { background: linear-gradient(var(--primary), var(--surface)); }
+            </style>
+          </head>
+          <body></body>
+        </html>
+      `
+
+      const assets = await parseHtmlSecurely(html, 'https://example.com', noStylesheets)
+      const brand = assets.colors.find(color => color.value === '#0a7cff')
+
+      expect(brand?.tokens).toEqual(['--brand-500', '--primary'])
+      expect(brand?.role).toBe('primary')
+      expect(assets.colors.find(color => color.value === '#f6f9fc')?.tokens).toEqual(['--surface'])
+      expect(assets.gradients?.[0].value).toBe('linear-gradient(#0a7cff, #f6f9fc)')
+    })
+  })
+})
@@ -3,12 +3,79 @@
  * Uses cheerio for robust and secure DOM manipulation
  */
 import * as cheerio from 'cheerio';
-import type { BrandAsset, ExtractedAssets } from './assetExtraction';
+import type { BrandAsset, CssContext, ExtractedAssets, FontFaceDefinition, FontFileSource, LogoSignal } from './assetTypes';
+import { assignColorRoles, recordColorUsage, type ColorUsage } from './colorRoles';
+import { crawlStylesheets, extractImportUrls, type StylesheetCrawlLimits } from './stylesheetCrawler';
+import { parseWebManifest } from './webManifest';
+import { extractStructuredDataBrand } from './jsonLd';
+import { getKeywordSignals, rankLogos } from './logoScoring';
+import { resolveImageSources, type ResolvedImage } from './responsiveImages';
+import { isDarkSchemeContext } from './colorScheme';
+import { extractGradients } from './gradients';
+import { clusterColors, type ColorClusteringOptions } from './colorClustering';
+import { collectCustomProperties, resolveCustomProperties } from './customProperties';
+import { extractTypography, parseFontShorthand } from './typography';
+import { classifyFonts, FONT_PROVIDER_LABELS, identifyFontService } from './fontProviders';
+import { findCssColors, parseColorWithAlpha, toCanonicalColor } from './colorModel';
+import { encodeSvgDataUrl, sanitizeSvg } from './svgSanitizer';
+import {
+  extractCssUrls,
+  flattenRules,
+  parseDeclarationList,
+  parseStylesheet,
+  splitCommaList,
+  type CssRule,
+  type ScopedDeclaration
+} from './cssParser';
+
+/**
+ * Generic families, CSS-wide keywords and system font aliases, none of which are brand fonts
+ */
+const GENERIC_FONT_FAMILIES = new Set([
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'math', 'emoji', 'fangsong',
+  'system-ui', 'ui-serif', 'ui-sans-serif', 'ui-monospace', 'ui-rounded',
+  'inherit', 'initial', 'unset', 'revert', 'revert-layer',
+  '-apple-system', 'blinkmacsystemfont',
+  'caption', 'icon', 'menu', 'message-box', 'small-caption', 'status-bar'
+]);
+
+/**
+ * Most external SVG sprite files fetched per page; icon sprites usually share one file
+ */
+const MAX_SVG_SPRITES = 3;
+
+/**
+ * Options for running the parser outside the browser
+ */
+export interface ParseOptions {
+  /**
+   * Fetch the text of a linked stylesheet. Defaults to the same-origin `/api/proxy`
+   * endpoint, which only exists in the browser; server runtimes fetch directly.
+   */
+  fetchStylesheet?: (url: string) => Promise<string>;
+  /**
+   * Limits for following linked stylesheets and their @import chains
+   */
+  stylesheetLimits?: Partial<StylesheetCrawlLimits>;
+  /**
+   * Fetch the text of the page's Web App Manifest. Defaults to the `/api/proxy` endpoint.
+   */
+  fetchManifest?: (url: string) => Promise<string>;
+  /**
+   * Fetch the text of an external SVG sprite that inline logos reference with
+   * `<use href="sprite.svg#id">`. Defaults to the `/api/proxy` endpoint.
+   */
+  fetchSvgSprite?: (url: string) => Promise<string>;
+  /**
+   * Settings for merging perceptually similar colors into a compact palette
+   */
+  colorClustering?: Partial<ColorClusteringOptions>;
+}
 
 /**
  * Parse HTML content and extract brand assets using cheerio (secure implementation)
  */
-export async function parseHtmlSecurely(html: string, baseUrl: string): Promise<ExtractedAssets> {
+export async function parseHtmlSecurely(html: string, baseUrl: string, options: ParseOptions = {}): Promise<ExtractedAssets> {
   const assets: ExtractedAssets = {
     logos: [],
     colors: [],
@@ -33,49 +100,153 @@ export async function parseHtmlSecurely(html: string, baseUrl: string): Promise<
       xml: false
     });
     
-  // Extract logos
-  assets.logos = extractLogosSecurely($, validBaseUrl);
-  
-  // Add common favicon if not already present
-  const hasFavicon = assets.logos.some(logo => 
-    logo.url?.includes('favicon.ico') || logo.url?.includes('favicon')
-  );
-  if (!hasFavicon) {
-    try {
-      const faviconUrl = new URL('/favicon.ico', validBaseUrl);
-      assets.logos.push({
-        type: 'logo',
-        url: faviconUrl.href,
-        source: 'html',
-        alt: 'Default favicon'
-      });
-    } catch (e) {
-      // Ignore favicon.ico if base URL is invalid
-    }
-  }
+    // Every <style> block and style attribute, parsed once
+    const pageStylesheets = $('style').toArray().map(el => parseStylesheet($(el).html() || ''));
+    const styleAttributeDeclarations = $('[style]').toArray().flatMap(el => parseStyleAttribute($(el).attr('style') || '', el.tagName));
+    const pageDeclarations: ScopedDeclaration[] = [
+      ...styleAttributeDeclarations,
+      ...pageStylesheets.flatMap(stylesheet => flattenRules(stylesheet.rules))
+    ];
+    
+    // Declarations from every stylesheet, used to work out what each color is used for
+    const presentationDeclarations = extractPresentationAttributes($);
+    const cssDeclarations: ScopedDeclaration[] = [...pageDeclarations, ...presentationDeclarations];
     
-    // Extract colors (still uses regex as it's pattern matching in CSS)
-    assets.colors = extractColorsSecurely($, html);
+    // Extract colors from declarations, so every color knows where it was used
+    assets.colors = extractColorsFromDeclarations(cssDeclarations);
     
     // Extract fonts
-    assets.fonts = extractFontsSecurely($, validBaseUrl);
+    assets.fonts = extractFontsSecurely($, validBaseUrl, pageStylesheets.flatMap(stylesheet => stylesheet.rules), pageDeclarations);
     
     // Extract illustrations
-    assets.illustrations = extractIllustrationsSecurely($, validBaseUrl);
+    assets.illustrations = extractIllustrationsSecurely($, validBaseUrl, pageDeclarations);
     
     // Enhanced extraction for SPAs - extract additional assets from CSS files
-    const cssAssets = await extractAssetsFromCssLinks($, validBaseUrl);
+    const cssAssets = await extractAssetsFromCssLinks(
+      $,
+      validBaseUrl,
+      options.fetchStylesheet ?? fetchTextThroughProxy,
+      cssDeclarations,
+      options.stylesheetLimits
+    );
     assets.fonts.push(...cssAssets.fonts);
     assets.colors.push(...cssAssets.colors);
     
+    // Extract logos once every stylesheet is known, so inline SVGs can pick up the color they inherit
+    const elementDeclarations = new Set([...styleAttributeDeclarations, ...presentationDeclarations]);
+    const svgSprites = await fetchSvgSprites($, validBaseUrl, options.fetchSvgSprite ?? fetchTextThroughProxy);
+    assets.logos = extractLogosSecurely(
+      $,
+      validBaseUrl,
+      cssDeclarations.filter(declaration => !elementDeclarations.has(declaration)),
+      svgSprites
+    );
+    
+    // Add common favicon if not already present
+    const hasFavicon = assets.logos.some(logo => 
+      logo.url?.includes('favicon.ico') || logo.url?.includes('favicon')
+    );
+    if (!hasFavicon) {
+      try {
+        const faviconUrl = new URL('/favicon.ico', validBaseUrl);
+        assets.logos.push({
+          type: 'logo',
+          url: faviconUrl.href,
+          source: 'html',
+          alt: 'Default favicon',
+          signals: ['favicon']
+        });
+      } catch (e) {
+        // Ignore favicon.ico if base URL is invalid
+      }
+    }
+    
     // Extract meta tag assets for SPAs (OG images, theme colors, etc.)
     const metaAssets = extractAssetsFromMetaTags($, validBaseUrl);
     assets.logos.push(...metaAssets.logos);
     assets.colors.push(...metaAssets.colors);
     assets.illustrations.push(...metaAssets.illustrations);
     
+    // Web App Manifest icons, colors and app names
+    const manifest = await extractAssetsFromManifest($, validBaseUrl, options.fetchManifest ?? fetchTextThroughProxy);
+    const themeColors = metaAssets.colors.map(color => color.value!);
+    if (manifest) {
+      assets.logos.push(...manifest.logos);
+      assets.colors.push(...manifest.colors);
+      if (manifest.themeColor) themeColors.push(manifest.themeColor);
+      if (manifest.backgroundColor) {
+        cssDeclarations.push({ selector: ':root', property: 'background-color', value: manifest.backgroundColor, important: false });
+      }
+    }
+    
+    // schema.org Organization logo and brand details from JSON-LD
+    const jsonLdScripts = $('script[type="application/ld+json"]').map((_, el) => $(el).html() || '').get();
+    const structuredData = extractStructuredDataBrand(jsonLdScripts, validBaseUrl);
+    assets.logos.unshift(...structuredData.logos);
+    
     // Deduplicate assets (reusing existing function)
-    return deduplicateAssets(assets);
+    const deduplicated = deduplicateAssets(assets);
+    
+    // Provider, license hint and free alternatives for every font family
+    deduplicated.fonts = classifyFonts(deduplicated.fonts);
+    
+    // Structured data names the organization officially; the manifest names the app
+    const brand = { ...manifest?.brand, ...structuredData.brand };
+    if (Object.keys(brand).length > 0) {
+      deduplicated.brand = brand;
+    }
+    
+    // Score logos and put the most likely primary logo first
+    const siteNames = [
+      brand.name,
+      brand.shortName,
+      $('meta[property="og:site_name"]').attr('content'),
+      $('meta[name="application-name"]').attr('content'),
+      new URL(validBaseUrl).hostname.replace(/^www\./, '').split('.')[0]
+    ].filter((name): name is string => !!name);
+    deduplicated.logos = rankLogos(deduplicated.logos, siteNames);
+    
+    // Dark themes (prefers-color-scheme, [data-theme="dark"], .dark) get a palette of their own
+    const darkDeclarations = cssDeclarations.filter(declaration => isDarkSchemeContext(declaration.selector, declaration.media));
+    const lightDeclarations = cssDeclarations.filter(declaration => !isDarkSchemeContext(declaration.selector, declaration.media));
+    const darkColors = findDeclarationColors(darkDeclarations);
+    const lightColors = new Set(findDeclarationColors(lightDeclarations));
+    const darkOnlyColors = new Set(darkColors.filter(color => !lightColors.has(color) && !themeColors.includes(color)));
+    
+    // Gradients are kept whole rather than only as the colors of their stops; var() stops resolve to light theme values
+    const lightCustomProperties = collectCustomProperties(lightDeclarations);
+    const gradients = extractGradients(cssDeclarations.map(({ value }) =>
+      resolveCustomProperties(value, lightCustomProperties)?.value ?? value
+    ));
+    if (gradients.length > 0) {
+      deduplicated.gradients = gradients;
+    }
+    
+    // Headings, body text, buttons and code, from the rules that target them
+    const typography = extractTypography(lightDeclarations);
+    if (typography.length > 0) {
+      deduplicated.typography = typography;
+    }
+    
+    // Collapse near-duplicate colors, then annotate them with their semantic role and how often they are used
+    const clustered = clusterColors(
+      deduplicated.colors.filter(color => !darkOnlyColors.has(color.value!)),
+      buildColorUsage(lightDeclarations, themeColors),
+      options.colorClustering
+    );
+    deduplicated.colors = assignColorRoles(clustered.colors, clustered.usage);
+    
+    if (darkColors.length > 0) {
+      // Dark custom properties come last so they override the light definitions for var() lookups
+      const darkPalette = clusterColors(
+        darkColors.map(value => ({ type: 'color' as const, value, source: 'css' as const })),
+        buildColorUsage([...lightDeclarations, ...darkDeclarations], []),
+        options.colorClustering
+      );
+      deduplicated.darkColors = assignColorRoles(darkPalette.colors, darkPalette.usage);
+    }
+    
+    return deduplicated;
   } catch (error) {
     console.error('Secure HTML parsing failed:', error);
     return assets;
@@ -84,8 +255,16 @@ export async function parseHtmlSecurely(html: string, baseUrl: string): Promise<
 
 /**
  * Extract logo assets from HTML using cheerio
+ *
+ * @param ruleDeclarations Declarations of the page's style rules, for the color inline SVGs inherit
+ * @param svgSprites External sprite files referenced by inline SVGs, by URL
  */
-function extractLogosSecurely($: cheerio.CheerioAPI, baseUrl: string): BrandAsset[] {
+function extractLogosSecurely(
+  $: cheerio.CheerioAPI,
+  baseUrl: string,
+  ruleDeclarations: ScopedDeclaration[],
+  svgSprites: Map<string, cheerio.CheerioAPI>
+): BrandAsset[] {
   const logos: BrandAsset[] = [];
   
   // Extract favicon and touch icons with size prioritization
@@ -101,7 +280,9 @@ function extractLogosSecurely($: cheerio.CheerioAPI, baseUrl: string): BrandAsse
             type: 'logo',
             url: url.href,
             source: 'link',
-            alt: sizes ? `Favicon (${sizes})` : 'Favicon'
+            alt: sizes ? `Favicon (${sizes})` : 'Favicon',
+            ...(sizes ? { sizes } : {}),
+            signals: ['favicon']
           });
         }
       } catch (e) {
@@ -111,50 +292,54 @@ function extractLogosSecurely($: cheerio.CheerioAPI, baseUrl: string): BrandAsse
     }
   });
   
-  // Extract logo images (images with logo-related keywords)
+  // Extract logo images: logo keywords, or images in the site header / home link
   $('img').each((_, el) => {
-    const src = $(el).attr('src');
+    const src = $(el).attr('src') || '';
     const alt = $(el).attr('alt') || '';
     const className = $(el).attr('class') || '';
     const id = $(el).attr('id') || '';
     
-    if (src) {
-      try {
-        // Validate URL
-        const url = new URL(src, baseUrl);
-        if (url.protocol === 'http:' || url.protocol === 'https:') {
-          // Check if this looks like a logo with enhanced detection
-          if (isLikelyLogo(src, alt, className, id)) {
-            logos.push({
-              type: 'logo',
-              url: url.href,
-              alt: alt || undefined,
-              source: 'html'
-            });
-          }
-        }
-      } catch (e) {
-        console.warn('Invalid image URL found:', src);
+    // Resolve srcset, <picture> sources and lazy-loading attributes to the sharpest file
+    const image = resolveImageElement($, el, baseUrl);
+    if (image) {
+      const signals = getLogoSignals($, el, `${src} ${image.url} ${alt} ${className} ${id}`, baseUrl);
+      if (isLogoCandidate(signals, true)) {
+        const width = parseInt($(el).attr('width') || '');
+        const height = parseInt($(el).attr('height') || '');
+        if ((width && width < 24) || (height && height < 24)) signals.push('tiny');
+        
+        logos.push({
+          type: 'logo',
+          url: image.url,
+          alt: alt || undefined,
+          source: 'html',
+          ...(width && height ? { sizes: `${width}x${height}` } : {}),
+          ...(image.renditions.length > 1 ? { renditions: image.renditions } : {}),
+          signals
+        });
       }
     }
   });
 
-  // Extract SVG logos (inline SVGs with logo-related attributes)
+  // Extract SVG logos (inline SVGs with logo-related attributes or wrapped in the home link)
   $('svg').each((_, el) => {
-    const className = $(el).attr('class') || '';
-    const id = $(el).attr('id') || '';
-    const title = $(el).find('title').text() || '';
+    const title = $(el).find('title').first().text() || $(el).attr('aria-label') || '';
+    const signals = getInlineSvgSignals($, el, baseUrl);
     
-    if (isLikelyLogo('', title, className, id)) {
-      // Convert SVG to data URL for inline logos
-      const svgHtml = $.html(el);
-      if (svgHtml) {
-        const dataUrl = `data:image/svg+xml;base64,${Buffer.from(svgHtml).toString('base64')}`;
+    if (isLogoCandidate(signals, false)) {
+      // Sanitize the inline SVG into a standalone file and embed it as a data URL
+      const svg = sanitizeSvg($.html(el), {
+        currentColor: getInheritedColor($, el, ruleDeclarations),
+        resolveReference: (referenceId, documentUrl) => findSvgDefinition($, referenceId, svgSprites, documentUrl && getSpriteUrl(documentUrl, baseUrl))
+      });
+      if (svg) {
+        const linkLabel = $(el).closest('a').attr('aria-label') || '';
         logos.push({
           type: 'logo',
-          url: dataUrl,
-          alt: title || 'Inline SVG logo',
-          source: 'inline'
+          url: encodeSvgDataUrl(svg),
+          alt: title || linkLabel || 'Inline SVG logo',
+          source: 'inline',
+          signals
         });
       }
     }
@@ -164,254 +349,392 @@ function extractLogosSecurely($: cheerio.CheerioAPI, baseUrl: string): BrandAsse
 }
 
 /**
- * Check if an image is likely to be a logo (enhanced with ID support)
+ * Logo signals of an inline SVG, from its title, class, id and the sprite references of its <use> elements
  */
-function isLikelyLogo(src: string, alt: string, className: string, id?: string): boolean {
-  const logoKeywords = ['logo', 'brand', 'mark', 'icon'];
-  const text = `${src} ${alt} ${className} ${id || ''}`.toLowerCase();
-  return logoKeywords.some(keyword => text.includes(keyword));
+function getInlineSvgSignals($: cheerio.CheerioAPI, el: Parameters<cheerio.CheerioAPI>[0], baseUrl: string): LogoSignal[] {
+  const className = $(el).attr('class') || '';
+  const id = $(el).attr('id') || '';
+  const title = $(el).find('title').first().text() || $(el).attr('aria-label') || '';
+  // Sprite references often name the mark, e.g. <use href="/sprite.svg#logo">
+  const references = $(el).find('use').toArray().map(use => getUseHref($, use));
+  return getLogoSignals($, el, `${title} ${className} ${id} ${references.join(' ')}`, baseUrl);
+}
+
+function getUseHref($: cheerio.CheerioAPI, el: Parameters<cheerio.CheerioAPI>[0]): string {
+  return $(el).attr('href') || $(el).attr('xlink:href') || '';
 }
 
 /**
- * Extract color assets from HTML and CSS
- * Still uses regex for color extraction as it's appropriate for this use case
+ * The color an element paints currentColor with: the `color` of the element or its closest ancestor
+ * that sets one, from its style attribute, its color attribute or the last rule matching it
  */
-function extractColorsSecurely($: cheerio.CheerioAPI, html: string): BrandAsset[] {
-  const colors: BrandAsset[] = [];
-  const colorSet = new Set<string>();
-  
-  // Process inline styles
-  $('[style]').each((_, el) => {
-    const style = $(el).attr('style') || '';
-    extractColorsFromText(style, colors, colorSet);
-  });
-  
-  // Process style tags with enhanced extraction
-  $('style').each((_, el) => {
-    const styleContent = $(el).html() || '';
-    extractColorsFromText(styleContent, colors, colorSet);
-    
-    // Also use the enhanced CSS content extraction for style tags
-    const cssColors = extractColorsFromCssContent(styleContent);
-    cssColors.forEach(color => {
-      if (!colorSet.has(color.value!)) {
-        colorSet.add(color.value!);
-        colors.push(color);
-      }
+function getInheritedColor($: cheerio.CheerioAPI, el: Parameters<cheerio.CheerioAPI>[0], ruleDeclarations: ScopedDeclaration[]): string | undefined {
+  const customProperties = collectCustomProperties(ruleDeclarations);
+  const colorRules = ruleDeclarations.filter(declaration =>
+    declaration.property === 'color' && !declaration.media && !declaration.atRule && !isDarkSchemeContext(declaration.selector)
+  );
+
+  for (const node of [el, ...$(el).parents().toArray()]) {
+    const element = $(node);
+    const inlineColor = parseDeclarationList(element.attr('style') || '').filter(declaration => declaration.property === 'color').pop();
+    const matchingRules = colorRules.filter(declaration => matchesSelector(element, declaration.selector));
+    const rule = matchingRules.filter(declaration => declaration.important).pop() ?? matchingRules.pop();
+    // Inline styles win over rules unless only the rule is !important; the color attribute loses to both
+    const value = rule?.important && !inlineColor?.important
+      ? rule.value
+      : inlineColor?.value ?? rule?.value ?? element.attr('color');
+    if (!value) continue;
+
+    const resolved = resolveCustomProperties(value, customProperties)?.value.trim();
+    if (!resolved || /^(?:inherit|currentcolor|unset|initial|revert|revert-layer)$/i.test(resolved)) continue;
+    return parseColorWithAlpha(resolved) ? normalizeColor(resolved)! : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Whether an element matches a selector; selectors cheerio cannot evaluate (pseudo-elements,
+ * some pseudo-classes) never match
+ */
+function matchesSelector(element: ReturnType<cheerio.CheerioAPI>, selector: string): boolean {
+  try {
+    return element.is(selector);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Markup of the SVG element with this id, e.g. a <symbol> in a sprite
+ *
+ * @param spriteUrl Look only in this external sprite file; otherwise the page is searched first,
+ * then every fetched sprite (for definitions a sprite's symbols share)
+ */
+function findSvgDefinition(
+  $: cheerio.CheerioAPI,
+  id: string,
+  svgSprites: Map<string, cheerio.CheerioAPI>,
+  spriteUrl?: string | null
+): string | null {
+  const sources = spriteUrl !== undefined
+    ? [{ document: spriteUrl ? svgSprites.get(spriteUrl) : undefined, selector: '[id]' }]
+    : [{ document: $, selector: 'svg [id]' }, ...[...svgSprites.values()].map(document => ({ document, selector: '[id]' }))];
+
+  for (const { document, selector } of sources) {
+    const definition = document?.(selector).filter((_, el) => document(el).attr('id') === id).first();
+    if (document && definition?.length) return document.xml(definition);
+  }
+  return null;
+}
+
+/**
+ * Absolute URL of a sprite file without its fragment, or null for unsafe or malformed URLs
+ */
+function getSpriteUrl(href: string, baseUrl: string): string | null {
+  try {
+    const url = new URL(href, baseUrl);
+    url.hash = '';
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch the external sprite files inline logo SVGs point at with `<use href="sprite.svg#id">`
+ * Icon sprites elsewhere on the page are not fetched. Failed sprites are skipped; logos using
+ * them are left with nothing to show and dropped.
+ */
+async function fetchSvgSprites(
+  $: cheerio.CheerioAPI,
+  baseUrl: string,
+  fetchSvgSprite: (url: string) => Promise<string>
+): Promise<Map<string, cheerio.CheerioAPI>> {
+  const urls = new Set<string>();
+  $('svg').each((_, svg) => {
+    if (!isLogoCandidate(getInlineSvgSignals($, svg, baseUrl), false)) return;
+
+    $(svg).find('use').each((_, el) => {
+      // Only references to a symbol in another file; a bare URL would fetch that page itself
+      const href = getUseHref($, el);
+      const fragmentIndex = href.indexOf('#');
+      if (fragmentIndex <= 0 || fragmentIndex === href.length - 1) return;
+
+      const spriteUrl = getSpriteUrl(href, baseUrl);
+      if (spriteUrl && urls.size < MAX_SVG_SPRITES) urls.add(spriteUrl);
     });
   });
+
+  const sprites = new Map<string, cheerio.CheerioAPI>();
+  await Promise.all([...urls].map(async url => {
+    try {
+      sprites.set(url, cheerio.load(await fetchSvgSprite(url), { xml: true }));
+    } catch {
+      console.warn('Failed to fetch SVG sprite:', url);
+    }
+  }));
+  return sprites;
+}
+
+/**
+ * Find the best file for an <img>, looking at its srcset, lazy-loading attributes and <picture> sources
+ */
+function resolveImageElement($: cheerio.CheerioAPI, el: Parameters<cheerio.CheerioAPI>[0], baseUrl: string): ResolvedImage | null {
+  const pictureSources = $(el).parent('picture').find('source').toArray().map(source => $(source).attr() || {});
+  return resolveImageSources({ attributes: $(el).attr() || {}, pictureSources }, baseUrl);
+}
+
+/**
+ * Collect the page-position and keyword signals for a logo candidate element
+ */
+function getLogoSignals($: cheerio.CheerioAPI, el: Parameters<cheerio.CheerioAPI>[0], text: string, baseUrl: string): LogoSignal[] {
+  const signals = getKeywordSignals(text);
+  const element = $(el);
   
-  // Process any remaining CSS in the HTML (like in attributes)
-  extractColorsFromText(html, colors, colorSet);
+  if (element.closest('header, [role="banner"], #header, .header, .site-header').length > 0) {
+    signals.push('header');
+  }
+  if (element.closest('nav, [role="navigation"]').length > 0) {
+    signals.push('nav');
+  }
   
-  return colors;
+  const linkHref = element.closest('a').attr('href');
+  if (linkHref) {
+    try {
+      const link = new URL(linkHref, baseUrl);
+      const page = new URL(baseUrl);
+      if (link.hostname.replace(/^www\./, '') === page.hostname.replace(/^www\./, '') && /^\/(index\.[a-z]+)?$/.test(link.pathname)) {
+        signals.push('home-link');
+      }
+    } catch {
+      // Not a usable link
+    }
+  }
+  
+  return signals;
+}
+
+/**
+ * Decide whether an element is worth reporting as a logo. Icon-only keywords are never enough;
+ * header images qualify on position alone, inline SVGs need a keyword or the home link.
+ */
+function isLogoCandidate(signals: LogoSignal[], isImage: boolean): boolean {
+  if (signals.includes('logo-keyword') || signals.includes('home-link')) return true;
+  return isImage && signals.includes('header') && !signals.includes('icon-keyword');
 }
 
-function extractColorsFromText(text: string, colors: BrandAsset[], colorSet: Set<string>): void {
-  const colorPatterns = [
-    /#[0-9a-f]{6}|#[0-9a-f]{3}/gi, // Hex colors
-    /rgb\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*\)/gi, // RGB colors
-    /rgba\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*,\s*[0-9.]+\s*\)/gi, // RGBA colors
-    /hsl\(\s*\d+\s*,\s*\d+%\s*,\s*\d+%\s*\)/gi // HSL colors
-  ];
+/**
+ * Check if an image has a logo or icon keyword (used to keep icons out of illustrations)
+ */
+function isLikelyLogo(src: string, alt: string, className: string, id?: string): boolean {
+  const logoKeywords = ['logo', 'brand', 'mark', 'icon'];
+  const text = `${src} ${alt} ${className} ${id || ''}`.toLowerCase();
+  return logoKeywords.some(keyword => text.includes(keyword));
+}
+
+/**
+ * Unique colors from CSS declarations in order of appearance, each with the context of its first use
+ */
+function extractColorsFromDeclarations(declarations: ScopedDeclaration[]): BrandAsset[] {
+  const colors = new Map<string, BrandAsset>();
   
-  colorPatterns.forEach(pattern => {
-    const matches = text.match(pattern) || [];
-    matches.forEach(match => {
-      const normalizedColor = normalizeColor(match);
-      if (normalizedColor && !colorSet.has(normalizedColor)) {
-        colorSet.add(normalizedColor);
-        colors.push({
+  declarations.forEach(declaration => {
+    findColorsInValue(declaration.value, declaration.property.startsWith('--')).forEach(color => {
+      if (!colors.has(color)) {
+        colors.set(color, {
           type: 'color',
-          value: normalizedColor,
-          source: 'css'
+          value: color,
+          source: 'css',
+          cssContext: getCssContext(declaration)
         });
       }
     });
   });
+  
+  return [...colors.values()];
+}
+
+/**
+ * SVG and legacy HTML color attributes (fill, stroke, stop-color, color, bgcolor), as declarations
+ */
+function extractPresentationAttributes($: cheerio.CheerioAPI): ScopedDeclaration[] {
+  const attributes = ['fill', 'stroke', 'stop-color', 'color', 'bgcolor'];
+  return $('[fill], [stroke], [stop-color], [color], [bgcolor]').toArray().flatMap(el =>
+    attributes
+      .filter(attribute => $(el).attr(attribute))
+      .map(attribute => ({
+        selector: el.tagName,
+        property: attribute === 'bgcolor' ? 'background-color' : attribute,
+        value: $(el).attr(attribute)!.trim(),
+        important: false
+      }))
+  );
+}
+
+/**
+ * Declarations of a style attribute, scoped to the element's tag name
+ */
+function parseStyleAttribute(style: string, tagName: string): ScopedDeclaration[] {
+  return parseDeclarationList(style).map(declaration => ({ ...declaration, selector: tagName }));
 }
 
 /**
- * Normalize color values to hex format when possible (reused from original implementation)
+ * Where an asset was found in the page's CSS
+ */
+function getCssContext({ selector, property, media }: ScopedDeclaration): CssContext {
+  return media ? { selector, property, media } : { selector, property };
+}
+
+/**
+ * Normalize any CSS color to hex, or rgba() when it is translucent
+ * Values the color model cannot parse are returned trimmed and lowercased
  */
 function normalizeColor(color: string): string | null {
-  const trimmed = color.trim().toLowerCase();
-  
-  // If it's already a hex color, ensure it's 6 digits
-  if (trimmed.startsWith('#')) {
-    if (trimmed.length === 4) {
-      // Convert #abc to #aabbcc
-      return '#' + trimmed[1] + trimmed[1] + trimmed[2] + trimmed[2] + trimmed[3] + trimmed[3];
-    }
-    return trimmed;
-  }
-  
-  // For RGB values, convert to hex
-  if (trimmed.startsWith('rgb(')) {
-    const rgbMatch = trimmed.match(/rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)/);
-    if (rgbMatch) {
-      const r = parseInt(rgbMatch[1]);
-      const g = parseInt(rgbMatch[2]);
-      const b = parseInt(rgbMatch[3]);
-      return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-    }
-  }
-  
-  // Return as-is for other formats (rgba, hsl, etc.)
-  return trimmed;
+  const parsed = parseColorWithAlpha(color);
+  return parsed ? toCanonicalColor(parsed) : color.trim().toLowerCase();
 }
 
 /**
- * Extract font assets from HTML and CSS
+ * Extract font assets from HTML and the page's own CSS
  */
-function extractFontsSecurely($: cheerio.CheerioAPI, baseUrl: string): BrandAsset[] {
+function extractFontsSecurely(
+  $: cheerio.CheerioAPI,
+  baseUrl: string,
+  rules: CssRule[],
+  declarations: ScopedDeclaration[]
+): BrandAsset[] {
   const fonts: BrandAsset[] = [];
   const fontSet = new Set<string>();
   
-  // Extract from Google Fonts links
-  $('link[href*="fonts.googleapis.com"]').each((_, el) => {
-    const href = $(el).attr('href');
+  // Families requested from font services (Google Fonts, Bunny, Fontshare) and kits that do not name theirs
+  $('link[href]').each((_, el) => {
+    const href = $(el).attr('href')!;
+    let url: URL;
+    try {
+      url = new URL(href, baseUrl);
+    } catch (e) {
+      console.warn('Invalid font link URL:', href);
+      return;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
     
-    if (href) {
-      try {
-        // Validate URL
-        const url = new URL(href, baseUrl);
-        if (url.protocol === 'http:' || url.protocol === 'https:') {
-          const familyMatch = href.match(/family=([^&"']*)/i);
-          if (familyMatch) {
-            const families = decodeURIComponent(familyMatch[1]).split('|');
-            families.forEach(family => {
-              const fontName = family.split(':')[0].replace(/\+/g, ' ');
-              if (!fontSet.has(fontName)) {
-                fontSet.add(fontName);
-                fonts.push({
-                  type: 'font',
-                  name: fontName,
-                  url: url.href,
-                  source: 'link'
-                });
-              }
-            });
-          }
-        }
-      } catch (e) {
-        console.warn('Invalid Google Fonts URL:', href);
+    const service = identifyFontService(url.href);
+    if (!service || (service.families.length === 0 && !service.kitId)) return;
+    
+    const names = service.families.length > 0 ? service.families : [FONT_PROVIDER_LABELS[service.provider]];
+    names.forEach(fontName => {
+      if (!fontSet.has(fontName)) {
+        fontSet.add(fontName);
+        fonts.push({
+          type: 'font',
+          name: fontName,
+          url: url.href,
+          source: 'link'
+        });
       }
-    }
-  });
-  
-  // Extract from style tags
-  $('style').each((_, el) => {
-    const css = $(el).html() || '';
-    extractFontFamiliesFromCSS(css, fonts, fontSet);
+    });
   });
   
-  // Extract from inline styles
-  $('[style*="font-family"]').each((_, el) => {
-    const style = $(el).attr('style') || '';
-    extractFontFamiliesFromCSS(style, fonts, fontSet);
-  });
+  // Self-hosted @font-face files and the families used in declarations
+  fonts.push(...extractFontFacesFromRules(rules, baseUrl));
+  fonts.push(...extractFontFamiliesFromDeclarations(declarations));
   
   return fonts;
 }
 
-function extractFontFamiliesFromCSS(css: string, fonts: BrandAsset[], fontSet: Set<string>): void {
-  const fontFamilyMatches = css.match(/font-family\s*:\s*[^;}]+/gi) || [];
+/**
+ * Font families named in font-family and font declarations, in order of appearance
+ */
+function extractFontFamiliesFromDeclarations(declarations: ScopedDeclaration[]): BrandAsset[] {
+  const fonts = new Map<string, BrandAsset>();
   
-  fontFamilyMatches.forEach(match => {
-    const fontFamily = match.replace(/font-family\s*:\s*/i, '').trim();
-    const fontsList = fontFamily.split(',');
-    
-    fontsList.forEach(font => {
-      const cleanFont = font.trim().replace(/['"]/g, '');
-      // Skip generic font families
-      if (!isGenericFont(cleanFont) && !fontSet.has(cleanFont)) {
-        fontSet.add(cleanFont);
-        fonts.push({
-          type: 'font',
-          name: cleanFont,
-          source: 'css'
-        });
+  declarations.forEach(declaration => {
+    if (declaration.atRule) return;
+    getFontFamilies(declaration).forEach(name => {
+      if (!fonts.has(name)) {
+        fonts.set(name, { type: 'font', name, source: 'css', cssContext: getCssContext(declaration) });
       }
     });
   });
+  
+  return [...fonts.values()];
 }
 
 /**
- * Check if a font name is a generic CSS font family (reused from original implementation)
+ * Family names of a font-family declaration or `font` shorthand, without generic families
+ * Values that depend on var() cannot be resolved here and are skipped
  */
-function isGenericFont(fontName: string): boolean {
-  const genericFonts = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', '-apple-system', 'BlinkMacSystemFont'];
-  return genericFonts.includes(fontName.toLowerCase());
+function getFontFamilies({ property, value }: ScopedDeclaration): string[] {
+  let familyList: string;
+  if (property === 'font-family') {
+    familyList = value;
+  } else if (property === 'font') {
+    const font = parseFontShorthand(value);
+    if (!font) return [];
+    familyList = font.family;
+  } else {
+    return [];
+  }
+  if (familyList.includes('(')) return [];
+  
+  return splitCommaList(familyList)
+    .map(family => family.replace(/^(['"])(.*)\1$/, '$2').trim())
+    .filter(family => family && !GENERIC_FONT_FAMILIES.has(family.toLowerCase()));
 }
 
 /**
  * Extract illustration assets from HTML
  */
-function extractIllustrationsSecurely($: cheerio.CheerioAPI, baseUrl: string): BrandAsset[] {
+function extractIllustrationsSecurely($: cheerio.CheerioAPI, baseUrl: string, declarations: ScopedDeclaration[]): BrandAsset[] {
   const illustrations: BrandAsset[] = [];
   
   // Extract images that are not logos
   $('img').each((_, el) => {
-    const src = $(el).attr('src');
+    const src = $(el).attr('src') || '';
     const alt = $(el).attr('alt') || '';
     const className = $(el).attr('class') || '';
     
-    if (src) {
-      try {
-        // Validate URL
-        const url = new URL(src, baseUrl);
-        if ((url.protocol === 'http:' || url.protocol === 'https:') && !isLikelyLogo(src, alt, className)) {
-          illustrations.push({
-            type: 'illustration',
-            url: url.href,
-            alt: alt || undefined,
-            source: 'html'
-          });
-        }
-      } catch (e) {
-        console.warn('Invalid illustration URL:', src);
+    const image = resolveImageElement($, el, baseUrl);
+    if (image) {
+      const text = `${src} ${image.url} ${alt} ${className}`;
+      const isLogo = isLikelyLogo(text, alt, className) ||
+        isLogoCandidate(getLogoSignals($, el, text, baseUrl), true);
+      if (!isLogo) {
+        illustrations.push({
+          type: 'illustration',
+          url: image.url,
+          alt: alt || undefined,
+          source: 'html',
+          ...(image.renditions.length > 1 ? { renditions: image.renditions } : {})
+        });
       }
     }
   });
   
-  // Extract background images
-  // Using a separate function that extracts from style attributes and CSS
-  $('[style*="background"]').each((_, el) => {
-    const style = $(el).attr('style') || '';
-    extractBackgroundImagesFromCSS(style, illustrations, baseUrl);
-  });
-  
-  $('style').each((_, el) => {
-    const css = $(el).html() || '';
-    extractBackgroundImagesFromCSS(css, illustrations, baseUrl);
-  });
+  // Background images from style attributes and <style> blocks, including the background shorthand
+  declarations
+    .filter(({ property }) => /^(?:-webkit-)?background(?:-image)?$/.test(property))
+    .forEach(declaration => {
+      extractCssUrls(declaration.value).forEach(href => {
+        try {
+          const url = new URL(href, baseUrl);
+          if (url.protocol === 'http:' || url.protocol === 'https:') {
+            illustrations.push({
+              type: 'illustration',
+              url: url.href,
+              source: 'css',
+              cssContext: getCssContext(declaration)
+            });
+          }
+        } catch (e) {
+          console.warn('Invalid background image URL:', href);
+        }
+      });
+    });
   
   return illustrations;
 }
 
-function extractBackgroundImagesFromCSS(css: string, illustrations: BrandAsset[], baseUrl: string): void {
-  const backgroundImageMatches = css.match(/background-image\s*:\s*url\([^)]+\)/gi) || [];
-  
-  backgroundImageMatches.forEach(match => {
-    const urlMatch = match.match(/url\(['"]?([^'"]+)['"]?\)/i);
-    if (urlMatch) {
-      try {
-        const url = new URL(urlMatch[1], baseUrl);
-        if (url.protocol === 'http:' || url.protocol === 'https:') {
-          illustrations.push({
-            type: 'illustration',
-            url: url.href,
-            source: 'css'
-          });
-        }
-      } catch (e) {
-        console.warn('Invalid background image URL:', urlMatch[1]);
-      }
-    }
-  });
-}
-
 /**
  * Extract assets from meta tags (for SPAs and modern websites)
  */
@@ -497,7 +820,13 @@ function extractAssetsFromMetaTags($: cheerio.CheerioAPI, baseUrl: string): Extr
 /**
  * Extract assets from linked CSS files (for SPAs with external stylesheets)
  */
-async function extractAssetsFromCssLinks($: cheerio.CheerioAPI, baseUrl: string): Promise<ExtractedAssets> {
+async function extractAssetsFromCssLinks(
+  $: cheerio.CheerioAPI,
+  baseUrl: string,
+  fetchStylesheet: (url: string) => Promise<string>,
+  cssDeclarations: ScopedDeclaration[],
+  limits?: Partial<StylesheetCrawlLimits>
+): Promise<ExtractedAssets> {
   const assets: ExtractedAssets = {
     logos: [],
     colors: [],
@@ -521,247 +850,268 @@ async function extractAssetsFromCssLinks($: cheerio.CheerioAPI, baseUrl: string)
     }
   });
 
-  // Extract Google Fonts and other font services from URLs
-  cssLinks.forEach(cssUrl => {
-    // Google Fonts detection
-    if (cssUrl.includes('fonts.googleapis.com') || cssUrl.includes('fonts.gstatic.com')) {
-      const fontMatch = cssUrl.match(/family=([^&:]+)/);
-      if (fontMatch) {
-        const fontName = decodeURIComponent(fontMatch[1]).replace(/\+/g, ' ');
-        assets.fonts.push({
-          type: 'font',
-          name: fontName,
-          url: cssUrl,
-          source: 'link'
-        });
-      }
-    }
-
-    // Adobe Fonts / Typekit detection
-    if (cssUrl.includes('use.typekit.net') || cssUrl.includes('use.adobe.com')) {
-      assets.fonts.push({
-        type: 'font',
-        name: 'Adobe Fonts',
-        url: cssUrl,
-        source: 'link'
-      });
-    }
-  });
-
-  // For same-origin CSS files, try to fetch and parse them for colors and fonts
-  const sameOriginCss = cssLinks.filter(cssUrl => {
-    try {
-      const cssUrlObj = new URL(cssUrl);
-      const baseUrlObj = new URL(baseUrl);
-      return cssUrlObj.hostname === baseUrlObj.hostname;
-    } catch {
-      return false;
-    }
+  // @import rules in inline <style> tags are entry points too
+  $('style').each((_, el) => {
+    cssLinks.push(...extractImportUrls($(el).html() || '', baseUrl));
   });
 
-  // Fetch and parse same-origin CSS files (limit to first 2 to avoid performance issues)
-  for (const cssUrl of sameOriginCss.slice(0, 2)) {
-    try {
-      console.log('Fetching CSS for asset extraction:', cssUrl);
-      
-      // Use our proxy for CSS files (both development and production)
-      let cssContent: string;
-      try {
-        // Always use the proxy for CSS files to avoid CORS issues
-        const proxyUrl = `/api/proxy?url=${encodeURIComponent(cssUrl)}`;
-        const response = await fetch(proxyUrl, {
-          headers: {
-            'X-Purpose': 'asset-extraction'
-          }
-        });
-        if (response.ok) {
-          cssContent = await response.text();
-        } else {
-          console.warn('Proxy failed for CSS, skipping:', cssUrl, response.status);
-          continue;
-        }
-      } catch (proxyError) {
-        console.warn('Proxy error for CSS, skipping:', cssUrl, proxyError);
-        continue;
-      }
-
-      // Extract colors from CSS
-      const cssColors = extractColorsFromCssContent(cssContent);
-      assets.colors.push(...cssColors);
-
-      // Extract font families from CSS
-      const cssFonts = extractFontsFromCssContent(cssContent);
-      assets.fonts.push(...cssFonts);
+  // Crawl linked stylesheets (including CDN-hosted ones) and their @import chains
+  const stylesheets = await crawlStylesheets(cssLinks, fetchStylesheet, limits);
 
-    } catch (error) {
-      console.warn('Failed to fetch CSS file:', cssUrl, error);
-      // Continue with other CSS files
-    }
+  for (const { url: cssUrl, content: cssContent } of stylesheets) {
+    const { rules } = parseStylesheet(cssContent);
+    const declarations = flattenRules(rules);
+    cssDeclarations.push(...declarations);
+    
+    assets.colors.push(...extractColorsFromDeclarations(declarations));
+    
+    // Self-hosted font files resolve against the stylesheet itself; font service stylesheets
+    // (such as an Adobe Fonts kit) also identify where the faces come from
+    const faces = extractFontFacesFromRules(rules, cssUrl);
+    assets.fonts.push(...(identifyFontService(cssUrl) ? faces.map(font => ({ ...font, url: cssUrl })) : faces));
+    assets.fonts.push(...extractFontFamiliesFromDeclarations(declarations));
   }
 
   return assets;
 }
 
 /**
- * Extract colors from CSS content
- */
-function extractColorsFromCssContent(cssContent: string): BrandAsset[] {
-  const colors: BrandAsset[] = [];
-  const colorSet = new Set<string>();
-
-  // Standard color patterns
-  const colorPatterns = [
-    /#[0-9a-f]{6}|#[0-9a-f]{3}/gi, // Hex colors
-    /rgb\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*\)/gi, // RGB colors
-    /rgba\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*,\s*[0-9.]+\s*\)/gi, // RGBA colors
-    /hsl\(\s*\d+\s*,\s*\d+%\s*,\s*\d+%\s*\)/gi // HSL colors
-  ];
-
-  // CSS custom property definitions (--color: value)
-  const customPropertyPattern = /--[a-zA-Z0-9_-]+\s*:\s*([^;]+)/gi;
-  const customPropertyMatches = cssContent.match(customPropertyPattern) || [];
-  
-  customPropertyMatches.forEach(match => {
-    // Extract the value part after the colon
-    const valueMatch = match.match(/:\s*([^;]+)/);
-    if (valueMatch) {
-      const value = valueMatch[1].trim();
-      // Check if the value is a color
-      colorPatterns.forEach(pattern => {
-        pattern.lastIndex = 0; // Reset regex
-        const colorMatch = pattern.exec(value);
-        if (colorMatch) {
-          const normalizedColor = normalizeColor(colorMatch[0]);
-          if (normalizedColor && !colorSet.has(normalizedColor)) {
-            colorSet.add(normalizedColor);
-            colors.push({
-              type: 'color',
-              value: normalizedColor,
-              source: 'css'
-            });
-          }
-        }
-      });
+ * Fetch and parse the Web App Manifest linked from the page, if any
+ */
+async function extractAssetsFromManifest(
+  $: cheerio.CheerioAPI,
+  baseUrl: string,
+  fetchManifest: (url: string) => Promise<string>
+): Promise<ReturnType<typeof parseWebManifest>> {
+  const href = $('link[rel="manifest"]').first().attr('href');
+  if (!href) return null;
+  
+  let manifestUrl: string;
+  try {
+    const url = new URL(href, baseUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    manifestUrl = url.href;
+  } catch {
+    console.warn('Invalid manifest URL:', href);
+    return null;
+  }
+  
+  try {
+    console.log('Fetching web app manifest:', manifestUrl);
+    const manifest = parseWebManifest(await fetchManifest(manifestUrl), manifestUrl, normalizeColor);
+    if (!manifest) {
+      console.warn('Manifest is not valid JSON, skipping:', manifestUrl);
+    }
+    return manifest;
+  } catch (error) {
+    console.warn('Manifest fetch failed, skipping:', manifestUrl, error);
+    return null;
+  }
+}
 
-      // Check for RGB values in comma-separated format (often used with CSS custom properties)
-      const rgbTripletMatch = value.match(/(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
-      if (rgbTripletMatch) {
-        const r = parseInt(rgbTripletMatch[1]);
-        const g = parseInt(rgbTripletMatch[2]);
-        const b = parseInt(rgbTripletMatch[3]);
-        if (r <= 255 && g <= 255 && b <= 255) {
-          const hexColor = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-          if (!colorSet.has(hexColor)) {
-            colorSet.add(hexColor);
-            colors.push({
-              type: 'color',
-              value: hexColor,
-              source: 'css'
-            });
-          }
-        }
-      }
+/**
+ * Fetch a stylesheet or manifest through our proxy to avoid CORS issues (browser default)
+ */
+async function fetchTextThroughProxy(resourceUrl: string): Promise<string> {
+  const proxyUrl = `/api/proxy?url=${encodeURIComponent(resourceUrl)}`;
+  const response = await fetch(proxyUrl, {
+    headers: {
+      'X-Purpose': 'asset-extraction'
     }
   });
+  if (!response.ok) {
+    throw new Error(`Proxy returned ${response.status}`);
+  }
+  return response.text();
+}
 
-  // Standard color extraction
-  colorPatterns.forEach(pattern => {
-    const matches = cssContent.match(pattern) || [];
-    matches.forEach(match => {
-      const normalizedColor = normalizeColor(match);
-      if (normalizedColor && !colorSet.has(normalizedColor)) {
-        colorSet.add(normalizedColor);
-        colors.push({
-          type: 'color',
-          value: normalizedColor,
-          source: 'css'
-        });
-      }
-    });
+/**
+ * Find every color in a declaration value, normalized the same way as extracted colors
+ */
+function findColorsInValue(value: string, isCustomProperty: boolean): string[] {
+  const found: string[] = [];
+  findCssColors(value).forEach(match => {
+    const normalizedColor = normalizeColor(match);
+    if (normalizedColor) found.push(normalizedColor);
   });
-
-  return colors;
+  
+  // Named colors only count as a whole value (e.g. `color: rebeccapurple`), never inside other words
+  if (found.length === 0 && /^[a-z]+$/i.test(value)) {
+    const parsed = parseColorWithAlpha(value);
+    if (parsed && parsed.alpha > 0) found.push(toCanonicalColor(parsed));
+  }
+  
+  // Bare RGB triplets are only colors when stored in custom properties (e.g. --brand-rgb: 99, 91, 255)
+  if (isCustomProperty && found.length === 0) {
+    const rgbTripletMatch = value.match(/^(\d+)\s*,\s*(\d+)\s*,\s*(\d+)$/);
+    if (rgbTripletMatch) {
+      const channels = rgbTripletMatch.slice(1, 4).map(channel => parseInt(channel));
+      if (channels.every(channel => channel <= 255)) {
+        found.push(`#${channels.map(channel => channel.toString(16).padStart(2, '0')).join('')}`);
+      }
+    }
+  }
+  
+  return found;
 }
 
 /**
- * Extract font families from CSS content
+ * Unique colors declared in a set of declarations, in order of appearance
  */
-function extractFontsFromCssContent(cssContent: string): BrandAsset[] {
-  const fonts: BrandAsset[] = [];
-  const fontSet = new Set<string>();
-
-  // Match font-family declarations
-  const fontFamilyPattern = /font-family\s*:\s*([^;}]+)/gi;
-  const matches = cssContent.match(fontFamilyPattern) || [];
-
-  matches.forEach(match => {
-    // Extract the font family value
-    const fontValue = match.replace(/font-family\s*:\s*/i, '').trim();
-    
-    // Split by comma and clean up each font name
-    const fontNames = fontValue.split(',').map(font => 
-      font.trim()
-        .replace(/['"]/g, '') // Remove quotes
-        .replace(/!important/gi, '') // Remove !important
-        .trim()
-    ).filter(font => 
-      font && 
-      font.length > 0 &&
-      !['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'inherit', 'initial', 'unset'].includes(font.toLowerCase())
-    );
+function findDeclarationColors(declarations: ScopedDeclaration[]): string[] {
+  const colors = declarations.flatMap(({ property, value }) => findColorsInValue(value, property.startsWith('--')));
+  return [...new Set(colors)];
+}
 
-    fontNames.forEach(fontName => {
-      if (!fontSet.has(fontName)) {
-        fontSet.add(fontName);
-        fonts.push({
-          type: 'font',
-          name: fontName,
-          source: 'css'
-        });
-      }
+/**
+ * Work out where and how often each color is used, resolving var() chains so that
+ * `button { background: var(--primary) }` with `--primary: var(--brand-500)` counts as a use
+ * of the --brand-500 color under both token names
+ */
+function buildColorUsage(declarations: ScopedDeclaration[], themeColors: string[]): Map<string, ColorUsage> {
+  const usage = new Map<string, ColorUsage>();
+  const customProperties = collectCustomProperties(declarations);
+  
+  declarations.forEach(({ selector, property, value }) => {
+    const resolved = resolveCustomProperties(value, customProperties);
+    if (!resolved) return;
+    
+    const isCustomProperty = property.startsWith('--');
+    findColorsInValue(resolved.value, isCustomProperty).forEach(color => {
+      // Only the references that produced this color name it, e.g. one stop of a gradient
+      const tokens = resolved.references
+        .filter(reference => findColorsInValue(reference.value, true).includes(color))
+        .flatMap(reference => reference.tokens);
+      recordColorUsage(usage, color, {
+        property: isCustomProperty ? undefined : property,
+        selector,
+        customProperties: isCustomProperty ? [property, ...tokens] : tokens
+      });
     });
   });
+  
+  themeColors.forEach(color => recordColorUsage(usage, color, { isThemeColor: true }));
+  
+  return usage;
+}
 
-  // Also check for font shorthand properties
-  const fontShorthandPattern = /font\s*:\s*([^;}]+)/gi;
-  const shorthandMatches = cssContent.match(fontShorthandPattern) || [];
+/**
+ * Turn @font-face rules into one font asset per family, with every face and its files
+ * 
+ * @param rules Parsed rules of a stylesheet (only @font-face rules are used)
+ * @param stylesheetUrl URL the stylesheet was loaded from (relative src URLs resolve against it)
+ */
+function extractFontFacesFromRules(rules: CssRule[], stylesheetUrl: string): BrandAsset[] {
+  const families = new Map<string, BrandAsset>();
+  
+  rules.filter(rule => rule.atRule === 'font-face').forEach(rule => {
+    const descriptors = new Map(rule.declarations.map(({ property, value }) => [property, value]));
+    
+    const family = (descriptors.get('font-family') || '').replace(/['"]/g, '').trim();
+    const sources = parseFontFaceSources(descriptors.get('src') || '', stylesheetUrl);
+    if (!family || sources.length === 0) return;
+    
+    const face: FontFaceDefinition = {
+      weight: normalizeFontWeight(descriptors.get('font-weight')),
+      style: (descriptors.get('font-style') || 'normal').toLowerCase(),
+      sources
+    };
+    const unicodeRange = descriptors.get('unicode-range');
+    if (unicodeRange) {
+      face.unicodeRange = unicodeRange;
+    }
+    
+    const key = family.toLowerCase();
+    if (!families.has(key)) {
+      families.set(key, {
+        type: 'font',
+        name: family,
+        source: 'css',
+        format: sources[0].format,
+        faces: []
+      });
+    }
+    families.get(key)!.faces!.push(face);
+  });
+  
+  return [...families.values()].map(font => ({ ...font, faces: sortFontFaces(font.faces!) }));
+}
 
-  shorthandMatches.forEach(match => {
-    // Font shorthand: [font-style] [font-variant] [font-weight] [font-size]/[line-height] font-family
-    const fontValue = match.replace(/font\s*:\s*/i, '').trim();
+/**
+ * Parse an @font-face `src` descriptor into resolved file URLs (local() sources are skipped)
+ */
+function parseFontFaceSources(src: string, stylesheetUrl: string): FontFileSource[] {
+  const sources: FontFileSource[] = [];
+  
+  // Split on commas that are not inside url(...) or format(...)
+  const entries: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of src) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+  
+  entries.forEach(entry => {
+    const urlMatch = entry.match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/i);
+    if (!urlMatch || urlMatch[1].startsWith('data:')) return;
     
-    // Try to extract the font family from the end of the shorthand
-    const parts = fontValue.split(/\s+/);
-    if (parts.length >= 2) {
-      // Take the last parts as potential font family
-      const potentialFontFamily = parts.slice(-2).join(' ');
+    try {
+      const url = new URL(urlMatch[1].trim(), stylesheetUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
       
-      const fontNames = potentialFontFamily.split(',').map(font => 
-        font.trim()
-          .replace(/['"]/g, '')
-          .replace(/!important/gi, '')
-          .trim()
-      ).filter(font => 
-        font && 
-        font.length > 0 &&
-        !['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'inherit', 'initial', 'unset'].includes(font.toLowerCase()) &&
-        !/^\d/.test(font) // Exclude values that start with numbers (likely sizes)
-      );
-
-      fontNames.forEach(fontName => {
-        if (!fontSet.has(fontName)) {
-          fontSet.add(fontName);
-          fonts.push({
-            type: 'font',
-            name: fontName,
-            source: 'css'
-          });
-        }
-      });
+      const formatMatch = entry.match(/format\(\s*['"]?([^'")]+)['"]?\s*\)/i);
+      const format = normalizeFontFormat(formatMatch?.[1] || url.pathname.split('.').pop() || '');
+      sources.push(format ? { url: url.href, format } : { url: url.href });
+    } catch {
+      console.warn('Invalid font file URL:', urlMatch[1]);
     }
   });
+  
+  return sources;
+}
 
-  return fonts;
+/**
+ * Map format() hints and file extensions to a short format name
+ */
+function normalizeFontFormat(format: string): string | undefined {
+  const normalized = format.toLowerCase().replace(/-variations$/, '');
+  const formats: Record<string, string> = {
+    woff2: 'woff2',
+    woff: 'woff',
+    truetype: 'ttf',
+    ttf: 'ttf',
+    opentype: 'otf',
+    otf: 'otf',
+    'embedded-opentype': 'eot',
+    eot: 'eot',
+    svg: 'svg'
+  };
+  return formats[normalized];
+}
+
+/**
+ * Normalize font-weight keywords to numbers, keeping variable font ranges (e.g. "100 900")
+ */
+function normalizeFontWeight(weight: string | undefined): string {
+  if (!weight) return '400';
+  const normalized = weight.trim().toLowerCase();
+  if (normalized === 'normal') return '400';
+  if (normalized === 'bold') return '700';
+  return normalized.replace(/\s+/g, ' ');
+}
+
+function sortFontFaces(faces: FontFaceDefinition[]): FontFaceDefinition[] {
+  return faces.sort((a, b) =>
+    parseInt(a.weight) - parseInt(b.weight) || a.style.localeCompare(b.style)
+  );
 }
 
 /**
@@ -771,7 +1121,7 @@ function deduplicateAssets(assets: ExtractedAssets): ExtractedAssets {
   return {
     logos: deduplicateByUrl(assets.logos),
     colors: deduplicateByValue(assets.colors),
-    fonts: deduplicateByName(assets.fonts),
+    fonts: deduplicateFonts(assets.fonts),
     illustrations: deduplicateByUrl(assets.illustrations)
   };
 }
@@ -815,7 +1165,9 @@ function deduplicateLogos(logos: BrandAsset[]): BrandAsset[] {
         .replace(/android|apple|ms|favicon|touch|icon/gi, '') // Remove common prefixes
         .toLowerCase();
       
-      const similarityKey = `${url.hostname}:${normalizedFilename}`;
+      // Maskable icons are padded differently, so keep them apart from regular ones
+      const isMaskable = logo.purpose?.split(/\s+/).includes('maskable');
+      const similarityKey = `${url.hostname}:${normalizedFilename}${isMaskable ? ':maskable' : ''}`;
       
       if (!groups.has(similarityKey)) {
         groups.set(similarityKey, []);
@@ -839,6 +1191,11 @@ function deduplicateLogos(logos: BrandAsset[]): BrandAsset[] {
     
     // Sort by preference: larger sizes, better formats, more specific alt text
     const sortedLogos = groupLogos.sort((a, b) => {
+      // Logos declared in structured data always win
+      const aIsDeclared = a.source === 'structured-data';
+      const bIsDeclared = b.source === 'structured-data';
+      if (aIsDeclared !== bIsDeclared) return aIsDeclared ? -1 : 1;
+      
       // Prefer logos with size information in URL (usually higher quality)
       const aSizeMatch = a.url?.match(/(\d+)x?(\d+)?/);
       const bSizeMatch = b.url?.match(/(\d+)x?(\d+)?/);
@@ -888,6 +1245,41 @@ function deduplicateByValue(assets: BrandAsset[]): BrandAsset[] {
   });
 }
 
+/**
+ * Deduplicate fonts by family name, merging @font-face files into the surviving entry
+ */
+function deduplicateFonts(fonts: BrandAsset[]): BrandAsset[] {
+  const byName = new Map<string, BrandAsset>();
+  const result: BrandAsset[] = [];
+  
+  deduplicateByName(fonts.map(font => ({ ...font }))).forEach(font => {
+    if (font.name) byName.set(font.name.toLowerCase(), font);
+    result.push(font);
+  });
+  
+  fonts.forEach(font => {
+    if (!font.name) return;
+    const target = byName.get(font.name.toLowerCase());
+    if (!target) return;
+    target.url = target.url || font.url;
+    if (!font.faces || target.faces === font.faces) return;
+    
+    const faces = [...(target.faces || [])];
+    font.faces.forEach(face => {
+      const isDuplicate = faces.some(existing =>
+        existing.weight === face.weight &&
+        existing.style === face.style &&
+        existing.unicodeRange === face.unicodeRange
+      );
+      if (!isDuplicate) faces.push(face);
+    });
+    target.faces = sortFontFaces(faces);
+    target.format = target.format || font.format;
+  });
+  
+  return result;
+}
+
 function deduplicateByName(assets: BrandAsset[]): BrandAsset[] {
   const seen = new Set<string>();
   return assets.filter(asset => {
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createFetchResourceFetcher, extractAssetsOnServer, normalizeExtractionUrl, MAX_RESOURCE_BYTES, type FetchedResource } from './serverExtraction'
+
+const page = (overrides: Partial<FetchedResource> = {}): FetchedResource => ({
+  ok: true,
+  status: 200,
+  url: 'https://example.com/',
+  contentType: 'text/html; charset=utf-8',
+  text: `
+    <html>
+      <head>
+        <link rel="icon" href="/favicon.svg">
+        <link rel="stylesheet" href="/styles/main.css">
+      </head>
+      <body>
+        <img src="/company-logo.svg" alt="Company Logo">
+      </body>
+    </html>
+  `,
+  ...overrides
+})
+
+describe('Server-side extraction', () => {
+  it('should normalize URLs without a protocol', () => {
+    expect(normalizeExtractionUrl(' example.com ')).toBe('https://example.com')
+    expect(normalizeExtractionUrl('http://example.com')).toBe('http://example.com')
+  })
+
+  it('should parse the page and fetch stylesheets through the provided fetcher', async () => {
+    const fetcher = vi.fn(async (url: string) => {
+      if (url.endsWith('main.css')) {
+        return page({ url, contentType: 'text/css', text: ':root { --brand: #635bff; } body { font-family: "Brand Sans"; }' })
+      }
+      return page()
+    })
+
+    const { status, result } = await extractAssetsOnServer('https://example.com', fetcher)
+
+    expect(status).toBe(200)
+    expect(result.success).toBe(true)
+    expect(result.domain).toBe('example.com')
+    expect(result.assets?.logos.map(logo => logo.url)).toContain('https://example.com/company-logo.svg')
+    expect(result.assets?.colors.map(color => color.value)).toContain('#635bff')
+    expect(result.assets?.fonts.map(font => font.name)).toContain('Brand Sans')
+    expect(fetcher).toHaveBeenCalledWith('https://example.com/styles/main.css')
+  })
+
+  it('should report upstream errors with gateway status codes', async () => {
+    const notFound = await extractAssetsOnServer('https://example.com', async () => page({ ok: false, status: 404, text: '' }))
+    expect(notFound.status).toBe(502)
+    expect(notFound.result.success).toBe(false)
+    expect(notFound.result.error).toBe('Website returned 404')
+    expect(notFound.result.assets).toBeNull()
+
+    const timeout = await extractAssetsOnServer('https://example.com', async () => {
+      throw new Error('The operation was aborted due to timeout')
+    })
+    expect(timeout.status).toBe(504)
+
+    const notHtml = await extractAssetsOnServer('https://example.com/logo.png', async () => page({ contentType: 'image/png' }))
+    expect(notHtml.status).toBe(422)
+  })
+
+  it('should check every redirect target before following it', async () => {
+    const isAllowedUrl = (url: string) => !new URL(url).hostname.startsWith('169.254.')
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+      const url = String(input)
+      if (url === 'https://example.com/') return new Response(null, { status: 301, headers: { Location: '/home' } })
+      if (url === 'https://example.com/home') return new Response('<html></html>', { headers: { 'Content-Type': 'text/html' } })
+      return new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest/meta-data/' } })
+    })
+    const fetcher = createFetchResourceFetcher(isAllowedUrl, 'test')
+
+    await expect(fetcher('https://example.com/')).resolves.toMatchObject({ ok: true, url: 'https://example.com/home', text: '<html></html>' })
+    await expect(fetcher('https://example.com/styles.css')).rejects.toThrow('Refusing to fetch unsafe URL')
+    expect(fetchMock).not.toHaveBeenCalledWith('http://169.254.169.254/latest/meta-data/', expect.anything())
+    fetchMock.mockRestore()
+  })
+
+  it('should stop reading bodies that grow past the size limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024).fill(0x20)
+    let chunksSent = 0
+    const endless = () => new ReadableStream<Uint8Array>({
+      pull(controller) {
+        chunksSent++
+        controller.enqueue(chunk)
+      }
+    })
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(endless(), { headers: { 'Content-Type': 'text/html' } }))
+    const fetcher = createFetchResourceFetcher(() => true, 'test')
+
+    await expect(fetcher('https://example.com/')).rejects.toThrow('Response too large')
+    expect(chunksSent * chunk.length).toBeLessThanOrEqual(MAX_RESOURCE_BYTES + 2 * chunk.length)
+
+    const result = await extractAssetsOnServer('https://example.com/', fetcher)
+    expect(result).toMatchObject({ status: 502, result: { error: 'The page is too large to extract assets from' } })
+    fetchMock.mockRestore()
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * Server-side asset extraction for the `/api/extract` endpoint
+ * Shared by the Cloudflare Worker, Pages Functions and the Express server
+ */
+import { parseHtmlSecurely } from './secureHtmlParser';
+import type { AssetExtractionResult } from './assetTypes';
+
+/**
+ * Minimal view of an upstream response, so each runtime can use its own HTTP client
+ */
+export interface FetchedResource {
+  ok: boolean;
+  status: number;
+  url: string;
+  contentType: string;
+  text: string;
+}
+
+/**
+ * Fetches a URL on behalf of the extractor. Implementations must reject unsafe URLs,
+ * since stylesheet URLs come from the (untrusted) page being parsed.
+ */
+export type ResourceFetcher = (url: string) => Promise<FetchedResource>;
+
+/**
+ * Extraction result together with the HTTP status it should be served with
+ */
+export interface ServerExtractionResponse {
+  status: number;
+  result: AssetExtractionResult;
+}
+
+/**
+ * Timeout for each upstream request made by the default fetcher
+ */
+const FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * Redirects the default fetcher follows, checking each target before requesting it
+ */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Largest page, stylesheet or manifest read from upstream; bigger bodies are rejected
+ * instead of being buffered in full
+ */
+export const MAX_RESOURCE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Normalize a URL by ensuring it has a protocol
+ */
+export function normalizeExtractionUrl(url: string): string {
+  const trimmed = url.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+/**
+ * Build a failed extraction response in the same shape as a successful one
+ */
+export function createExtractionError(url: string, status: number, error: string): ServerExtractionResponse {
+  return {
+    status,
+    result: {
+      success: false,
+      url,
+      domain: getDomain(url),
+      assets: null,
+      error,
+      extractedAt: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * Fetch a page and run the secure HTML parser on it
+ *
+ * @param url The normalized, already validated URL to extract from
+ * @param fetchResource Runtime specific fetcher used for the page and its stylesheets
+ * @returns The extraction result and the HTTP status to respond with
+ */
+export async function extractAssetsOnServer(url: string, fetchResource: ResourceFetcher): Promise<ServerExtractionResponse> {
+  let page: FetchedResource;
+
+  try {
+    page = await fetchResource(url);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/timeout|aborted/i.test(message)) {
+      return createExtractionError(url, 504, 'Request timeout: the website took too long to respond');
+    }
+    if (/too large|maxContentLength/i.test(message)) {
+      return createExtractionError(url, 502, 'The page is too large to extract assets from');
+    }
+    return createExtractionError(url, 502, 'Failed to fetch website content');
+  }
+
+  if (!page.ok) {
+    return createExtractionError(url, 502, `Website returned ${page.status}`);
+  }
+
+  if (page.contentType && !/text\/html|application\/xhtml\+xml/i.test(page.contentType)) {
+    return createExtractionError(url, 422, `Expected an HTML page but received ${page.contentType.split(';')[0]}`);
+  }
+
+  // Resolve relative URLs against the final URL after redirects
+  const baseUrl = page.url || url;
+
+  // Stylesheets, the manifest and SVG sprites are fetched with the same (URL checking) fetcher
+  const fetchText = async (resourceUrl: string) => {
+    const resource = await fetchResource(resourceUrl);
+    if (!resource.ok) {
+      throw new Error(`Resource returned ${resource.status}`);
+    }
+    return resource.text;
+  };
+
+  const assets = await parseHtmlSecurely(page.text, baseUrl, {
+    fetchStylesheet: fetchText,
+    fetchManifest: fetchText,
+    fetchSvgSprite: fetchText
+  });
+
+  return {
+    status: 200,
+    result: {
+      success: true,
+      url: baseUrl,
+      domain: getDomain(baseUrl),
+      assets,
+      error: null,
+      extractedAt: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * Create a fetcher backed by the global `fetch` (Workers, Pages Functions, Node 18+)
+ * Redirects are followed manually so a public URL cannot redirect to an internal one.
+ *
+ * @param isAllowedUrl Runtime specific URL safety check
+ * @param userAgent User agent to send upstream
+ */
+export function createFetchResourceFetcher(isAllowedUrl: (url: string) => boolean, userAgent: string): ResourceFetcher {
+  return async (url: string) => {
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let currentUrl = url;
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+      if (!isAllowedUrl(currentUrl)) {
+        throw new Error(`Refusing to fetch unsafe URL: ${currentUrl}`);
+      }
+
+      response = await fetch(currentUrl, {
+        headers: {
+          'User-Agent': userAgent,
+          'Accept': 'text/html,application/xhtml+xml,text/css,application/manifest+json,*/*;q=0.8',
+          'Accept-Language': 'en-US,en;q=0.5',
+        },
+        redirect: 'manual',
+        signal
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      if (redirects === MAX_REDIRECTS) {
+        throw new Error(`Too many redirects: ${url}`);
+      }
+      currentUrl = new URL(location, currentUrl).href;
+    }
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      url: currentUrl,
+      contentType: response.headers.get('content-type') || '',
+      text: response.ok ? await readLimitedText(response, MAX_RESOURCE_BYTES) : ''
+    };
+  };
+}
+
+/**
+ * Read a response body as text, giving up as soon as it grows past `maxBytes`
+ */
+async function readLimitedText(response: Response, maxBytes: number): Promise<string> {
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new Error(`Response too large: over ${maxBytes} bytes`);
+  }
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw new Error(`Response too large: over ${maxBytes} bytes`);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+
+  return text + decoder.decode();
+}
+
+function getDomain(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
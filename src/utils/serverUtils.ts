@@ -1,5 +1,6 @@
 /**
  * Server utilities for Cloudflare Workers
+ * The user agent and binary content types are also used by Pages Functions and the Express server.
  */
 
 // HTML entities to sanitize user content
@@ -141,3 +142,24 @@ export function getCacheHeaders(contentType: string): Record<string, string> {
   
   return headers;
 }
+
+
+/**
+ * Content type prefixes that must be passed through as raw bytes
+ */
+const BINARY_CONTENT_TYPES = [
+  'image/',
+  'font/',
+  'application/octet-stream',
+  'application/font-',
+  'application/x-font-',
+  'application/vnd.ms-fontobject'
+] as const;
+
+/**
+ * Determines if a response body is binary and must not be decoded as text
+ */
+export function isBinaryContentType(contentType: string): boolean {
+  const normalized = contentType.toLowerCase();
+  return BINARY_CONTENT_TYPES.some(prefix => normalized.startsWith(prefix));
+}
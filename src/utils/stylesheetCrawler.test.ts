@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest'
+import { crawlStylesheets, extractImportUrls } from './stylesheetCrawler'
+
+const createFetcher = (files: Record<string, string>) =>
+  vi.fn(async (url: string) => {
+    if (!(url in files)) throw new Error(`404 ${url}`)
+    return files[url]
+  })
+
+describe('Stylesheet Crawler', () => {
+  it('should resolve @import rules against the importing stylesheet', () => {
+    const css = `
+      /* @import "commented-out.css"; */
+      @import url("base.css");
+      @import url(https://cdn.example.net/theme.css) screen;
+      @import '../shared/tokens.css' layer(tokens);
+    `
+
+    expect(extractImportUrls(css, 'https://example.com/css/main.css')).toEqual([
+      'https://example.com/css/base.css',
+      'https://cdn.example.net/theme.css',
+      'https://example.com/shared/tokens.css'
+    ])
+  })
+
+  it('should follow cross-origin stylesheets and import chains without looping', async () => {
+    const fetcher = createFetcher({
+      'https://example.com/main.css': '@import "a.css"; body { color: #111; }',
+      'https://example.com/a.css': '@import "main.css"; @import "https://cdn.example.net/b.css";',
+      'https://cdn.example.net/b.css': '@import "https://example.com/a.css#again"; .b { color: #222; }',
+      'https://cdn.example.net/vendor.css': '.vendor { color: #333; }'
+    })
+
+    const stylesheets = await crawlStylesheets(
+      ['https://example.com/main.css', 'https://cdn.example.net/vendor.css', 'https://example.com/missing.css'],
+      fetcher
+    )
+
+    expect(stylesheets.map(stylesheet => [stylesheet.url, stylesheet.depth])).toEqual([
+      ['https://example.com/main.css', 0],
+      ['https://cdn.example.net/vendor.css', 0],
+      ['https://example.com/a.css', 1],
+      ['https://cdn.example.net/b.css', 2]
+    ])
+    expect(stylesheets[2].importedFrom).toBe('https://example.com/main.css')
+    expect(fetcher).toHaveBeenCalledTimes(5)
+  })
+
+  it('should respect depth, file count and byte limits', async () => {
+    const fetcher = createFetcher({
+      'https://example.com/1.css': '@import "2.css";',
+      'https://example.com/2.css': '@import "3.css";',
+      'https://example.com/3.css': '.deep {}',
+      'https://example.com/big.css': 'x'.repeat(100)
+    })
+
+    const shallow = await crawlStylesheets(['https://example.com/1.css'], fetcher, { maxDepth: 1 })
+    expect(shallow.map(stylesheet => stylesheet.url)).toEqual(['https://example.com/1.css', 'https://example.com/2.css'])
+
+    const fewFiles = await crawlStylesheets(['https://example.com/1.css', 'https://example.com/big.css'], fetcher, { maxFiles: 1 })
+    expect(fewFiles).toHaveLength(1)
+
+    const budget = await crawlStylesheets(['https://example.com/1.css', 'https://example.com/big.css'], fetcher, { maxBytes: 50 })
+    expect(budget).toHaveLength(2)
+    expect(budget[1].truncated).toBe(true)
+    expect(budget.reduce((total, stylesheet) => total + stylesheet.content.length, 0)).toBe(50)
+  })
+
+  it('should cap the number of parallel requests', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const fetcher = async () => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      inFlight--
+      return '.a {}'
+    }
+
+    const urls = Array.from({ length: 8 }, (_, index) => `https://example.com/${index}.css`)
+    const stylesheets = await crawlStylesheets(urls, fetcher, { concurrency: 3 })
+
+    expect(stylesheets).toHaveLength(8)
+    expect(maxInFlight).toBe(3)
+  })
+})
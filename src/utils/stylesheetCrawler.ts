@@ -0,0 +1,156 @@
+/**
+ * Stylesheet crawler for Brrrand
+ * Follows linked stylesheets (including cross-origin CDN files) and their @import
+ * chains, within a byte budget, file count and depth limit
+ */
+import { runWithConcurrency } from './concurrency';
+import { parseStylesheet } from './cssParser';
+
+/**
+ * Limits applied to a single crawl
+ */
+export interface StylesheetCrawlLimits {
+  /** Total amount of CSS to read, in characters; the stylesheet that crosses it is truncated */
+  maxBytes: number;
+  /** Maximum number of stylesheets to fetch */
+  maxFiles: number;
+  /** How deep to follow @import chains (linked stylesheets are depth 0) */
+  maxDepth: number;
+  /** Maximum number of stylesheet requests in flight */
+  concurrency: number;
+}
+
+export const DEFAULT_STYLESHEET_CRAWL_LIMITS: StylesheetCrawlLimits = {
+  maxBytes: 2_000_000,
+  maxFiles: 20,
+  maxDepth: 3,
+  concurrency: 4
+};
+
+/**
+ * A fetched stylesheet
+ */
+export interface CrawledStylesheet {
+  url: string;
+  content: string;
+  depth: number;
+  /** URL of the stylesheet that @imported this one */
+  importedFrom?: string;
+  /** Whether the content was cut off by the byte budget */
+  truncated?: boolean;
+}
+
+interface PendingStylesheet {
+  url: string;
+  depth: number;
+  importedFrom?: string;
+}
+
+/**
+ * Fetch stylesheets breadth-first, following @import rules
+ * Failed fetches are skipped; a URL is never fetched twice, which also breaks import cycles
+ *
+ * @param entryUrls Absolute URLs of the stylesheets linked from the page, in document order
+ * @param fetchStylesheet Returns the text of a stylesheet
+ * @param limits Crawl limits, merged over the defaults
+ * @returns Fetched stylesheets, level by level and in document order within a level
+ */
+export async function crawlStylesheets(
+  entryUrls: string[],
+  fetchStylesheet: (url: string) => Promise<string>,
+  limits: Partial<StylesheetCrawlLimits> = {}
+): Promise<CrawledStylesheet[]> {
+  const { maxBytes, maxFiles, maxDepth, concurrency } = { ...DEFAULT_STYLESHEET_CRAWL_LIMITS, ...limits };
+  const visited = new Set<string>();
+  const stylesheets: CrawledStylesheet[] = [];
+  let remainingBytes = maxBytes;
+  let remainingFiles = maxFiles;
+
+  const enqueue = (level: PendingStylesheet[], url: string, depth: number, importedFrom?: string) => {
+    const key = getCrawlKey(url);
+    if (visited.has(key) || remainingFiles <= 0) return;
+    visited.add(key);
+    remainingFiles--;
+    level.push({ url, depth, importedFrom });
+  };
+
+  let level: PendingStylesheet[] = [];
+  entryUrls.forEach(url => enqueue(level, url, 0));
+
+  while (level.length > 0 && remainingBytes > 0) {
+    const fetched: (CrawledStylesheet | null)[] = new Array(level.length).fill(null);
+
+    await runWithConcurrency(level.map((pending, index) => ({ pending, index })), concurrency, async ({ pending, index }) => {
+      try {
+        console.log('Fetching CSS for asset extraction:', pending.url);
+        const content = await fetchStylesheet(pending.url);
+        fetched[index] = { ...pending, content };
+      } catch (error) {
+        console.warn('Stylesheet fetch failed, skipping:', pending.url, error);
+      }
+    });
+
+    const nextLevel: PendingStylesheet[] = [];
+
+    for (const stylesheet of fetched) {
+      if (!stylesheet) continue;
+      if (remainingBytes <= 0) break;
+
+      if (stylesheet.content.length > remainingBytes) {
+        stylesheet.content = stylesheet.content.slice(0, remainingBytes);
+        stylesheet.truncated = true;
+      }
+      remainingBytes -= stylesheet.content.length;
+      stylesheets.push(stylesheet);
+
+      if (stylesheet.depth < maxDepth) {
+        extractImportUrls(stylesheet.content, stylesheet.url)
+          .forEach(url => enqueue(nextLevel, url, stylesheet.depth + 1, stylesheet.url));
+      }
+    }
+
+    level = nextLevel;
+  }
+
+  return stylesheets;
+}
+
+/**
+ * Find the targets of @import rules, resolved against the importing stylesheet
+ *
+ * @param cssContent Stylesheet text
+ * @param stylesheetUrl URL of the stylesheet the rules appear in
+ */
+export function extractImportUrls(cssContent: string, stylesheetUrl: string): string[] {
+  const urls: string[] = [];
+  // @import rules must precede every other rule, so the head of the stylesheet is enough
+  const withoutComments = cssContent.replace(/\/\*[\s\S]*?\*\//g, '');
+  const blockStart = withoutComments.indexOf('{');
+  const head = blockStart === -1 ? withoutComments : withoutComments.slice(0, blockStart);
+
+  parseStylesheet(head).imports.forEach(({ url: href }) => {
+    try {
+      const url = new URL(href.trim(), stylesheetUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        urls.push(url.href);
+      }
+    } catch {
+      console.warn('Invalid @import URL:', href);
+    }
+  });
+
+  return urls;
+}
+
+/**
+ * Identity of a stylesheet for cycle detection (fragments never change the response)
+ */
+function getCrawlKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
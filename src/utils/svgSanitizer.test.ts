@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { sanitizeSvg, encodeSvgDataUrl } from './svgSanitizer'
+
+describe('SVG Sanitizer', () => {
+  describe('sanitizeSvg', () => {
+    it('should strip scripts, event handlers, foreignObject and external references', () => {
+      const svg = sanitizeSvg(`
+        <svg viewBox="0 0 10 10" onload="alert(1)">
+          <script>alert(1)</script>
+          <style>@import url(https://evil.example/x.css); .a { fill: url(https://evil.example/p.svg#p); }</style>
+          <foreignObject><iframe src="https://evil.example"></iframe></foreignObject>
+          <a href="javascript:alert(1)"><path d="M0 0h10v10z" onclick="alert(1)"/></a>
+          <image href="https://tracker.example/pixel.png"/>
+          <use href="https://cdn.example/sprite.svg#mark"/>
+          <animate attributeName="href" to="javascript:alert(1)"/>
+        </svg>
+      `)!
+
+      expect(svg).not.toMatch(/script|onload|onclick|foreignObject|iframe|javascript|evil\.example|tracker|<image|<use|<animate|<a\b/)
+      expect(svg).toContain('<g><path d="M0 0h10v10z"/></g>')
+      expect(svg).toContain('.a{fill:none;}')
+    })
+
+    it('should remove editor metadata and minify the markup', () => {
+      const svg = sanitizeSvg(`<?xml version="1.0"?>
+        <!-- Generator: Adobe Illustrator -->
+        <svg xmlns:sodipodi="http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd" data-name="Layer 1" viewBox="0 0 24   24">
+          <metadata><rdf:RDF/></metadata>
+          <sodipodi:namedview pagecolor="#fff"/>
+          <g>  </g>
+          <title>Acme</title>
+          <path sodipodi:nodetypes="cc" d="M2 2
+            L22 22"/>
+        </svg>
+      `)
+
+      expect(svg).toBe('<svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><title>Acme</title><path d="M2 2 L22 22"/></svg>')
+    })
+
+    it('should resolve <use> references and definitions against the page', () => {
+      const page: Record<string, string> = {
+        'logo': '<symbol id="logo" viewBox="0 0 100 20"><path fill="url(#brand-gradient)" d="M0 0h100v20H0z"/></symbol>',
+        'brand-gradient': '<linearGradient id="brand-gradient"><stop offset="0" stop-color="#ff5a1f"/></linearGradient>'
+      }
+
+      const svg = sanitizeSvg('<svg class="logo"><use href="#logo" x="4" width="100" height="20"></use></svg>', {
+        resolveReference: id => page[id] ?? null
+      })
+
+      expect(svg).toBe(
+        '<svg class="logo" xmlns="http://www.w3.org/2000/svg">' +
+        '<defs><linearGradient id="brand-gradient"><stop offset="0" stop-color="#ff5a1f"/></linearGradient></defs>' +
+        '<g transform="translate(4 0)"><svg viewBox="0 0 100 20" width="100" height="20"><path fill="url(#brand-gradient)" d="M0 0h100v20H0z"/></svg></g>' +
+        '</svg>'
+      )
+    })
+
+    it('should inline currentColor with the brand color', () => {
+      const svg = sanitizeSvg('<svg viewBox="0 0 10 10"><style>.b { stroke: currentColor }</style><path fill="currentColor" class="b" d="M0 0h10"/></svg>', {
+        currentColor: '#0055ff'
+      })
+
+      expect(svg).toContain('<path fill="#0055ff"')
+      expect(svg).toContain('.b{stroke:#0055ff}')
+    })
+
+    it('should return null when there is nothing to draw', () => {
+      expect(sanitizeSvg('<div>not a logo</div>')).toBeNull()
+      expect(sanitizeSvg('<svg viewBox="0 0 24 24"><use href="/sprite.svg#missing"/></svg>')).toBeNull()
+    })
+  })
+
+  describe('encodeSvgDataUrl', () => {
+    it('should base64 encode non-ASCII text as UTF-8', () => {
+      const svg = '<svg><title>Café ☕</title></svg>'
+      const dataUrl = encodeSvgDataUrl(svg)
+
+      expect(dataUrl.startsWith('data:image/svg+xml;base64,')).toBe(true)
+      const binary = atob(dataUrl.split(',')[1])
+      expect(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))).toBe(svg)
+    })
+  })
+})
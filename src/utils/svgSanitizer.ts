@@ -0,0 +1,340 @@
+/**
+ * SVG sanitization for Brrrand
+ * Makes inline and downloaded SVG logos safe to preview and reuse: strips scripts, event handlers,
+ * foreignObject and external references, pulls in the sprite symbols and definitions the logo
+ * points at, inlines currentColor and minifies the markup
+ */
+import * as cheerio from 'cheerio';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+
+/**
+ * How many levels of nested <use> and url(#id) references to follow
+ */
+const MAX_REFERENCE_DEPTH = 8;
+
+/**
+ * Elements that run code, embed other documents or change attributes at runtime
+ */
+const ACTIVE_ELEMENTS = ['script', 'foreignObject', 'iframe', 'embed', 'object', 'audio', 'video', 'set', 'handler', 'listener'];
+
+/**
+ * Namespace prefixes of editor data (Inkscape, Sketch, Illustrator, Affinity, Dublin Core/RDF metadata)
+ */
+const EDITOR_NAMESPACES = ['inkscape', 'sodipodi', 'sketch', 'serif', 'i', 'x', 'a', 'graph', 'figma', 'dc', 'cc', 'rdf'];
+
+/**
+ * Elements whose whitespace is rendered or read out
+ */
+const TEXT_ELEMENTS = 'text, tspan, textPath, title, desc';
+
+/**
+ * Elements that paint something
+ */
+const DRAWABLE_ELEMENTS = 'path, rect, circle, ellipse, line, polyline, polygon, text, image, use';
+
+/**
+ * url() references that do not point at a fragment of the SVG itself
+ */
+const EXTERNAL_URL_PATTERN = /url\(\s*(?:"(?!#)[^"]*"|'(?!#)[^']*'|(?![\s'"#])[^)]*)\s*\)/gi;
+
+/**
+ * Raster images that may stay embedded in an <image>
+ */
+const EMBEDDED_IMAGE_PATTERN = /^data:image\/(?:png|jpeg|gif|webp|avif);base64,[a-z0-9+/=\s]*$/i;
+
+export interface SvgSanitizeOptions {
+  /**
+   * Color to paint with wherever the SVG uses currentColor; without a surrounding page
+   * currentColor would fall back to black
+   */
+  currentColor?: string;
+  /**
+   * Markup of the element with this id elsewhere in the page, for <use> and url(#id)
+   * references the SVG does not define itself (e.g. a sprite of <symbol>s)
+   *
+   * @param documentUrl The sprite file named by `<use href="sprite.svg#id">`, as written in the SVG
+   */
+  resolveReference?: (id: string, documentUrl?: string) => string | null;
+}
+
+/**
+ * Turn SVG markup into a standalone, inert and compact SVG document
+ *
+ * @param markup Markup of an <svg> element, from the page or a downloaded file
+ * @returns The cleaned SVG, or null when the markup has no <svg> element or nothing
+ * is left to draw (e.g. a <use> of a sprite that could not be resolved)
+ */
+export function sanitizeSvg(markup: string, options: SvgSanitizeOptions = {}): string | null {
+  const $ = cheerio.load(markup, { xml: true });
+  const root = $('svg').first();
+  if (root.length === 0) return null;
+
+  resolveReferences($, root, options.resolveReference);
+  removeActiveContent($, root);
+  removeEditorData($, root);
+  if (options.currentColor) {
+    inlineCurrentColor($, root, options.currentColor);
+  }
+  minify($, root);
+  if (root.find(DRAWABLE_ELEMENTS).length === 0) return null;
+
+  // Inline SVGs inherit their namespace from the HTML page; a file of its own has to declare it
+  root.attr('xmlns', SVG_NAMESPACE);
+  const usesXlink = getElements($, root).some(element => Object.keys(element.attr() ?? {}).some(name => name.startsWith('xlink:')));
+  if (usesXlink) {
+    root.attr('xmlns:xlink', XLINK_NAMESPACE);
+  }
+
+  return $.xml(root);
+}
+
+/**
+ * Encode an SVG document as a base64 data URL; works in browsers, Workers and Node alike
+ */
+export function encodeSvgDataUrl(svg: string): string {
+  let binary = '';
+  new TextEncoder().encode(svg).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+}
+
+type SvgSelection = ReturnType<cheerio.CheerioAPI>;
+
+/**
+ * The root and every element below it
+ */
+function getElements($: cheerio.CheerioAPI, root: SvgSelection): SvgSelection[] {
+  return root.find('*').addBack().toArray().map(el => $(el));
+}
+
+function omitAttributes(attributes: Record<string, string>, names: string[]): Record<string, string> {
+  return Object.fromEntries(Object.entries(attributes).filter(([name]) => !names.includes(name)));
+}
+
+function findById($: cheerio.CheerioAPI, root: SvgSelection, id: string): SvgSelection {
+  return root.find('*').addBack().filter((_, el) => $(el).attr('id') === id);
+}
+
+/**
+ * Replace <use> elements pointing outside the SVG with what they reference, and copy in
+ * gradients, clip paths and other definitions referenced through url(#id) or href
+ */
+function resolveReferences($: cheerio.CheerioAPI, root: SvgSelection, resolveReference?: SvgSanitizeOptions['resolveReference']): void {
+  for (let depth = 0; depth < MAX_REFERENCE_DEPTH; depth++) {
+    let changed = false;
+
+    root.find('use').each((_, el) => {
+      const use = $(el);
+      const href = use.attr('href') ?? use.attr('xlink:href') ?? '';
+      const hashIndex = href.indexOf('#');
+      const documentUrl = hashIndex > 0 ? href.slice(0, hashIndex) : undefined;
+      const id = hashIndex === -1 ? null : href.slice(hashIndex + 1);
+      if (id && !documentUrl && findById($, root, id).length > 0) return;
+
+      // Anything else would render nothing once the SVG leaves the page
+      const target = id && resolveReference ? resolveReference(id, documentUrl) : null;
+      if (target) {
+        use.replaceWith(expandUse($, root, use, target));
+      } else {
+        use.remove();
+      }
+      changed = true;
+    });
+
+    const definitions = findMissingReferences($, root)
+      .map(id => resolveReference?.(id))
+      .filter((definition): definition is string => !!definition);
+    if (definitions.length > 0) {
+      let defs: SvgSelection = root.children('defs').first();
+      if (defs.length === 0) {
+        defs = $('<defs/>');
+        root.prepend(defs);
+      }
+      definitions.forEach(definition => defs.append(definition));
+      changed = true;
+    }
+
+    if (!changed) break;
+  }
+}
+
+/**
+ * Markup that renders the same as a <use> of `targetMarkup`: a group carrying the <use>'s own
+ * attributes, with a <symbol> becoming a nested viewport sized by the <use>
+ *
+ * An SVG that is only a shell around the <use> of a symbol, sized by the page's CSS, takes
+ * over the symbol's viewBox so it keeps its proportions as a file of its own.
+ */
+function expandUse($: cheerio.CheerioAPI, root: SvgSelection, use: SvgSelection, targetMarkup: string): SvgSelection {
+  const $target = cheerio.load(targetMarkup, { xml: true });
+  const target = $target.root().children().first();
+  const { x = '0', y = '0', width, height, transform } = use.attr() ?? {};
+  const attributes = omitAttributes(use.attr() ?? {}, ['href', 'xlink:href', 'x', 'y', 'width', 'height', 'transform']);
+
+  const translate = x !== '0' || y !== '0' ? `translate(${x} ${y})` : '';
+  const group = $('<g/>').attr({
+    ...attributes,
+    ...(transform || translate ? { transform: [transform, translate].filter(Boolean).join(' ') } : {})
+  });
+
+  if (target.is('symbol')) {
+    const viewBox = target.attr('viewBox');
+    if (viewBox && !root.attr('viewBox') && !width && !height && use.parent().is(root)) {
+      root.attr('viewBox', viewBox);
+    }
+
+    const viewport = $('<svg/>').attr({
+      ...(viewBox ? { viewBox } : {}),
+      ...(target.attr('preserveAspectRatio') ? { preserveAspectRatio: target.attr('preserveAspectRatio') } : {}),
+      width: width ?? '100%',
+      height: height ?? '100%'
+    });
+    viewport.append($target.xml(target.contents()));
+    group.append(viewport);
+  } else {
+    // The original keeps its id in the page; a copy must not clash with it
+    target.removeAttr('id');
+    group.append($target.xml(target));
+  }
+
+  return group;
+}
+
+/**
+ * Ids referenced through url(#id), or href="#id" outside <use>, that the SVG does not define
+ */
+function findMissingReferences($: cheerio.CheerioAPI, root: SvgSelection): string[] {
+  const ids = new Set<string>();
+  const collectUrlIds = (value: string) => {
+    for (const match of value.matchAll(/url\(\s*['"]?#([^'")\s]+)/g)) ids.add(match[1]);
+  };
+
+  getElements($, root).forEach(element => {
+    Object.entries(element.attr() ?? {}).forEach(([name, value]) => {
+      collectUrlIds(value);
+      if ((name === 'href' || name === 'xlink:href') && value.startsWith('#') && !element.is('use')) {
+        ids.add(value.slice(1));
+      }
+    });
+  });
+  root.find('style').each((_, el) => collectUrlIds($(el).text()));
+
+  return [...ids].filter(id => findById($, root, id).length === 0);
+}
+
+/**
+ * Remove everything that can run code, load other resources or navigate away
+ */
+function removeActiveContent($: cheerio.CheerioAPI, root: SvgSelection): void {
+  root.find(ACTIVE_ELEMENTS.join(', ')).remove();
+
+  // Animations can rewrite a link to javascript: after sanitization
+  root.find('animate, animateTransform, animateMotion')
+    .filter((_, el) => /^(?:xlink:)?href$/i.test($(el).attr('attributeName') ?? ''))
+    .remove();
+
+  // Links become plain groups
+  root.find('a').each((_, el) => {
+    const link = $(el);
+    const attributes = omitAttributes(link.attr() ?? {}, ['href', 'xlink:href', 'target']);
+    link.replaceWith($('<g/>').attr(attributes).append(link.contents()));
+  });
+
+  getElements($, root).forEach(element => {
+    Object.entries(element.attr() ?? {}).forEach(([name, value]) => {
+      const lowerName = name.toLowerCase();
+      if (lowerName.startsWith('on')) {
+        element.removeAttr(name);
+      } else if (lowerName === 'href' || lowerName === 'xlink:href') {
+        if (!value.startsWith('#') && !EMBEDDED_IMAGE_PATTERN.test(value)) element.removeAttr(name);
+      } else if (EXTERNAL_URL_PATTERN.test(value)) {
+        element.attr(name, value.replace(EXTERNAL_URL_PATTERN, 'none'));
+      }
+      EXTERNAL_URL_PATTERN.lastIndex = 0;
+    });
+  });
+
+  // An <image> without a safe source would only show a broken image
+  root.find('image').filter((_, el) => !$(el).attr('href') && !$(el).attr('xlink:href')).remove();
+
+  root.find('style').each((_, el) => {
+    const style = $(el);
+    style.text(style.text().replace(/@import[^;]*;?/gi, '').replace(EXTERNAL_URL_PATTERN, 'none'));
+  });
+}
+
+/**
+ * Remove editor metadata, namespaced editor elements and attributes, data-* attributes and comments
+ */
+function removeEditorData($: cheerio.CheerioAPI, root: SvgSelection): void {
+  const isEditorName = (name: string) => EDITOR_NAMESPACES.includes(name.split(':')[0]) && name.includes(':');
+
+  root.find('metadata').remove();
+  root.find('*').filter((_, el) => isEditorName(el.tagName)).remove();
+
+  getElements($, root).forEach(element => {
+    Object.keys(element.attr() ?? {}).forEach(name => {
+      const isEditorNamespace = name.startsWith('xmlns:') && EDITOR_NAMESPACES.includes(name.slice(6));
+      if (isEditorNamespace || isEditorName(name) || name.startsWith('data-')) {
+        element.removeAttr(name);
+      }
+    });
+  });
+
+  root.find('*').addBack().contents().filter((_, node) => node.nodeType === 8).remove();
+}
+
+/**
+ * Replace currentColor in attributes and <style> elements with a concrete color
+ */
+function inlineCurrentColor($: cheerio.CheerioAPI, root: SvgSelection, color: string): void {
+  const pattern = /\bcurrentcolor\b/gi;
+
+  getElements($, root).forEach(element => {
+    Object.entries(element.attr() ?? {}).forEach(([name, value]) => {
+      if (pattern.test(value)) element.attr(name, value.replace(pattern, color));
+      pattern.lastIndex = 0;
+    });
+  });
+
+  root.find('style').each((_, el) => {
+    const style = $(el);
+    style.text(style.text().replace(pattern, color));
+  });
+}
+
+/**
+ * Drop insignificant whitespace, CSS comments and empty groups; geometry is left untouched
+ */
+function minify($: cheerio.CheerioAPI, root: SvgSelection): void {
+  root.find('*').addBack().contents()
+    .filter((_, node) => node.nodeType === 3 && !('data' in node && String(node.data).trim()) && !$(node).parent().is(TEXT_ELEMENTS))
+    .remove();
+
+  getElements($, root).forEach(element => {
+    Object.entries(element.attr() ?? {}).forEach(([name, value]) => {
+      const collapsed = value.replace(/\s+/g, ' ').trim();
+      if (collapsed !== value) element.attr(name, collapsed);
+    });
+  });
+
+  root.find('style').each((_, el) => {
+    const style = $(el);
+    const css = style.text().replace(/\/\*[\s\S]*?\*\//g, '').replace(/\s+/g, ' ').replace(/\s*([{};:,])\s*/g, '$1').trim();
+    if (css) {
+      style.text(css);
+    } else {
+      style.remove();
+    }
+  });
+
+  // Empty groups render nothing unless something refers to them
+  let empty = root.find('g, defs').filter((_, el) => $(el).children().length === 0 && !$(el).attr('id'));
+  while (empty.length > 0) {
+    empty.remove();
+    empty = root.find('g, defs').filter((_, el) => $(el).children().length === 0 && !$(el).attr('id'));
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { extractTypography, generateTypographyCss, getTypeScaleName, getTypeScaleRatio, parseFontShorthand } from './typography'
+import { flattenRules, parseStylesheet } from './cssParser'
+
+const typographyOf = (css: string) => extractTypography(flattenRules(parseStylesheet(css).rules))
+
+describe('Typography', () => {
+  it('should map declarations to headings, body, buttons and code', () => {
+    const styles = typographyOf(`
+      :root { --font-display: "Inter Display", sans-serif; font-size: 16px; }
+      body { font: 400 1rem/1.6 Inter, sans-serif; letter-spacing: 0.01em; }
+      h1, .h1 { font-family: var(--font-display); font-size: 3.052rem; font-weight: bold; }
+      .article h2 { font-size: 2.441rem; }
+      h2:hover { font-size: 10rem; }
+      @media (min-width: 768px) { h2 { font-size: 4rem; } h3 { font-size: 1.953rem; } }
+      button, .btn { font-weight: 600; text-transform: uppercase; }
+      pre, code { font-family: "JetBrains Mono", monospace; font-size: 0.875em; }
+    `)
+
+    expect(styles.map(style => style.element)).toEqual(['h1', 'h2', 'h3', 'body', 'button', 'code'])
+    expect(styles[0]).toEqual({
+      element: 'h1',
+      role: 'heading',
+      fontFamily: '"Inter Display", sans-serif',
+      fontSize: '3.052rem',
+      fontWeight: '700',
+      lineHeight: '1.6',
+      letterSpacing: '0.01em'
+    })
+    expect(styles[1].fontSize).toBe('2.441rem')
+    expect(styles[2].fontSize).toBe('1.953rem')
+    expect(styles[3]).toMatchObject({ role: 'body', fontFamily: 'Inter, sans-serif', fontSize: '1rem', fontWeight: '400' })
+    expect(styles[4]).toMatchObject({ role: 'ui', fontFamily: 'Inter, sans-serif', fontWeight: '600' })
+    expect(styles[5]).toEqual({ element: 'code', role: 'code', fontFamily: '"JetBrains Mono", monospace', fontSize: '0.875em' })
+  })
+
+  it('should work out the scale ratio', () => {
+    const styles = typographyOf('body { font-size: 16px } h1 { font-size: 2.441rem } h2 { font-size: 1.953rem } h3 { font-size: 1.563rem } h4 { font-size: 1.25rem }')
+    const ratio = getTypeScaleRatio(styles)
+
+    expect(ratio).toBeCloseTo(1.25, 2)
+    expect(getTypeScaleName(ratio!)).toBe('Major third')
+    expect(getTypeScaleName(1.9)).toBeUndefined()
+    expect(getTypeScaleRatio(typographyOf('body { font-size: 16px }'))).toBeNull()
+  })
+
+  it('should parse font shorthands and generate CSS', () => {
+    expect(parseFontShorthand('italic 700 2rem/1.2 "Söhne", system-ui')).toEqual({
+      style: 'italic',
+      weight: '700',
+      size: '2rem',
+      lineHeight: '1.2',
+      family: '"Söhne", system-ui'
+    })
+    expect(parseFontShorthand('menu')).toBeNull()
+
+    expect(generateTypographyCss(typographyOf('h1 { font-size: 3rem; font-weight: 800 }'))).toBe('h1 {\n  font-size: 3rem;\n  font-weight: 800;\n}')
+  })
+})
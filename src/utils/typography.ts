@@ -0,0 +1,265 @@
+/**
+ * Typography hierarchy detection for Brrrand
+ * Works out the font family, size, weight, line height and letter spacing the site uses
+ * for headings, body text, buttons and code, from the declarations that target them
+ */
+import type { TypeStyle, TypographyElement, TypographyRole } from './assetTypes';
+import { collectCustomProperties, resolveCustomProperties } from './customProperties';
+import { splitCommaList, type ScopedDeclaration } from './cssParser';
+
+type TypeProperty = 'fontFamily' | 'fontSize' | 'fontWeight' | 'lineHeight' | 'letterSpacing';
+
+/**
+ * Display order of the elements in a type scale
+ */
+export const TYPOGRAPHY_ELEMENTS: readonly TypographyElement[] = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'body', 'p', 'button', 'code'] as const;
+
+/**
+ * Named modular scales, for describing the ratio between heading sizes
+ */
+export const TYPE_SCALE_NAMES: readonly { ratio: number; name: string }[] = [
+  { ratio: 1.067, name: 'Minor second' },
+  { ratio: 1.125, name: 'Major second' },
+  { ratio: 1.2, name: 'Minor third' },
+  { ratio: 1.25, name: 'Major third' },
+  { ratio: 1.333, name: 'Perfect fourth' },
+  { ratio: 1.414, name: 'Augmented fourth' },
+  { ratio: 1.5, name: 'Perfect fifth' },
+  { ratio: 1.618, name: 'Golden ratio' }
+];
+
+const PROPERTY_MAP: Record<string, TypeProperty> = {
+  'font-family': 'fontFamily',
+  'font-size': 'fontSize',
+  'font-weight': 'fontWeight',
+  'line-height': 'lineHeight',
+  'letter-spacing': 'letterSpacing'
+};
+
+/**
+ * Properties body text, headings and buttons pick up from `body` (and `body` from `html`/`:root`)
+ * when they do not set them; sizes and weights follow browser defaults instead
+ */
+const INHERITED_PROPERTIES: readonly TypeProperty[] = ['fontFamily', 'lineHeight', 'letterSpacing'];
+
+/**
+ * Size of a `font` shorthand, with its optional line height; the size always has a unit or is
+ * a keyword, which tells it apart from a numeric weight
+ */
+const FONT_SIZE_PATTERN = /(?:^|\s)((?:\d*\.?\d+)(?:[a-z]+|%)|(?:xx?-)?(?:small|large)|medium|smaller|larger)(?:\s*\/\s*([\w.%-]+))?\s+(?=\S)/i;
+
+/**
+ * The longhands of a `font` shorthand declaration
+ */
+export interface FontShorthand {
+  style?: string;
+  weight?: string;
+  size: string;
+  lineHeight?: string;
+  family: string;
+}
+
+/**
+ * Split a `font` shorthand ([style] [variant] [weight] size[/line-height] family) into its parts
+ *
+ * @returns null for system font keywords such as `caption` or when no size can be found
+ */
+export function parseFontShorthand(value: string): FontShorthand | null {
+  const match = value.match(FONT_SIZE_PATTERN);
+  if (!match) return null;
+
+  const family = value.slice(match.index! + match[0].length).trim();
+  const prefix = value.slice(0, match.index).trim().split(/\s+/);
+  const weight = prefix.find(word => /^(?:bold|bolder|lighter|[1-9]\d{0,2}|1000)$/i.test(word));
+  const style = prefix.find(word => /^(?:italic|oblique)$/i.test(word));
+
+  return {
+    ...(style ? { style: style.toLowerCase() } : {}),
+    ...(weight ? { weight: weight.toLowerCase() } : {}),
+    size: match[1],
+    ...(match[2] ? { lineHeight: match[2] } : {}),
+    family
+  };
+}
+
+/**
+ * Build the type scale of a page: one style per element it styles, in display order
+ *
+ * Later declarations win, `!important` beats normal declarations, and declarations inside
+ * @media queries only fill in what the unconditional rules leave unset.
+ *
+ * @param declarations Light theme declarations of every stylesheet
+ */
+export function extractTypography(declarations: ScopedDeclaration[]): TypeStyle[] {
+  const customProperties = collectCustomProperties(declarations);
+  const found = new Map<TypographyElement | 'root', Partial<Record<TypeProperty, { value: string; rank: number }>>>();
+
+  declarations.forEach((declaration, index) => {
+    if (declaration.atRule) return;
+    const targets = getTargetElements(declaration.selector);
+    if (targets.length === 0) return;
+
+    const resolved = resolveCustomProperties(declaration.value, customProperties);
+    if (!resolved) return;
+
+    // Media-scoped values rank below every unconditional one, important ones above
+    const rank = index + (declaration.media ? 0 : declarations.length) + (declaration.important ? 2 * declarations.length : 0);
+    getTypeProperties(declaration.property, resolved.value).forEach(([property, value]) => {
+      targets.forEach(target => {
+        const properties = found.get(target) ?? {};
+        const current = properties[property];
+        if (!current || current.rank <= rank) properties[property] = { value, rank };
+        found.set(target, properties);
+      });
+    });
+  });
+
+  const valuesOf = (target: TypographyElement | 'root') =>
+    Object.fromEntries(Object.entries(found.get(target) ?? {}).map(([property, entry]) => [property, entry!.value])) as Partial<Record<TypeProperty, string>>;
+
+  const root = valuesOf('root');
+  const body = { ...pickInherited(root), ...(root.fontSize ? { fontSize: root.fontSize } : {}), ...valuesOf('body') };
+
+  return TYPOGRAPHY_ELEMENTS.flatMap(element => {
+    const own = element === 'body' ? body : valuesOf(element);
+    if (Object.keys(own).length === 0) return [];
+
+    // Code keeps its monospace family rather than inheriting the body font
+    const inherited = element === 'body' || element === 'code' ? {} : pickInherited(body);
+    const style: TypeStyle = { element, role: getTypographyRole(element), ...inherited, ...own };
+    return [style];
+  });
+}
+
+/**
+ * Ratio between consecutive heading sizes, or null when fewer than two sizes are known in pixels
+ *
+ * @returns The median ratio of the distinct sizes from h1 down to body text, rounded to 3 decimals
+ */
+export function getTypeScaleRatio(styles: TypeStyle[]): number | null {
+  const rootSize = toPixels(styles.find(style => style.element === 'body')?.fontSize ?? '16px') ?? 16;
+  const sizes = styles
+    .filter(style => /^h[1-6]$/.test(style.element) || style.element === 'body' || style.element === 'p')
+    .map(style => (style.fontSize ? toPixels(style.fontSize, rootSize) : null))
+    .filter((size): size is number => size !== null && size > 0);
+
+  const distinct = [...new Set(sizes)].sort((a, b) => b - a);
+  if (distinct.length < 2) return null;
+
+  const ratios = distinct.slice(1).map((size, index) => distinct[index] / size).sort((a, b) => a - b);
+  const median = ratios.length % 2 === 1
+    ? ratios[(ratios.length - 1) / 2]
+    : (ratios[ratios.length / 2 - 1] + ratios[ratios.length / 2]) / 2;
+  return Math.round(median * 1000) / 1000;
+}
+
+/**
+ * Closest named modular scale, when the ratio is within 2% of one
+ */
+export function getTypeScaleName(ratio: number): string | undefined {
+  const closest = [...TYPE_SCALE_NAMES].sort((a, b) => Math.abs(a.ratio - ratio) - Math.abs(b.ratio - ratio))[0];
+  return Math.abs(closest.ratio - ratio) / closest.ratio <= 0.02 ? closest.name : undefined;
+}
+
+/**
+ * Convert an absolute or font-relative size to pixels (rem and em are taken relative to `baseSize`)
+ */
+export function toPixels(size: string, baseSize = 16): number | null {
+  const match = size.trim().match(/^(\d*\.?\d+)(px|rem|em|pt|%)$/i);
+  if (!match) return null;
+
+  const number = parseFloat(match[1]);
+  switch (match[2].toLowerCase()) {
+    case 'px':
+      return number;
+    case 'pt':
+      return Math.round(number * 4 / 3 * 100) / 100;
+    case '%':
+      return number / 100 * baseSize;
+    default:
+      return number * baseSize;
+  }
+}
+
+function getTypographyRole(element: TypographyElement): TypographyRole {
+  if (element === 'button') return 'ui';
+  if (element === 'code') return 'code';
+  if (element === 'body' || element === 'p') return 'body';
+  return 'heading';
+}
+
+/**
+ * Elements a selector list styles, taken from the subject of each selector
+ * (`.article h2` styles h2, `h1, .h1` styles h1, `button:hover` is skipped)
+ */
+function getTargetElements(selectorList: string): (TypographyElement | 'root')[] {
+  const targets = splitCommaList(selectorList).flatMap<TypographyElement | 'root'>(selector => {
+    const subject = selector.trim().split(/\s*[\s>+~]\s*/).pop()!.toLowerCase();
+    const heading = subject.match(/^\.?(h[1-6])$/);
+    if (heading) return [heading[1] as TypographyElement];
+    if (subject === 'html' || subject === ':root') return ['root'];
+    if (subject === 'body' || subject === 'p') return [subject];
+    if (/^(?:button|\.btn|\.button|input\[type=["']?(?:submit|button)["']?\])$/.test(subject)) return ['button'];
+    if (/^(?:code|pre|kbd|samp)$/.test(subject)) return ['code'];
+    return [];
+  });
+  return [...new Set(targets)];
+}
+
+/**
+ * Typography properties set by a declaration, expanding the `font` shorthand
+ */
+function getTypeProperties(property: string, value: string): [TypeProperty, string][] {
+  if (property === 'font') {
+    const font = parseFontShorthand(value);
+    if (!font) return [];
+    return [
+      ['fontFamily', font.family],
+      ['fontSize', font.size],
+      ['fontWeight', font.weight ?? '400'],
+      ['lineHeight', font.lineHeight ?? 'normal']
+    ];
+  }
+
+  const typeProperty = PROPERTY_MAP[property];
+  if (!typeProperty || /^(?:inherit|initial|unset|revert|revert-layer)$/i.test(value)) return [];
+  if (typeProperty === 'fontWeight') return [[typeProperty, normalizeWeight(value)]];
+  return [[typeProperty, value.replace(/\s+/g, ' ').trim()]];
+}
+
+function normalizeWeight(weight: string): string {
+  const normalized = weight.trim().toLowerCase();
+  if (normalized === 'normal') return '400';
+  if (normalized === 'bold') return '700';
+  return normalized;
+}
+
+function pickInherited(values: Partial<Record<TypeProperty, string>>): Partial<Record<TypeProperty, string>> {
+  return Object.fromEntries(INHERITED_PROPERTIES.filter(property => values[property]).map(property => [property, values[property]]));
+}
+
+/**
+ * CSS rules reproducing the type scale, e.g. `h1 { font-family: Inter, sans-serif; font-size: 3rem; }`
+ */
+export function generateTypographyCss(styles: TypeStyle[]): string {
+  const properties: [keyof TypeStyle, string][] = [
+    ['fontFamily', 'font-family'],
+    ['fontSize', 'font-size'],
+    ['fontWeight', 'font-weight'],
+    ['lineHeight', 'line-height'],
+    ['letterSpacing', 'letter-spacing']
+  ];
+  return styles.map(style => {
+    const declarations = properties
+      .filter(([key]) => style[key])
+      .map(([key, property]) => `  ${property}: ${style[key]};`);
+    return `${style.element} {\n${declarations.join('\n')}\n}`;
+  }).join('\n\n');
+}
+
+/**
+ * First family of a font stack, without quotes
+ */
+export function getPrimaryFontFamily(stack: string): string {
+  return (splitCommaList(stack)[0] ?? stack).replace(/^(['"])(.*)\1$/, '$2');
+}
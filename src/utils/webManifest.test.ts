@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { parseWebManifest } from './webManifest'
+
+const identity = (color: string) => color.toLowerCase()
+
+describe('Web App Manifest', () => {
+  it('should turn icons, colors and names into brand assets', () => {
+    const manifest = JSON.stringify({
+      name: 'Acme Workspace',
+      short_name: 'Acme',
+      theme_color: '#FF5A1F',
+      background_color: '#ffffff',
+      icons: [
+        { src: 'icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+        { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+        { src: 'icons/maskable.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        { src: 'javascript:alert(1)' },
+        { sizes: '48x48' }
+      ]
+    })
+
+    const result = parseWebManifest(manifest, 'https://acme.com/app/site.webmanifest', identity)
+
+    expect(result?.brand).toEqual({ name: 'Acme Workspace', shortName: 'Acme' })
+    expect(result?.logos.map(logo => [logo.url, logo.sizes, logo.purpose])).toEqual([
+      ['https://acme.com/icons/icon-512.png', '512x512', undefined],
+      ['https://acme.com/app/icons/maskable.png', '512x512', 'maskable'],
+      ['https://acme.com/app/icons/icon-192.png', '192x192', undefined]
+    ])
+    expect(result?.logos[1]).toMatchObject({ source: 'manifest', format: 'png', alt: 'Acme Workspace app icon (512x512), maskable' })
+    expect(result?.themeColor).toBe('#ff5a1f')
+    expect(result?.colors.map(color => color.value)).toEqual(['#ff5a1f', '#ffffff'])
+  })
+
+  it('should ignore manifests that are not JSON objects', () => {
+    expect(parseWebManifest('<html></html>', 'https://acme.com/manifest.json', identity)).toBeNull()
+    expect(parseWebManifest('[]', 'https://acme.com/manifest.json', identity)).toBeNull()
+  })
+})
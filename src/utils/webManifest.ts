@@ -0,0 +1,123 @@
+/**
+ * Web App Manifest parsing for Brrrand
+ * Turns `manifest.json` / `site.webmanifest` icons, colors and names into brand assets
+ */
+import type { BrandAsset, BrandMetadata } from './assetTypes';
+
+/**
+ * Brand assets found in a manifest
+ */
+export interface ManifestAssets {
+  logos: BrandAsset[];
+  colors: BrandAsset[];
+  brand: BrandMetadata;
+  themeColor?: string;
+  backgroundColor?: string;
+}
+
+interface ManifestIcon {
+  src?: unknown;
+  sizes?: unknown;
+  type?: unknown;
+  purpose?: unknown;
+}
+
+/**
+ * Parse the text of a Web App Manifest
+ *
+ * @param manifestText Raw manifest JSON
+ * @param manifestUrl URL the manifest was loaded from (icon URLs resolve against it)
+ * @param normalizeColor Converts a CSS color to the value format used for color assets
+ * @returns The manifest's assets, or null when the text is not a JSON object
+ */
+export function parseWebManifest(
+  manifestText: string,
+  manifestUrl: string,
+  normalizeColor: (color: string) => string | null
+): ManifestAssets | null {
+  let manifest: Record<string, unknown>;
+  try {
+    const parsed: unknown = JSON.parse(manifestText);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+    manifest = parsed as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+
+  const result: ManifestAssets = { logos: [], colors: [], brand: {} };
+  const name = getString(manifest.name);
+  const shortName = getString(manifest.short_name);
+  if (name) result.brand.name = name;
+  if (shortName) result.brand.shortName = shortName;
+
+  const icons = Array.isArray(manifest.icons) ? manifest.icons as ManifestIcon[] : [];
+  icons.forEach(icon => {
+    const src = getString(icon?.src);
+    if (!src) return;
+
+    try {
+      const url = new URL(src, manifestUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+      const sizes = getString(icon.sizes);
+      const purpose = getString(icon.purpose)?.toLowerCase();
+      const logo: BrandAsset = {
+        type: 'logo',
+        url: url.href,
+        source: 'manifest',
+        alt: describeIcon(name || shortName, sizes, purpose)
+      };
+      if (sizes) logo.sizes = sizes;
+      if (purpose) logo.purpose = purpose;
+      const format = getString(icon.type)?.split('/').pop()?.replace('+xml', '');
+      if (format) logo.format = format;
+      result.logos.push(logo);
+    } catch {
+      console.warn('Invalid manifest icon URL:', src);
+    }
+  });
+
+  // Largest icons first, so they win when similar icons are deduplicated
+  result.logos.sort((a, b) => getLargestSize(b.sizes) - getLargestSize(a.sizes));
+
+  const themeColor = normalizeManifestColor(manifest.theme_color, normalizeColor);
+  const backgroundColor = normalizeManifestColor(manifest.background_color, normalizeColor);
+  if (themeColor) {
+    result.themeColor = themeColor;
+    result.colors.push({ type: 'color', value: themeColor, name: 'Manifest theme color', source: 'manifest' });
+  }
+  if (backgroundColor) {
+    result.backgroundColor = backgroundColor;
+    result.colors.push({ type: 'color', value: backgroundColor, name: 'Manifest background color', source: 'manifest' });
+  }
+
+  return result;
+}
+
+function getString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function normalizeManifestColor(value: unknown, normalizeColor: (color: string) => string | null): string | undefined {
+  const color = getString(value);
+  return color ? normalizeColor(color) ?? undefined : undefined;
+}
+
+function describeIcon(appName: string | undefined, sizes: string | undefined, purpose: string | undefined): string {
+  let description = appName ? `${appName} app icon` : 'App icon';
+  if (sizes && sizes !== 'any') description += ` (${sizes})`;
+  if (purpose?.split(/\s+/).includes('maskable')) description += ', maskable';
+  return description;
+}
+
+/**
+ * Largest pixel area among the sizes of an icon ("any" counts as the largest)
+ */
+function getLargestSize(sizes: string | undefined): number {
+  if (!sizes) return 0;
+  return Math.max(0, ...sizes.toLowerCase().split(/\s+/).map(size => {
+    if (size === 'any') return Number.MAX_SAFE_INTEGER;
+    const [width, height] = size.split('x').map(Number);
+    return width && height ? width * height : 0;
+  }));
+}
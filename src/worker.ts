@@ -4,8 +4,15 @@
  */
 /// <reference types="@cloudflare/workers-types" />
 import { getAssetFromKV } from '@cloudflare/kv-asset-handler';
-import { isValidUrl, sanitizeContent } from './utils/serverUtils';
+import { isValidUrl, sanitizeContent, isBinaryContentType, createUserAgent } from './utils/serverUtils';
 import { checkRateLimit } from './utils/rateLimiter';
+import {
+  createExtractionError,
+  createFetchResourceFetcher,
+  extractAssetsOnServer,
+  normalizeExtractionUrl,
+  type ServerExtractionResponse
+} from './utils/serverExtraction';
 
 interface Env {
   __STATIC_CONTENT: KVNamespace;
@@ -60,6 +67,15 @@ async function handleApiRequest(request: Request, env: Env, url: URL): Promise<R
         }
         return handleProxy(request, env, url, corsHeaders);
       
+      case '/api/extract':
+        if (request.method !== 'GET') {
+          return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+            status: 405,
+            headers: { 'Content-Type': 'application/json', ...corsHeaders },
+          });
+        }
+        return handleExtract(request, env, url, corsHeaders);
+      
       default:
         return new Response(JSON.stringify({ error: 'API endpoint not found' }), {
           status: 404,
@@ -167,7 +183,7 @@ async function handleProxy(
     
     const response = await fetch(targetUrl, {
       headers: {
-        'User-Agent': 'Brrrand Asset Extractor/1.0 (https://brrrand.it.com)',
+        'User-Agent': createUserAgent(),
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
         'Accept-Language': 'en-US,en;q=0.5',
       },
@@ -206,6 +222,23 @@ async function handleProxy(
       responseHeaders['Content-Type'] = contentType;
     }
 
+    // Stream images, fonts and other binary files through untouched
+    if (isBinaryContentType(contentType)) {
+      if (contentType.includes('image/svg+xml')) {
+        // SVGs can carry scripts, so never let them run on our origin
+        responseHeaders['Content-Security-Policy'] = "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+      }
+      // The body is streamed, so pass the upstream size on for clients that only read the first bytes
+      const contentLength = response.headers.get('content-length');
+      if (contentLength && !response.headers.get('content-encoding')) {
+        responseHeaders['X-Content-Length'] = contentLength;
+      }
+      return new Response(response.body, {
+        status: 200,
+        headers: responseHeaders,
+      });
+    }
+
     const content = await response.text();
     
     if (contentType.includes('text/html')) {
@@ -232,6 +265,68 @@ async function handleProxy(
   }
 }
 
+/**
+ * Handle server-side extraction endpoint
+ */
+async function handleExtract(
+  request: Request,
+  env: Env,
+  url: URL,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const respond = ({ status, result }: ServerExtractionResponse, extraHeaders: Record<string, string> = {}) =>
+    new Response(JSON.stringify(result), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...extraHeaders, ...corsHeaders },
+    });
+
+  const rawUrl = url.searchParams.get('url');
+
+  if (!rawUrl) {
+    return respond(createExtractionError('', 400, 'URL parameter is required and must be a string'));
+  }
+
+  const targetUrl = normalizeExtractionUrl(rawUrl);
+
+  // Validate URL
+  if (!isValidUrl(targetUrl)) {
+    return respond(createExtractionError(targetUrl, 403, 'Invalid or unsafe URL'));
+  }
+
+  try {
+    // Get client IP for rate limiting
+    const clientIp = request.headers.get('CF-Connecting-IP') || 
+                     request.headers.get('X-Forwarded-For') || 
+                     request.headers.get('X-Real-IP') || 
+                     'unknown';
+
+    // Check rate limit
+    const rateLimitResult = await checkRateLimit(clientIp, env.RATE_LIMIT_KV);
+    const rateLimitHeaders = {
+      'X-RateLimit-Limit': '100',
+      'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+      'X-RateLimit-Reset': Math.floor(rateLimitResult.resetTime / 1000).toString(),
+    };
+
+    if (rateLimitResult.limited) {
+      return respond(createExtractionError(targetUrl, 429, 'Too many requests. Please try again later.'), rateLimitHeaders);
+    }
+
+    console.log(`Extracting assets from: ${targetUrl}`);
+
+    const fetcher = createFetchResourceFetcher(isValidUrl, createUserAgent());
+    const extraction = await extractAssetsOnServer(targetUrl, fetcher);
+
+    return respond(extraction, {
+      ...rateLimitHeaders,
+      'Cache-Control': extraction.status === 200 ? 'public, max-age=300' : 'no-store',
+    });
+  } catch (error) {
+    console.error('Extraction error:', error);
+    return respond(createExtractionError(targetUrl, 500, 'Internal server error'));
+  }
+}
+
 /**
  * Handle static assets using proper KV Asset Handler
  */